@@ -13,7 +13,7 @@ import ComponentErrorBoundary from './components/ComponentErrorBoundary';
 import ThemeApplicator from './components/ThemeApplicator';
 import LoadingIndicator from './components/LoadingIndicator';
 import { GM_CHARACTER, DEFAULT_CHARACTER } from './constants';
-import { warmWorldCache } from './services/llmService';
+import { warmWorldCache } from './services/loreRetrievalService';
 
 // --- Lazy Loaded Components ---
 const ChatWindow = lazy(() => import('./components/ChatWindow'));
@@ -4,7 +4,7 @@ import { Icon } from './Icon';
 import { motion } from 'framer-motion';
 import { useSettingsStore } from '../store/stores/settingsStore';
 import { generateWorldFromConcept, refineWorldWithInstruction } from '../services/llmService';
-import { LLMProvider } from '../types';
+import { getProviderAdapter, resolveProviderApiKey } from '../services/providers/registry';
 import { logger } from '../services/logger';
 import { Tooltip } from './Tooltip';
 
@@ -102,15 +102,15 @@ const AIWorldEditor: React.FC<AIWorldEditorProps> = ({ world: initialWorld, onSa
     setEditorState('GENERATING');
     setError(null);
     try {
-        const { provider, apiKeys, models } = settings;
+        const { provider, models } = settings;
         const model = models?.[provider] || '';
-        const apiKey = provider === LLMProvider.GEMINI ? process.env.API_KEY || '' : apiKeys[provider];
+        const apiKey = resolveProviderApiKey(settings);
 
-        if (!model || (provider !== LLMProvider.GEMINI && !apiKey)) {
+        if (!model || (getProviderAdapter(provider).requiresApiKey && !apiKey)) {
             throw new Error(`API Key or model not configured for ${provider}.`);
         }
         
-        const generatedWorld = await generateWorldFromConcept({ provider, apiKey, model, concept });
+        const generatedWorld = await generateWorldFromConcept({ provider, apiKey, model, settings, concept });
         const entries = (generatedWorld.entries || []).map(e => ({...e, id: crypto.randomUUID()}));
         setWorld({
             ...generatedWorld,
@@ -133,16 +133,16 @@ const AIWorldEditor: React.FC<AIWorldEditorProps> = ({ world: initialWorld, onSa
     setEditorState('AI_REFINING');
     setError(null);
     try {
-        const { provider, apiKeys, models } = settings;
+        const { provider, models } = settings;
         const model = models?.[provider] || '';
-        const apiKey = provider === LLMProvider.GEMINI ? process.env.API_KEY || '' : apiKeys[provider];
+        const apiKey = resolveProviderApiKey(settings);
 
-        if (!model || (provider !== LLMProvider.GEMINI && !apiKey)) {
+        if (!model || (getProviderAdapter(provider).requiresApiKey && !apiKey)) {
             throw new Error(`API Key or model not configured for ${provider}.`);
         }
 
         const currentWorld = world as World;
-        const refinedWorld = await refineWorldWithInstruction({ provider, apiKey, model, world: currentWorld, instruction });
+        const refinedWorld = await refineWorldWithInstruction({ provider, apiKey, model, settings, world: currentWorld, instruction });
         
         const existingIds = new Set((currentWorld.entries || []).map(e => e.id));
         const finalEntries = (refinedWorld.entries || []).map(e => {
@@ -0,0 +1,127 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Message } from '../types';
+import { Icon } from './Icon';
+import SimpleMarkdown from './SimpleMarkdown';
+import { useChatStore } from '../store/stores/chatStore';
+import { compareBranches } from '../services/branchTreeService';
+
+export interface ComparedBranch {
+  sessionId: string;
+  title: string;
+  messageIds: string[];
+}
+
+interface BranchCompareModalProps {
+  left: ComparedBranch;
+  right: ComparedBranch;
+  /** Display name of the sender of a message in the given session. */
+  senderName: (message: Message, sessionId: string) => string;
+  onOpen: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const BranchColumn: React.FC<{
+  branch: ComparedBranch;
+  messages: Message[];
+  senderName: (message: Message, sessionId: string) => string;
+  onOpen: (sessionId: string) => void;
+}> = ({ branch, messages, senderName, onOpen }) => (
+  <section className="flex-1 min-w-0 flex flex-col bg-slate-950/40 rounded-lg border border-slate-800">
+    <header className="p-3 border-b border-slate-800 flex items-center justify-between gap-2">
+      <div className="min-w-0">
+        <h3 className="font-bold text-slate-100 truncate">{branch.title}</h3>
+        <p className="text-xs text-slate-500">
+          {messages.length} message{messages.length === 1 ? '' : 's'} after the split
+        </p>
+      </div>
+      <button
+        onClick={() => onOpen(branch.sessionId)}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md border border-slate-600 shrink-0"
+      >
+        Open <Icon name="arrow-right" className="w-3.5 h-3.5" />
+      </button>
+    </header>
+    <div className="flex-1 overflow-y-auto p-3 space-y-3 custom-scrollbar">
+      {messages.length > 0 ? (
+        messages.map((message) => (
+          <div key={message.id} className="text-sm">
+            <p className="text-xs font-bold text-slate-400 mb-0.5">{senderName(message, branch.sessionId)}</p>
+            <div className="text-slate-300 break-words">
+              <SimpleMarkdown text={message.content} />
+            </div>
+          </div>
+        ))
+      ) : (
+        <p className="text-sm text-slate-500 italic">This branch ends where the other one splits off.</p>
+      )}
+    </div>
+  </section>
+);
+
+/** Shows two branches next to each other from the point where they diverge. */
+const BranchCompareModal: React.FC<BranchCompareModalProps> = ({ left, right, senderName, onOpen, onClose }) => {
+  const allMessages = useChatStore((state) => state.messages);
+  const comparison = useMemo(() => compareBranches(left.messageIds, right.messageIds), [left.messageIds, right.messageIds]);
+  const resolve = (ids: string[]) => ids.map((id) => allMessages[id]).filter((m): m is Message => !!m);
+  const lastShared = comparison.sharedIds.length > 0 ? allMessages[comparison.sharedIds[comparison.sharedIds.length - 1]] : undefined;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 bg-slate-950/80 flex items-center justify-center z-[60] backdrop-blur-sm"
+      onClick={(e) => {
+        // Keep the click from reaching the history modal's backdrop underneath.
+        e.stopPropagation();
+        onClose();
+      }}
+    >
+      <motion.div
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: 20, opacity: 0 }}
+        transition={{ duration: 0.2, ease: 'easeOut' }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="branch-compare-title"
+        className="bg-slate-900 rounded-lg shadow-2xl w-full max-w-6xl flex flex-col border border-slate-700 h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h2 id="branch-compare-title" className="text-xl font-bold font-display tracking-widest uppercase">
+            Compare Branches
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label="Close comparison"
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-md"
+          >
+            <Icon name="close" />
+          </button>
+        </header>
+        <div className="px-4 py-3 border-b border-slate-800 text-sm text-slate-400 shrink-0">
+          {lastShared ? (
+            <>
+              <span className="font-semibold text-slate-300">
+                {comparison.sharedIds.length} shared message{comparison.sharedIds.length === 1 ? '' : 's'}
+              </span>
+              , ending with {senderName(lastShared, left.sessionId)}:{' '}
+              <span className="italic">“{lastShared.content.replace(/\s+/g, ' ').slice(0, 160)}”</span>
+            </>
+          ) : (
+            'These branches share no messages.'
+          )}
+        </div>
+        <div className="flex-1 min-h-0 flex gap-4 p-4">
+          <BranchColumn branch={left} messages={resolve(comparison.leftIds)} senderName={senderName} onOpen={onOpen} />
+          <BranchColumn branch={right} messages={resolve(comparison.rightIds)} senderName={senderName} onOpen={onOpen} />
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default BranchCompareModal;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Icon } from './Icon';
+import { useChatStore } from '../store/stores/chatStore';
+import { BranchNode } from '../services/branchTreeService';
+
+interface BranchTreeProps {
+  roots: BranchNode[];
+  activeSessionId: string | null;
+  compareIds: string[];
+  onOpen: (sessionId: string) => void;
+  onToggleCompare: (sessionId: string) => void;
+}
+
+const PREVIEW_LENGTH = 80;
+
+const BranchTreeNode: React.FC<Omit<BranchTreeProps, 'roots'> & { node: BranchNode }> = ({ node, ...props }) => {
+  const { activeSessionId, compareIds, onOpen, onToggleCompare } = props;
+  const forkMessage = useChatStore((state) => (node.forkMessageId ? state.messages[node.forkMessageId] : undefined));
+  const isActive = node.sessionId === activeSessionId;
+  const isComparing = compareIds.includes(node.sessionId);
+  const forkPreview = forkMessage?.content.replace(/\s+/g, ' ').slice(0, PREVIEW_LENGTH);
+
+  return (
+    <li>
+      <div
+        className={`flex items-center gap-3 p-3 bg-slate-900/50 border rounded-lg transition-colors group ${
+          isComparing ? 'border-sky-500/80' : 'border-slate-800 hover:border-slate-700'
+        }`}
+      >
+        <Icon name={node.sharedCount > 0 ? 'branch' : 'history'} className="w-5 h-5 text-slate-500 shrink-0" />
+        <button onClick={() => onOpen(node.sessionId)} className="flex-1 min-w-0 text-left">
+          <div className="flex items-center gap-2">
+            <h3 className="font-bold text-slate-100 truncate">{node.title}</h3>
+            {isActive && (
+              <span className="px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider text-crimson-300 bg-crimson-900/50 rounded">
+                Current
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-slate-400 mt-0.5">
+            {node.messageCount} message{node.messageCount === 1 ? '' : 's'}
+            {node.sharedCount > 0 && <> · branches after message {node.sharedCount}</>}
+            {node.lastTimestamp > 0 && <> · {new Date(node.lastTimestamp).toLocaleDateString()}</>}
+          </p>
+          {forkPreview && (
+            <p className="text-xs text-slate-500 italic truncate mt-0.5">
+              “{forkPreview}
+              {forkMessage!.content.length > PREVIEW_LENGTH ? '…' : ''}”
+            </p>
+          )}
+          {node.swipePoints.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1.5" title="Messages with alternative responses that were never forked">
+              {node.swipePoints.map((point) => (
+                <span
+                  key={point.messageId}
+                  className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-semibold text-slate-400 bg-slate-800 rounded"
+                >
+                  <Icon name="sparkles" className="w-3 h-3" />
+                  {point.count} swipes at #{point.index + 1}
+                </span>
+              ))}
+            </div>
+          )}
+        </button>
+        <div className="flex items-center shrink-0">
+          <button
+            onClick={() => onToggleCompare(node.sessionId)}
+            className={`p-2 rounded-md transition-colors ${
+              isComparing ? 'text-sky-400 bg-sky-900/40' : 'text-slate-500 hover:text-sky-400 hover:bg-slate-700/50'
+            }`}
+            aria-pressed={isComparing}
+            aria-label={`Compare branch: ${node.title}`}
+          >
+            <Icon name="columns" className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onOpen(node.sessionId)}
+            className="p-2 text-slate-500 hover:text-white hover:bg-slate-700/50 rounded-md"
+            aria-label={`Open branch: ${node.title}`}
+          >
+            <Icon name="arrow-right" className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-5 pl-4 mt-2 space-y-2 border-l border-slate-700/70">
+          {node.children.map((child) => (
+            <BranchTreeNode key={child.sessionId} node={child} {...props} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Shows sessions as a tree of forks, so branches of a story can be found and
+ * compared. Each branch hangs under the session it was forked from.
+ */
+const BranchTree: React.FC<BranchTreeProps> = ({ roots, ...props }) => (
+  <ul className="space-y-2">
+    {roots.map((node) => (
+      <BranchTreeNode key={node.sessionId} node={node} {...props} />
+    ))}
+  </ul>
+);
+
+export default BranchTree;
@@ -1,22 +1,22 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Character, StructuredPersona } from '../types';
+import { Character, StructuredPersona, World } from '../types';
 import { Icon } from './Icon';
 import Avatar from './Avatar';
 import { useCharacterStore } from '../store/stores/characterStore';
-import { motion } from 'framer-motion';
+import { useSettingsStore } from '../store/stores/settingsStore';
+import { useWorldStore } from '../store/stores/worldStore';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import WorldEditorPage from './WorldEditorPage';
+import MacroPreview from './MacroPreview';
+import { clonePromptTemplate } from '../services/promptTemplateService';
+import { PERSONA_HEADERS } from '../constants';
+import { motion, AnimatePresence } from 'framer-motion';
 
 interface CharacterEditorProps {
   character: Character | null;
   onClose: () => void;
 }
 
-const personaHeaders: { [key in keyof StructuredPersona]: string } = {
-  appearance: 'Appearance:',
-  personality: 'Personality:',
-  speakingStyle: 'Speaking style:',
-  background: 'Background:',
-  motivations: 'Motivations:',
-};
 const initialStructuredPersona: StructuredPersona = {
   appearance: '',
   personality: '',
@@ -28,7 +28,7 @@ const initialStructuredPersona: StructuredPersona = {
 const parsePersona = (personaText: string): StructuredPersona => {
   const result: StructuredPersona = { ...initialStructuredPersona };
   if (!personaText) return result;
-  const headers = Object.values(personaHeaders);
+  const headers = Object.values(PERSONA_HEADERS);
   const regex = new RegExp(`(${headers.join('|')})`, 'g');
   const parts = personaText.split(regex).slice(1);
   if (parts.length === 0) {
@@ -39,18 +39,18 @@ const parsePersona = (personaText: string): StructuredPersona => {
     const header = parts[i];
     const content = parts[i + 1] ? parts[i + 1].trim() : '';
     const key = (
-      Object.keys(personaHeaders) as Array<keyof StructuredPersona>
-    ).find((k) => personaHeaders[k] === header);
+      Object.keys(PERSONA_HEADERS) as Array<keyof StructuredPersona>
+    ).find((k) => PERSONA_HEADERS[k] === header);
     if (key) result[key] = content;
   }
   return result;
 };
 
 const serializePersona = (structured: StructuredPersona): string =>
-  (Object.keys(personaHeaders) as Array<keyof StructuredPersona>)
+  (Object.keys(PERSONA_HEADERS) as Array<keyof StructuredPersona>)
     .map((key) =>
       structured[key]?.trim()
-        ? `${personaHeaders[key]}\n${structured[key].trim()}`
+        ? `${PERSONA_HEADERS[key]}\n${structured[key].trim()}`
         : '',
     )
     .filter(Boolean)
@@ -98,6 +98,7 @@ PersonaField.displayName = 'PersonaField';
 
 function CharacterEditor({ character, onClose }: CharacterEditorProps) {
   const { saveCharacter, generateCharacterProfile } = useCharacterStore();
+  const globalPromptTemplate = useSettingsStore((state) => state.settings.promptTemplates.single);
   const [formData, setFormData] = useState<Partial<Character>>({
     name: '',
     avatar: '',
@@ -115,6 +116,8 @@ function CharacterEditor({ character, onClose }: CharacterEditorProps) {
   const [aiConcept, setAiConcept] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationError, setGenerationError] = useState<string | null>(null);
+  const [editingLorebook, setEditingLorebook] = useState<World | null>(null);
+  const worlds = useWorldStore((state) => state.worlds);
 
   useEffect(() => {
     setFormData(
@@ -139,6 +142,22 @@ function CharacterEditor({ character, onClose }: CharacterEditorProps) {
       setFormData((p) => ({ ...p, [e.target.name]: e.target.value })),
     [],
   );
+  const handleAlternateGreetingChange = useCallback(
+    (index: number, value: string) =>
+      setFormData((p) => ({
+        ...p,
+        alternateGreetings: (p.alternateGreetings || []).map((g, i) => (i === index ? value : g)),
+      })),
+    [],
+  );
+  const handleRemoveAlternateGreeting = useCallback(
+    (index: number) =>
+      setFormData((p) => ({
+        ...p,
+        alternateGreetings: (p.alternateGreetings || []).filter((_, i) => i !== index),
+      })),
+    [],
+  );
   const handleStructuredPersonaChange = useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) =>
       setStructuredPersona((p) => ({
@@ -199,6 +218,14 @@ function CharacterEditor({ character, onClose }: CharacterEditorProps) {
         persona: serializePersona(structuredPersona),
         tags: tags.map(t => t.trim()).filter(Boolean),
         isImmutable: formData.isImmutable,
+        promptTemplate: formData.promptTemplate,
+        scenario: formData.scenario,
+        alternateGreetings: formData.alternateGreetings?.some((g) => g.trim())
+          ? formData.alternateGreetings.filter((g) => g.trim())
+          : undefined,
+        exampleDialogue: formData.exampleDialogue,
+        worldId: formData.worldId || undefined,
+        lorebook: formData.lorebook?.length ? formData.lorebook : undefined,
       };
       saveCharacter(characterToSave);
       onClose();
@@ -208,11 +235,23 @@ function CharacterEditor({ character, onClose }: CharacterEditorProps) {
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') onClose();
+      if (e.key === 'Escape' && !editingLorebook) onClose();
     };
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [onClose]);
+  }, [onClose, editingLorebook]);
+
+  // The lorebook is edited in the world editor, as a world that is never saved on its own.
+  const handleEditLorebook = useCallback(
+    () =>
+      setEditingLorebook({
+        id: formData.id || crypto.randomUUID(),
+        name: `${formData.name || 'Character'}'s Lorebook`,
+        description: '',
+        entries: formData.lorebook || [],
+      }),
+    [formData.id, formData.name, formData.lorebook],
+  );
 
   const handleGenerateClick = useCallback(async () => {
     if (!aiConcept.trim()) return;
@@ -240,292 +279,452 @@ function CharacterEditor({ character, onClose }: CharacterEditorProps) {
   }, [aiConcept, generateCharacterProfile]);
 
   return (
-    <motion.div
-      initial={{ opacity: 0 }}
-      animate={{ opacity: 1 }}
-      exit={{ opacity: 0 }}
-      transition={{ duration: 0.2 }}
-      className="fixed inset-0 bg-slate-950/80 flex items-center justify-center z-50 backdrop-blur-sm"
-      onClick={onClose}
-    >
+    <>
       <motion.div
-        initial={{ y: 20, opacity: 0 }}
-        animate={{ y: 0, opacity: 1 }}
-        exit={{ y: 20, opacity: 0 }}
-        transition={{ duration: 0.2, ease: 'easeOut' }}
-        role="dialog"
-        aria-modal="true"
-        aria-labelledby="character-editor-title"
-        className="bg-slate-900 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-slate-700"
-        onClick={(e) => e.stopPropagation()}
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.2 }}
+        className="fixed inset-0 bg-slate-950/80 flex items-center justify-center z-50 backdrop-blur-sm"
+        onClick={onClose}
       >
-        <header className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
-          <div className="flex items-center gap-4">
-            <h2 id="character-editor-title" className="text-xl font-bold font-display tracking-widest uppercase">
-              {character ? 'Edit Character' : 'Create Character'}
-            </h2>
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 20, opacity: 0 }}
+          transition={{ duration: 0.2, ease: 'easeOut' }}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="character-editor-title"
+          className="bg-slate-900 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-slate-700"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <header className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+            <div className="flex items-center gap-4">
+              <h2 id="character-editor-title" className="text-xl font-bold font-display tracking-widest uppercase">
+                {character ? 'Edit Character' : 'Create Character'}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setIsAIAssistOpen(!isAIAssistOpen)}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-semibold text-crimson-300 bg-crimson-900/50 border border-crimson-700/70 rounded-md hover:bg-crimson-800/50 transition-colors shadow-inner shadow-crimson-900/50"
+              >
+                <Icon name="sparkles" className="w-3.5 h-3.5" /> AI ASSIST
+              </button>
+            </div>
             <button
-              type="button"
-              onClick={() => setIsAIAssistOpen(!isAIAssistOpen)}
-              className="flex items-center gap-1.5 px-3 py-1 text-xs font-semibold text-crimson-300 bg-crimson-900/50 border border-crimson-700/70 rounded-md hover:bg-crimson-800/50 transition-colors shadow-inner shadow-crimson-900/50"
+              onClick={onClose}
+              aria-label="Close character editor"
+              className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-md"
             >
-              <Icon name="sparkles" className="w-3.5 h-3.5" /> AI ASSIST
+              <Icon name="close" />
             </button>
-          </div>
-          <button
-            onClick={onClose}
-            aria-label="Close character editor"
-            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-md"
+          </header>
+          <form
+            onSubmit={handleSubmit}
+            className="flex-1 flex flex-col overflow-hidden"
           >
-            <Icon name="close" />
-          </button>
-        </header>
-        <form
-          onSubmit={handleSubmit}
-          className="flex-1 flex flex-col overflow-hidden"
-        >
-          <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
-            {isAIAssistOpen && (
-              <div className="p-4 mb-6 bg-slate-800/50 rounded-lg border-l-4 border-crimson-500 animate-fade-in space-y-3 shadow-lg shadow-crimson-900/20">
-                <label
-                  htmlFor="ai-concept"
-                  className="block text-sm font-medium text-slate-200 font-display tracking-wider"
-                >
-                  CHARACTER CONCEPT
-                </label>
-                <p className="text-xs text-slate-400">
-                  Describe your character idea, and the AI will generate a
-                  profile.
-                </p>
-                <div className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    id="ai-concept"
-                    value={aiConcept}
-                    onChange={(e) => setAiConcept(e.target.value)}
-                    className="block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-2 placeholder:text-slate-600"
-                    disabled={isGenerating}
-                  />
-                  <button
-                    type="button"
-                    onClick={handleGenerateClick}
-                    disabled={isGenerating || !aiConcept.trim()}
-                    className="px-4 py-2 text-sm font-medium text-white bg-crimson-600 hover:bg-crimson-500 rounded-lg transition-colors disabled:bg-slate-600 disabled:cursor-wait flex items-center gap-2 shrink-0 border border-crimson-400/50 shadow-md shadow-crimson-900/50"
-                  >
-                    <Icon
-                      name={isGenerating ? 'redo' : 'sparkles'}
-                      className={`w-4 h-4 ${
-                        isGenerating ? 'animate-spin' : ''
-                      }`}
-                    />
-                    {isGenerating ? 'Generating...' : 'Generate'}
-                  </button>
-                </div>
-                {generationError && (
-                  <p className="text-xs text-red-400 mt-2">
-                    {generationError}
-                  </p>
-                )}
-              </div>
-            )}
-            <div className="space-y-6">
-              <div className="flex items-center space-x-6">
-                <div className="relative group shrink-0">
-                  <Avatar
-                    src={formData.avatar}
-                    alt="avatar"
-                    shape="square"
-                    className="w-24 h-36 border-2 border-slate-700"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => fileInputRef.current?.click()}
-                    className="absolute inset-0 bg-black/60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                    aria-label="Change avatar"
-                  >
-                    <Icon name="edit" className="w-6 h-6 text-white" />
-                  </button>
-                </div>
-                <div className="flex-1">
+            <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+              {isAIAssistOpen && (
+                <div className="p-4 mb-6 bg-slate-800/50 rounded-lg border-l-4 border-crimson-500 animate-fade-in space-y-3 shadow-lg shadow-crimson-900/20">
                   <label
-                    htmlFor="name"
-                    className="block text-sm font-medium text-slate-300"
+                    htmlFor="ai-concept"
+                    className="block text-sm font-medium text-slate-200 font-display tracking-wider"
                   >
-                    Character Name
+                    CHARACTER CONCEPT
                   </label>
-                  <input
-                    type="text"
-                    name="name"
-                    id="name"
-                    value={formData.name}
-                    onChange={handleChange}
-                    className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-lg p-3 placeholder:text-slate-600"
-                    required
-                    pattern=".*\S+.*"
-                    title="The character name cannot be empty or just spaces."
-                  />
-                  <div className="flex items-center gap-4 mt-2">
+                  <p className="text-xs text-slate-400">
+                    Describe your character idea, and the AI will generate a
+                    profile.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      id="ai-concept"
+                      value={aiConcept}
+                      onChange={(e) => setAiConcept(e.target.value)}
+                      className="block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-2 placeholder:text-slate-600"
+                      disabled={isGenerating}
+                    />
+                    <button
+                      type="button"
+                      onClick={handleGenerateClick}
+                      disabled={isGenerating || !aiConcept.trim()}
+                      className="px-4 py-2 text-sm font-medium text-white bg-crimson-600 hover:bg-crimson-500 rounded-lg transition-colors disabled:bg-slate-600 disabled:cursor-wait flex items-center gap-2 shrink-0 border border-crimson-400/50 shadow-md shadow-crimson-900/50"
+                    >
+                      <Icon
+                        name={isGenerating ? 'redo' : 'sparkles'}
+                        className={`w-4 h-4 ${
+                          isGenerating ? 'animate-spin' : ''
+                        }`}
+                      />
+                      {isGenerating ? 'Generating...' : 'Generate'}
+                    </button>
+                  </div>
+                  {generationError && (
+                    <p className="text-xs text-red-400 mt-2">
+                      {generationError}
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="space-y-6">
+                <div className="flex items-center space-x-6">
+                  <div className="relative group shrink-0">
+                    <Avatar
+                      src={formData.avatar}
+                      alt="avatar"
+                      shape="square"
+                      className="w-24 h-36 border-2 border-slate-700"
+                    />
                     <button
                       type="button"
                       onClick={() => fileInputRef.current?.click()}
-                      className="text-sm text-crimson-400 hover:underline"
+                      className="absolute inset-0 bg-black/60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                      aria-label="Change avatar"
                     >
-                      Upload Image
+                      <Icon name="edit" className="w-6 h-6 text-white" />
                     </button>
-                    {formData.avatar && (
+                  </div>
+                  <div className="flex-1">
+                    <label
+                      htmlFor="name"
+                      className="block text-sm font-medium text-slate-300"
+                    >
+                      Character Name
+                    </label>
+                    <input
+                      type="text"
+                      name="name"
+                      id="name"
+                      value={formData.name}
+                      onChange={handleChange}
+                      className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-lg p-3 placeholder:text-slate-600"
+                      required
+                      pattern=".*\S+.*"
+                      title="The character name cannot be empty or just spaces."
+                    />
+                    <div className="flex items-center gap-4 mt-2">
                       <button
                         type="button"
-                        onClick={() =>
-                          setFormData((p) => ({ ...p, avatar: '' }))
-                        }
-                        className="text-sm text-ember-500 hover:underline"
+                        onClick={() => fileInputRef.current?.click()}
+                        className="text-sm text-crimson-400 hover:underline"
                       >
-                        Remove Image
+                        Upload Image
                       </button>
-                    )}
+                      {formData.avatar && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setFormData((p) => ({ ...p, avatar: '' }))
+                          }
+                          className="text-sm text-ember-500 hover:underline"
+                        >
+                          Remove Image
+                        </button>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-              <input
-                type="file"
-                ref={fileInputRef}
-                onChange={handleFileChange}
-                className="hidden"
-                accept="image/png, image/jpeg, image/webp, image/gif"
-              />
-              <div>
-                <label
-                  htmlFor="greeting"
-                  className="block text-sm font-medium text-slate-300"
-                >
-                  Greeting Message
-                </label>
-                <textarea
-                  name="greeting"
-                  id="greeting"
-                  value={formData.greeting}
-                  onChange={handleChange}
-                  rows={2}
-                  className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-3 placeholder:text-slate-600 custom-scrollbar"
-                  placeholder="The first message your character will send."
-                />
-              </div>
-              <div>
-                <label
-                  htmlFor="description"
-                  className="block text-sm font-medium text-slate-300"
-                >
-                  Short Description
-                </label>
-                <textarea
-                  name="description"
-                  id="description"
-                  value={formData.description}
-                  onChange={handleChange}
-                  rows={2}
-                  className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-3 placeholder:text-slate-600 custom-scrollbar"
-                  placeholder="A brief summary shown in the character list."
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  onChange={handleFileChange}
+                  className="hidden"
+                  accept="image/png, image/jpeg, image/webp, image/gif"
                 />
-              </div>
-              <div>
-                <label htmlFor="tags" className="block text-sm font-medium text-slate-300">
-                  Tags
-                </label>
-                <div
-                  onClick={() => tagInputRef.current?.click()}
-                  className="mt-1 flex flex-wrap items-center gap-2 p-2 bg-slate-950 border-2 border-slate-700 rounded-lg focus-within:ring-2 focus-within:ring-crimson-500 focus-within:border-crimson-500 cursor-text"
-                >
-                  {tags.map((tag) => (
-                    <div
-                      key={tag}
-                      className="flex items-center gap-1.5 pl-2 pr-1 py-0.5 text-sm text-ember-200 bg-ember-900/70 rounded-md"
+                <div>
+                  <label
+                    htmlFor="greeting"
+                    className="block text-sm font-medium text-slate-300"
+                  >
+                    Greeting Message
+                  </label>
+                  <textarea
+                    name="greeting"
+                    id="greeting"
+                    value={formData.greeting}
+                    onChange={handleChange}
+                    rows={2}
+                    className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-3 placeholder:text-slate-600 custom-scrollbar"
+                    placeholder="The first message your character will send. Macros like {{user}} or {{random:a,b}} are expanded when a chat starts."
+                  />
+                  <MacroPreview text={formData.greeting || ''} char={formData.name} className="mt-2" />
+                </div>
+                <div>
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-medium text-slate-300">
+                      Alternate Greetings
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormData((p) => ({ ...p, alternateGreetings: [...(p.alternateGreetings || []), ''] }))
+                      }
+                      className="flex items-center gap-1 px-2 py-0.5 text-xs text-slate-400 hover:text-white rounded-md hover:bg-slate-700/50"
                     >
-                      <span>{tag}</span>
+                      <Icon name="add" className="w-3.5 h-3.5" /> Add Greeting
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-400 mt-1">
+                    New chats can swipe between these and the greeting above.
+                  </p>
+                  {(formData.alternateGreetings || []).map((greeting, index) => (
+                    <div key={index} className="mt-2 flex items-start gap-2">
+                      <textarea
+                        value={greeting}
+                        onChange={(e) => handleAlternateGreetingChange(index, e.target.value)}
+                        rows={2}
+                        aria-label={`Alternate greeting ${index + 1}`}
+                        className="block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-3 placeholder:text-slate-600 custom-scrollbar"
+                        placeholder="Another way the chat could open."
+                      />
                       <button
                         type="button"
-                        onClick={() => handleRemoveTag(tag)}
-                        className="p-0.5 rounded-full hover:bg-ember-700"
-                        aria-label={`Remove tag ${tag}`}
+                        onClick={() => handleRemoveAlternateGreeting(index)}
+                        className="p-2 text-slate-400 hover:text-ember-500 hover:bg-slate-700/50 rounded-md"
+                        aria-label={`Remove alternate greeting ${index + 1}`}
                       >
-                        <Icon name="close" className="w-3.5 h-3.5" />
+                        <Icon name="delete" className="w-4 h-4" />
                       </button>
                     </div>
                   ))}
-                  <input
-                    ref={tagInputRef}
-                    type="text"
-                    onKeyDown={handleTagInputKeyDown}
-                    className="flex-grow bg-transparent outline-none text-sm p-1 placeholder:text-slate-600 min-w-[120px]"
-                    placeholder="Add tags..."
-                  />
                 </div>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-300 font-display tracking-wider">
-                  PERSONA
-                </label>
-                <p className="text-xs text-slate-400 mt-1 mb-2">
-                  Describe the character's core identity. These fields create
-                  the final prompt for the AI.
-                </p>
-                <div className="space-y-4 p-4 bg-slate-800/50 rounded-lg border border-slate-700/50">
-                  <PersonaField
-                    name="appearance"
-                    label="Appearance"
-                    placeholder="Physical description, clothing, etc."
-                    value={structuredPersona.appearance}
-                    onChange={handleStructuredPersonaChange}
-                  />
-                  <PersonaField
-                    name="personality"
-                    label="Personality"
-                    placeholder="Key traits, behaviors, and mannerisms."
-                    value={structuredPersona.personality}
-                    onChange={handleStructuredPersonaChange}
-                  />
-                  <PersonaField
-                    name="speakingStyle"
-                    label="Speaking Style"
-                    placeholder="Voice, accent, vocabulary, etc."
-                    value={structuredPersona.speakingStyle}
-                    onChange={handleStructuredPersonaChange}
+                <div>
+                  <label
+                    htmlFor="description"
+                    className="block text-sm font-medium text-slate-300"
+                  >
+                    Short Description
+                  </label>
+                  <textarea
+                    name="description"
+                    id="description"
+                    value={formData.description}
+                    onChange={handleChange}
+                    rows={2}
+                    className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-3 placeholder:text-slate-600 custom-scrollbar"
+                    placeholder="A brief summary shown in the character list."
                   />
-                  <PersonaField
-                    name="background"
-                    label="Background"
-                    placeholder="A brief history of the character."
-                    value={structuredPersona.background}
-                    onChange={handleStructuredPersonaChange}
+                </div>
+                <div>
+                  <label htmlFor="tags" className="block text-sm font-medium text-slate-300">
+                    Tags
+                  </label>
+                  <div
+                    onClick={() => tagInputRef.current?.click()}
+                    className="mt-1 flex flex-wrap items-center gap-2 p-2 bg-slate-950 border-2 border-slate-700 rounded-lg focus-within:ring-2 focus-within:ring-crimson-500 focus-within:border-crimson-500 cursor-text"
+                  >
+                    {tags.map((tag) => (
+                      <div
+                        key={tag}
+                        className="flex items-center gap-1.5 pl-2 pr-1 py-0.5 text-sm text-ember-200 bg-ember-900/70 rounded-md"
+                      >
+                        <span>{tag}</span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveTag(tag)}
+                          className="p-0.5 rounded-full hover:bg-ember-700"
+                          aria-label={`Remove tag ${tag}`}
+                        >
+                          <Icon name="close" className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    ))}
+                    <input
+                      ref={tagInputRef}
+                      type="text"
+                      onKeyDown={handleTagInputKeyDown}
+                      className="flex-grow bg-transparent outline-none text-sm p-1 placeholder:text-slate-600 min-w-[120px]"
+                      placeholder="Add tags..."
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 font-display tracking-wider">
+                    PERSONA
+                  </label>
+                  <p className="text-xs text-slate-400 mt-1 mb-2">
+                    Describe the character's core identity. These fields create
+                    the final prompt for the AI.
+                  </p>
+                  <div className="space-y-4 p-4 bg-slate-800/50 rounded-lg border border-slate-700/50">
+                    <PersonaField
+                      name="appearance"
+                      label="Appearance"
+                      placeholder="Physical description, clothing, etc."
+                      value={structuredPersona.appearance}
+                      onChange={handleStructuredPersonaChange}
+                    />
+                    <PersonaField
+                      name="personality"
+                      label="Personality"
+                      placeholder="Key traits, behaviors, and mannerisms."
+                      value={structuredPersona.personality}
+                      onChange={handleStructuredPersonaChange}
+                    />
+                    <PersonaField
+                      name="speakingStyle"
+                      label="Speaking Style"
+                      placeholder="Voice, accent, vocabulary, etc."
+                      value={structuredPersona.speakingStyle}
+                      onChange={handleStructuredPersonaChange}
+                    />
+                    <PersonaField
+                      name="background"
+                      label="Background"
+                      placeholder="A brief history of the character."
+                      value={structuredPersona.background}
+                      onChange={handleStructuredPersonaChange}
+                    />
+                    <PersonaField
+                      name="motivations"
+                      label="Motivations"
+                      placeholder="What drives the character's actions."
+                      value={structuredPersona.motivations}
+                      onChange={handleStructuredPersonaChange}
+                    />
+                  </div>
+                  <MacroPreview text={serializePersona(structuredPersona)} char={formData.name} className="mt-2" />
+                </div>
+                <div>
+                  <label
+                    htmlFor="scenario"
+                    className="block text-sm font-medium text-slate-300"
+                  >
+                    Scenario
+                  </label>
+                  <textarea
+                    name="scenario"
+                    id="scenario"
+                    value={formData.scenario || ''}
+                    onChange={handleChange}
+                    rows={3}
+                    className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-3 placeholder:text-slate-600 custom-scrollbar"
+                    placeholder="The situation chats with this character start in."
                   />
-                  <PersonaField
-                    name="motivations"
-                    label="Motivations"
-                    placeholder="What drives the character's actions."
-                    value={structuredPersona.motivations}
-                    onChange={handleStructuredPersonaChange}
+                </div>
+                <div>
+                  <label
+                    htmlFor="exampleDialogue"
+                    className="block text-sm font-medium text-slate-300"
+                  >
+                    Example Dialogue
+                  </label>
+                  <textarea
+                    name="exampleDialogue"
+                    id="exampleDialogue"
+                    value={formData.exampleDialogue || ''}
+                    onChange={handleChange}
+                    rows={5}
+                    className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-3 placeholder:text-slate-600 custom-scrollbar font-mono"
+                    placeholder={'<START>\n{{user}}: Hello.\n{{char}}: *nods* Evening.'}
                   />
+                  <p className="text-xs text-slate-400 mt-1">
+                    Start each exchange with {'<START>'}. Exchanges are left out, last first, when the chat outgrows the context.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 font-display tracking-wider">
+                    LORE
+                  </label>
+                  <p className="text-xs text-slate-400 mt-1 mb-2">
+                    The lorebook travels with the character and is searched alongside the chat's world.
+                  </p>
+                  <div className="space-y-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700/50">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="text-sm text-slate-300">
+                        Lorebook: {formData.lorebook?.length || 0} {formData.lorebook?.length === 1 ? 'entry' : 'entries'}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={handleEditLorebook}
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md transition-colors border border-slate-600"
+                      >
+                        <Icon name="book-open" className="w-4 h-4" /> Edit Lorebook
+                      </button>
+                    </div>
+                    <div>
+                      <label htmlFor="worldId" className="block text-xs font-medium text-slate-400">
+                        Default World
+                      </label>
+                      <select
+                        id="worldId"
+                        value={formData.worldId || ''}
+                        onChange={(e) => setFormData((p) => ({ ...p, worldId: e.target.value || undefined }))}
+                        className="mt-1 block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-2"
+                      >
+                        <option value="">Global default</option>
+                        {worlds.map((w) => (
+                          <option key={w.id} value={w.id}>
+                            {w.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                </div>
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-300 font-display tracking-wider cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!formData.promptTemplate}
+                      onChange={(e) =>
+                        setFormData((p) => ({
+                          ...p,
+                          promptTemplate: e.target.checked ? clonePromptTemplate(globalPromptTemplate) : undefined,
+                        }))
+                      }
+                      className="w-4 h-4 rounded bg-slate-700 border-slate-600 text-crimson-500 focus:ring-crimson-500"
+                    />
+                    CUSTOM PROMPT TEMPLATE
+                  </label>
+                  <p className="text-xs text-slate-400 mt-1 mb-2">
+                    Replace the global single-chat template when chatting with this character.
+                  </p>
+                  {formData.promptTemplate && (
+                    <div className="p-4 bg-slate-800/50 rounded-lg border border-slate-700/50">
+                      <PromptTemplateEditor
+                        template={formData.promptTemplate}
+                        onChange={(promptTemplate) => setFormData((p) => ({ ...p, promptTemplate }))}
+                        onReset={() => setFormData((p) => ({ ...p, promptTemplate: clonePromptTemplate(globalPromptTemplate) }))}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
-          </div>
-          <footer className="p-4 border-t border-slate-800 flex justify-end space-x-3 shrink-0">
-            <button
-              type="button"
-              onClick={onClose}
-              className="px-4 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 border border-slate-600 hover:bg-slate-700 rounded-lg transition-colors"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              className="px-4 py-2 text-sm font-semibold text-white bg-crimson-600 hover:bg-crimson-500 rounded-lg transition-colors border border-crimson-400/50 shadow-md shadow-crimson-900/50"
-            >
-              Save Character
-            </button>
-          </footer>
-        </form>
+            <footer className="p-4 border-t border-slate-800 flex justify-end space-x-3 shrink-0">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 border border-slate-600 hover:bg-slate-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-semibold text-white bg-crimson-600 hover:bg-crimson-500 rounded-lg transition-colors border border-crimson-400/50 shadow-md shadow-crimson-900/50"
+              >
+                Save Character
+              </button>
+            </footer>
+          </form>
+        </motion.div>
       </motion.div>
-    </motion.div>
+      <AnimatePresence>
+        {editingLorebook && (
+          <WorldEditorPage
+            world={editingLorebook}
+            onSave={(lorebook) => {
+              setFormData((p) => ({ ...p, lorebook: lorebook.entries }));
+              setEditingLorebook(null);
+            }}
+            onClose={() => setEditingLorebook(null)}
+          />
+        )}
+      </AnimatePresence>
+    </>
   );
 }
 
@@ -7,6 +7,7 @@ import Avatar from './Avatar';
 import { useUIStore } from '../store/stores/uiStore';
 import { useCharacterStore } from '../store/stores/characterStore';
 import { useChatStore, GroupSession, Session } from '../store/stores/chatStore';
+import { exportCharacterCard, importCharacterCard, isPng } from '../services/characterCardService';
 
 interface CharacterSelectionProps {
   onNewCharacter: () => void;
@@ -154,10 +155,11 @@ const CharacterCard: React.FC<{
   onEdit: (character: Character) => void;
   onDelete: (id: string) => void;
   onExport: (character: Character) => void;
+  onExportCard: (character: Character) => void;
   onDuplicate: (id: string) => void;
   messageCount: number;
   lastPlayedTimestamp: number;
-}> = React.memo(({ character, onChat, onEdit, onDelete, onExport, onDuplicate, messageCount, lastPlayedTimestamp }) => {
+}> = React.memo(({ character, onChat, onEdit, onDelete, onExport, onExportCard, onDuplicate, messageCount, lastPlayedTimestamp }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const cardRef = useRef<HTMLDivElement>(null);
@@ -293,6 +295,13 @@ const CharacterCard: React.FC<{
               >
                 <Icon name="export" className="w-4 h-4" /> Export
               </button>
+              <button
+                onClick={() => handleMenuAction(() => onExportCard(character))}
+                className="w-full flex items-center gap-3 text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-700/50 transition-colors"
+                role="menuitem"
+              >
+                <Icon name="export" className="w-4 h-4" /> Export Card
+              </button>
               <button
                 onClick={() => handleMenuAction(() => onDelete(character.id))}
                 className="w-full flex items-center gap-3 text-left px-3 py-1.5 text-sm text-ember-400 hover:bg-slate-700/50 transition-colors"
@@ -340,7 +349,7 @@ function CharacterSelection({
   onNavigateToPersona,
   onNavigateToDebug,
 }: CharacterSelectionProps) {
-  const { characters, deleteCharacter, importCharacters, duplicateCharacter } = useCharacterStore();
+  const { characters, deleteCharacter, importCharacters, duplicateCharacter, saveCharacter } = useCharacterStore();
   const { sessions, groupSessions, characterSessions, messages: allMessages, newSession } = useChatStore();
   const { setCurrentView, setActiveCharacterId, setActiveSessionId, setActiveGroupSessionId } = useUIStore();
   
@@ -366,27 +375,36 @@ function CharacterSelection({
     }
   }, [newSession, handleSelectSession]);
 
-  const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Accepts this app's own export (an array of characters) and SillyTavern cards as PNG or JSON.
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const imported = JSON.parse(e.target?.result as string);
-          if (
-            Array.isArray(imported) &&
-            imported.every((item) => 'id' in item && 'name' in item)
-          ) {
-            importCharacters(imported);
-          } else {
-            alert('Invalid character file format.');
-          }
-        } catch (error) {
-          alert('Failed to parse character file.');
-        }
-      };
-      reader.readAsText(file);
-      if (event.target) event.target.value = '';
+    if (!file) return;
+    if (event.target) event.target.value = '';
+    try {
+      const bytes = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+      const imported = isPng(bytes) ? null : JSON.parse(await file.text());
+      if (
+        Array.isArray(imported) &&
+        imported.every((item) => 'id' in item && 'name' in item)
+      ) {
+        importCharacters(imported);
+        return;
+      }
+      const { character, issues } = await importCharacterCard(file);
+      saveCharacter(character);
+      if (issues.length > 0) {
+        alert(
+          `Imported ${character.name}. Some of the card wasn't carried over:\n\n${issues
+            .map((issue) => `- ${issue.message}`)
+            .join('\n')}`,
+        );
+      }
+    } catch (error) {
+      alert(
+        `Failed to import character: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
     }
   };
 
@@ -413,6 +431,24 @@ function CharacterSelection({
     }
   }, []);
 
+  const handleExportCard = useCallback(async (character: Character) => {
+    try {
+      const { blob, extension } = await exportCharacterCard(character);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${character.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${extension}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert(
+        `Error exporting character card: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`,
+      );
+    }
+  }, []);
+
   const { recentSessions, totalRecentCount } = useMemo(() => {
     const singleSessions = Object.entries(characterSessions || {}).flatMap(
       ([charId, sessionIds]: [string, string[]]) => {
@@ -552,7 +588,7 @@ function CharacterSelection({
             ref={fileInputRef}
             onChange={handleFileImport}
             className="hidden"
-            accept=".json"
+            accept=".json,.png"
           />
           <IconButton
             onClick={() => fileInputRef.current?.click()}
@@ -670,6 +706,7 @@ function CharacterSelection({
                 onEdit={handleEdit}
                 onDelete={deleteCharacter}
                 onExport={handleExportCharacter}
+                onExportCard={handleExportCard}
                 onDuplicate={duplicateCharacter}
                 messageCount={messageCounts.get(char.id) || 0}
                 lastPlayedTimestamp={lastPlayedTimestamps.get(char.id) || 0}
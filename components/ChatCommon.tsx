@@ -2,6 +2,7 @@ import React from 'react';
 import { Message } from '../types';
 import { Icon } from './Icon';
 import { Tooltip } from './Tooltip';
+import { verifyDiceRoll } from '../services/diceService';
 
 export const DateSeparator: React.FC<{ timestamp: number }> = ({
   timestamp,
@@ -22,12 +23,44 @@ export const DateSeparator: React.FC<{ timestamp: number }> = ({
   );
 };
 
-export const SystemMessage: React.FC<{ message: Message }> = ({ message }) => (
-  <div className="my-4 text-sm text-sky-300 bg-sky-950/50 border border-sky-800/70 rounded-lg p-3 flex items-start gap-3 animate-fade-in">
-    <Icon name="brain" className="w-4 h-4 text-sky-400 shrink-0 mt-0.5" />
-    <p className="flex-1">{message.content}</p>
-  </div>
-);
+const DiceRollMessage: React.FC<{ message: Message }> = ({ message }) => {
+  const roll = message.diceRoll!;
+  const verified = verifyDiceRoll(roll);
+  const seed = roll.seed.toString(16).padStart(8, '0');
+  return (
+    <div className="my-4 text-sm text-amber-200 bg-amber-950/40 border border-amber-800/70 rounded-lg p-3 flex items-start gap-3 animate-fade-in">
+      <Icon name="dice" className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+      <p className="flex-1">{message.content}</p>
+      <Tooltip
+        content={verified ? `Reproducible from seed ${seed}` : `Does not match seed ${seed}`}
+        position="top"
+      >
+        <span className={`flex items-center gap-1 text-xs font-mono ${verified ? 'text-slate-400' : 'text-ember-400'}`}>
+          <Icon name={verified ? 'shield-check' : 'alert-triangle'} className="w-3.5 h-3.5" />
+          {seed}
+        </span>
+      </Tooltip>
+    </div>
+  );
+};
+
+export const SystemMessage: React.FC<{ message: Message }> = ({ message }) => {
+  if (message.diceRoll) return <DiceRollMessage message={message} />;
+  if (message.noteKind) {
+    return (
+      <div className="my-4 text-sm text-slate-300 bg-slate-800/40 border border-slate-700/70 rounded-lg p-3 flex items-start gap-3 animate-fade-in">
+        <Icon name={message.noteKind === 'lore' ? 'book-open' : 'sparkles'} className="w-4 h-4 text-slate-400 shrink-0 mt-0.5" />
+        <p className={`flex-1 whitespace-pre-wrap ${message.noteKind === 'narration' ? 'italic' : ''}`}>{message.content}</p>
+      </div>
+    );
+  }
+  return (
+    <div className="my-4 text-sm text-sky-300 bg-sky-950/50 border border-sky-800/70 rounded-lg p-3 flex items-start gap-3 animate-fade-in">
+      <Icon name="brain" className="w-4 h-4 text-sky-400 shrink-0 mt-0.5" />
+      <p className="flex-1">{message.content}</p>
+    </div>
+  );
+};
 
 export const ActionButton: React.FC<{
   icon: string;
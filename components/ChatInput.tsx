@@ -1,5 +1,11 @@
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
 import { Icon } from './Icon';
+import {
+    executeSlashCommand,
+    getSlashCompletions,
+    SlashCommandContext,
+    SlashCommandResult,
+} from '../services/slashCommandService';
 
 interface ChatInputProps {
     input: string;
@@ -12,6 +18,10 @@ interface ChatInputProps {
     canSubmit: boolean;
     canContinue: boolean;
     canRegenerate: boolean;
+    /** The chat that slash commands act on. Commands are unavailable without one. */
+    sessionId: string | null;
+    isGroup?: boolean;
+    placeholder?: string;
 }
 
 const ChatInput: React.FC<ChatInputProps> = ({
@@ -25,8 +35,14 @@ const ChatInput: React.FC<ChatInputProps> = ({
     canSubmit,
     canContinue,
     canRegenerate,
+    sessionId,
+    isGroup = false,
+    placeholder,
 }) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [commandFeedback, setCommandFeedback] = useState<SlashCommandResult | null>(null);
+    const [selectedCompletion, setSelectedCompletion] = useState(0);
+    const [completionsDismissed, setCompletionsDismissed] = useState(false);
 
     useEffect(() => {
         if (textareaRef.current) {
@@ -39,22 +55,85 @@ const ChatInput: React.FC<ChatInputProps> = ({
         }
     }, [input]);
 
+    const commandContext = useMemo<SlashCommandContext | null>(
+        () => (sessionId ? { sessionId, isGroup, setInput } : null),
+        [sessionId, isGroup, setInput],
+    );
+
+    const completions = useMemo(
+        () => (commandContext && !completionsDismissed ? getSlashCompletions(input, commandContext) : []),
+        [input, commandContext, completionsDismissed],
+    );
+
+    useEffect(() => {
+        setSelectedCompletion(0);
+    }, [completions.length]);
+
+    const applyCompletion = useCallback(
+        (value: string) => {
+            setInput(value);
+            textareaRef.current?.focus();
+        },
+        [setInput],
+    );
+
+    const runCommand = useCallback(
+        async (text: string) => {
+            if (!commandContext) return;
+            // Cleared up front so a command can write its own text into the input.
+            setInput('');
+            const result = await executeSlashCommand(text, commandContext);
+            if (result?.error) setInput(text);
+            setCommandFeedback(result?.error || result?.notice ? result : null);
+        },
+        [commandContext, setInput],
+    );
+
+    // Slash commands run locally; anything else goes through the normal send action.
+    const submit = useCallback(() => {
+        const text = input.trim();
+        if (!commandContext || !text.startsWith('/')) {
+            handleAction();
+            return;
+        }
+        runCommand(text);
+    }, [input, commandContext, handleAction, runCommand]);
+
     const handleFormSubmit = useCallback(
         (e: React.FormEvent) => {
             e.preventDefault();
-            handleAction();
+            submit();
         },
-        [handleAction],
+        [submit],
     );
 
     const handleKeyDown = useCallback(
         (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+            if (completions.length > 0) {
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    const step = e.key === 'ArrowDown' ? 1 : -1;
+                    setSelectedCompletion((i) => (i + step + completions.length) % completions.length);
+                    return;
+                }
+                if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && completions[selectedCompletion].value.trim() !== input.trim())) {
+                    e.preventDefault();
+                    applyCompletion(completions[selectedCompletion].value);
+                    return;
+                }
+                if (e.key === 'Escape') {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setCompletionsDismissed(true);
+                    return;
+                }
+            }
             if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault();
-                handleAction();
+                submit();
             }
         },
-        [handleAction],
+        [completions, selectedCompletion, input, applyCompletion, submit],
     );
 
     const buttonLabel = canSubmit
@@ -83,18 +162,70 @@ const ChatInput: React.FC<ChatInputProps> = ({
                         {error}
                     </p>
                 )}
+                {commandFeedback && (
+                    <p
+                        className={`text-sm mb-2 text-center p-2 rounded-md border ${
+                            commandFeedback.error
+                                ? 'text-amber-300 bg-amber-950/50 border-amber-700/50'
+                                : 'text-slate-300 bg-slate-800/60 border-slate-700/50'
+                        }`}
+                    >
+                        {commandFeedback.error || commandFeedback.notice}
+                    </p>
+                )}
                 <form onSubmit={handleFormSubmit} className="relative w-full">
+                    {completions.length > 0 && (
+                        <ul
+                            role="listbox"
+                            aria-label="Commands"
+                            className="absolute bottom-full mb-2 left-0 right-0 max-h-64 overflow-y-auto custom-scrollbar bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-20 py-1"
+                        >
+                            {completions.map((completion, i) => (
+                                <li
+                                    key={completion.value}
+                                    role="option"
+                                    aria-selected={i === selectedCompletion}
+                                    onMouseDown={(e) => {
+                                        e.preventDefault();
+                                        applyCompletion(completion.value);
+                                    }}
+                                    onMouseEnter={() => setSelectedCompletion(i)}
+                                    className={`px-3 py-1.5 flex items-baseline gap-3 cursor-pointer text-sm ${
+                                        i === selectedCompletion ? 'bg-slate-800' : ''
+                                    }`}
+                                >
+                                    <span className="font-mono text-ember-400 shrink-0">{completion.label}</span>
+                                    <span className="text-slate-500 truncate">{completion.description}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                     <textarea
                         ref={textareaRef}
                         value={input}
-                        onChange={(e) => setInput(e.target.value)}
+                        onChange={(e) => {
+                            setInput(e.target.value);
+                            setCommandFeedback(null);
+                            setCompletionsDismissed(false);
+                        }}
                         onKeyDown={handleKeyDown}
-                        placeholder={`Message ${characterName}...`}
-                        className="w-full bg-slate-950 border-2 border-slate-700 rounded-lg p-4 pr-20 resize-none outline-none text-base text-slate-100 placeholder-slate-600 focus:ring-2 focus:ring-crimson-500 focus:border-crimson-500 transition-all duration-200 custom-scrollbar min-h-[3.5rem]"
+                        placeholder={placeholder ?? `Message ${characterName}...`}
+                        className="w-full bg-slate-950 border-2 border-slate-700 rounded-lg p-4 pr-28 resize-none outline-none text-base text-slate-100 placeholder-slate-600 focus:ring-2 focus:ring-crimson-500 focus:border-crimson-500 transition-all duration-200 custom-scrollbar min-h-[3.5rem]"
                         rows={1}
                         disabled={isLoading}
                     />
-                    <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                    <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-2">
+                        {!isLoading && commandContext && (
+                            <button
+                                type="button"
+                                onClick={() => runCommand('/impersonate')}
+                                className="w-10 h-10 flex items-center justify-center rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                                aria-label="Draft my reply"
+                                title="Draft my reply (/impersonate)"
+                            >
+                                <Icon name="character" className="w-5 h-5" />
+                            </button>
+                        )}
                         {isLoading ? (
                             <button
                                 type="button"
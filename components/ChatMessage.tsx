@@ -14,6 +14,7 @@ interface ChatMessageProps {
   isLoading: boolean;
   onDelete: (messageId: string) => void;
   onRegenerate: () => void;
+  onGenerateAlternatives: () => void;
   onFork: (messageId: string) => void;
   isEditing: boolean;
   editingText: string;
@@ -27,6 +28,7 @@ interface ChatMessageProps {
   isSelected: boolean;
   onToggleSelection: () => void;
   onNavigateAlternate: (direction: 'prev' | 'next') => void;
+  onViewPrompt: (message: Message) => void;
 }
 
 const ChatMessage = React.memo(function ChatMessage({
@@ -37,6 +39,7 @@ const ChatMessage = React.memo(function ChatMessage({
   isLoading,
   onDelete,
   onRegenerate,
+  onGenerateAlternatives,
   onFork,
   isEditing,
   editingText,
@@ -50,6 +53,7 @@ const ChatMessage = React.memo(function ChatMessage({
   isSelected,
   onToggleSelection,
   onNavigateAlternate,
+  onViewPrompt,
 }: ChatMessageProps) {
   if (message.role === 'system') {
     return <SystemMessage message={message} />;
@@ -142,6 +146,11 @@ const ChatMessage = React.memo(function ChatMessage({
               <span className="text-xs font-mono text-slate-400 select-none">
                 {alternates.activeIndex + 1} / {alternates.ids.length}
               </span>
+              {alternates.keptId === message.id && (
+                <span title="You continued the chat from this response" className="text-emerald-400">
+                  <Icon name="checkmark" className="w-3.5 h-3.5" />
+                </span>
+              )}
               <button
                 onClick={() => onNavigateAlternate('next')}
                 disabled={!canGoNext}
@@ -171,8 +180,14 @@ const ChatMessage = React.memo(function ChatMessage({
                   <ActionButton icon="fork" label="Fork Chat" onClick={() => onFork(message.id)} />
                   <ActionButton icon="delete" label="Delete Message" onClick={() => onDelete(message.id)} />
                   <ActionButton icon="edit" label="Edit Message" onClick={() => onStartEdit(message)} />
+                  {message.promptSnapshot && (
+                    <ActionButton icon="code" label="View Prompt" onClick={() => onViewPrompt(message)} />
+                  )}
                   {!isUser && isLastMessage && (
-                    <ActionButton icon="redo" label="Regenerate" onClick={onRegenerate} disabled={isLoading} className={isLoading ? 'animate-spin' : ''} />
+                    <>
+                      <ActionButton icon="redo" label="Regenerate" onClick={onRegenerate} disabled={isLoading} className={isLoading ? 'animate-spin' : ''} />
+                      <ActionButton icon="sparkles" label="Generate Alternatives" onClick={onGenerateAlternatives} disabled={isLoading} />
+                    </>
                   )}
               </div>
             )}
@@ -1,21 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { World, Settings } from '../types';
+import { World, Settings, ConnectionProfile, SamplerSettings, PromptBudget } from '../types';
 import { Icon } from './Icon';
 import { Tooltip } from './Tooltip';
+import SamplerFields from './SamplerFields';
+import PromptBudgetBreakdown from './PromptBudgetBreakdown';
+import MemoryPanel from './MemoryPanel';
+import StructuredMemoryPanel from './StructuredMemoryPanel';
 
 interface ChatSettingsPopoverProps {
-    settings: Pick<Settings, 'worldId' | 'temperature' | 'contextSize' | 'maxOutputTokens'> & { memoryEnabled: boolean };
+    sessionId: string;
+    isGroup: boolean;
+    settings: Pick<Settings, 'worldId' | 'temperature' | 'contextSize' | 'maxOutputTokens'> & { memoryEnabled: boolean; connectionProfileId: string | null; samplers: SamplerSettings };
     worlds: World[];
+    connectionProfiles: ConnectionProfile[];
+    inheritedSamplers: SamplerSettings;
     onSetWorld: (worldId: string | null) => void;
+    onSetConnectionProfile: (profileId: string | null) => void;
     onSetTemperature: (temperature: number) => void;
     onSetContextSize: (size: number) => void;
     onSetMaxOutputTokens: (tokens: number) => void;
     onSetMemoryEnabled: (enabled: boolean) => void;
+    onSetSamplers: (samplers: SamplerSettings) => void;
+    /** Computes the token breakdown of the prompt the next generation would send. */
+    getPromptBudget: () => PromptBudget | null;
 }
 
-const ChatSettingsPopover: React.FC<ChatSettingsPopoverProps> = ({ settings, worlds, onSetWorld, onSetTemperature, onSetContextSize, onSetMaxOutputTokens, onSetMemoryEnabled }) => {
+const ChatSettingsPopover: React.FC<ChatSettingsPopoverProps> = ({ sessionId, isGroup, settings, worlds, connectionProfiles, inheritedSamplers, onSetWorld, onSetConnectionProfile, onSetTemperature, onSetContextSize, onSetMaxOutputTokens, onSetMemoryEnabled, onSetSamplers, getPromptBudget }) => {
     const [isOpen, setIsOpen] = useState(false);
     const popoverRef = useRef<HTMLDivElement>(null);
+    // Only assemble the prompt while the popover is visible; it re-renders whenever the settings change.
+    const promptBudget = isOpen ? getPromptBudget() : null;
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -45,7 +59,7 @@ const ChatSettingsPopover: React.FC<ChatSettingsPopoverProps> = ({ settings, wor
                 <div 
                     id="chat-settings-popover"
                     role="group"
-                    className="absolute right-0 mt-2 w-96 bg-slate-900/95 backdrop-blur-md border border-slate-700/50 rounded-lg shadow-2xl z-20 p-5 animate-fade-in space-y-4"
+                    className="absolute right-0 mt-2 w-96 max-h-[80vh] overflow-y-auto custom-scrollbar bg-slate-900/95 backdrop-blur-md border border-slate-700/50 rounded-lg shadow-2xl z-20 p-5 animate-fade-in space-y-4"
                 >
                     {/* Header */}
                     <div className="flex items-center gap-3">
@@ -71,6 +85,23 @@ const ChatSettingsPopover: React.FC<ChatSettingsPopoverProps> = ({ settings, wor
                         </select>
                     </div>
 
+                    {/* Connection Profile */}
+                    <div>
+                        <label htmlFor="connectionProfile" className="block text-sm font-medium text-slate-300">Connection Profile</label>
+                        <p className="text-xs text-slate-500 mb-2">Pin a provider & model to this chat.</p>
+                        <select
+                            id="connectionProfile"
+                            value={settings.connectionProfileId || ''}
+                            onChange={(e) => onSetConnectionProfile(e.target.value || null)}
+                            className="block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-2"
+                        >
+                            <option value="">(Global Default)</option>
+                            {connectionProfiles.map(profile => (
+                                <option key={profile.id} value={profile.id}>{profile.name} — {profile.provider}</option>
+                            ))}
+                        </select>
+                    </div>
+
                     {/* Temperature */}
                     <div>
                         <label htmlFor="temperature" className="block text-sm font-medium text-slate-300">Temperature</label>
@@ -118,6 +149,33 @@ const ChatSettingsPopover: React.FC<ChatSettingsPopoverProps> = ({ settings, wor
                         />
                     </div>
                     
+                    {/* Advanced Samplers */}
+                    <details className="group/samplers">
+                        <summary className="flex items-center justify-between cursor-pointer list-none text-sm font-medium text-slate-300">
+                            Advanced Samplers
+                            <Icon name="chevron-down" className="w-4 h-4 text-slate-500 group-open/samplers:rotate-180 transition-transform" />
+                        </summary>
+                        <p className="text-xs text-slate-500 mt-1 mb-2">Overrides for this chat. Blank fields inherit the global values.</p>
+                        <SamplerFields
+                            idPrefix="session-samplers"
+                            value={settings.samplers}
+                            onChange={onSetSamplers}
+                            inherited={inheritedSamplers}
+                            inputClassName="block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-2 placeholder:text-slate-600"
+                        />
+                    </details>
+
+                    {/* Prompt Budget */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300">Prompt Budget</label>
+                        <p className="text-xs text-slate-500 mb-2">Tokens the next request will use, by section.</p>
+                        {promptBudget ? (
+                            <PromptBudgetBreakdown budget={promptBudget} />
+                        ) : (
+                            <p className="text-xs text-slate-500 italic">Unavailable for this chat.</p>
+                        )}
+                    </div>
+
                     {/* Memory */}
                     <div>
                         <label htmlFor="memoryEnabled" className="flex items-center justify-between cursor-pointer group/toggle p-2 rounded-md hover:bg-slate-800/50">
@@ -137,8 +195,14 @@ const ChatSettingsPopover: React.FC<ChatSettingsPopoverProps> = ({ settings, wor
                                 <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.memoryEnabled ? 'translate-x-4' : ''}`}></div>
                             </div>
                         </label>
+                        <div className="mt-2">
+                            <MemoryPanel sessionId={sessionId} isGroup={isGroup} />
+                        </div>
                     </div>
 
+                    {/* Structured Memory */}
+                    <StructuredMemoryPanel sessionId={sessionId} isGroup={isGroup} />
+
                 </div>
             )}
         </div>
@@ -12,13 +12,18 @@ import {
   ChatSession,
   Persona,
   WorldEntry,
+  PromptSnapshot,
 } from '../types';
 import { Icon, IconButton } from './Icon';
 import { logger } from '../services/logger';
+import { resolveSessionSettings } from '../services/connectionProfileService';
 import { useMessageEditing } from '../hooks/useMessageEditing';
 import Avatar from './Avatar';
 import ChatSettingsPopover from './ChatSettingsPopover';
+import PromptInspectorModal from './PromptInspectorModal';
+import { AnimatePresence } from 'framer-motion';
 import { usePaginatedMessages } from '../hooks/usePaginatedMessages';
+import { useTokenizer } from '../hooks/useTokenizer';
 import { DateSeparator } from './ChatCommon';
 import ChatMessageSkeleton from './ChatMessageSkeleton';
 import { useUIStore } from '../store/stores/uiStore';
@@ -95,8 +100,12 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
     setSessionContextSize, 
     setSessionMaxOutputTokens, 
     setSessionMemoryEnabled, 
+    setSessionConnectionProfile, 
+    setSessionSamplers, 
+    getPromptBudget, 
     deleteMessage, 
     regenerateResponse, 
+    generateAlternatives,
     forkChat, 
     editMessage, 
     sendMessage, 
@@ -169,12 +178,16 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
     scrollContainerRef,
   );
 
+  const activeModel = useMemo(() => {
+    if (!session) return '';
+    const resolved = resolveSessionSettings(settings, session.connectionProfileId);
+    return resolved.models?.[resolved.provider] || '';
+  }, [settings, session?.connectionProfileId]);
+  const tokenizer = useTokenizer(activeModel);
+
   const tokenCount = useMemo(
-    () =>
-      Math.ceil(
-        messages.reduce((sum, msg) => sum + msg.content.length, 0) / 4,
-      ),
-    [messages],
+    () => messages.reduce((sum, msg) => sum + tokenizer.count(msg.content), 0),
+    [messages, tokenizer],
   );
 
   useEffect(() => {
@@ -231,6 +244,10 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
   const handleRegenerate = useCallback(() => {
     if (activeSessionId) regenerateResponse(activeSessionId);
   }, [activeSessionId, regenerateResponse]);
+
+  const handleGenerateAlternatives = useCallback(() => {
+    if (activeSessionId) generateAlternatives(activeSessionId, settings.swipeCount);
+  }, [activeSessionId, generateAlternatives, settings.swipeCount]);
   
   const handleFork = useCallback((messageId: string) => {
     if (activeSessionId) forkChat(activeSessionId, messageId);
@@ -251,6 +268,11 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
     }
   }, [activeSessionId, selectedMessageIds, requestConfirmation, deleteMultipleMessages, toggleSelectionMode]);
 
+  const [inspectedSnapshot, setInspectedSnapshot] = useState<PromptSnapshot | null>(null);
+  const handleViewPrompt = useCallback((message: Message) => {
+    setInspectedSnapshot(message.promptSnapshot ?? null);
+  }, []);
+
   const handleNavigateAlternate = useCallback((messageId: string, direction: 'prev' | 'next') => {
       if (activeSessionId) {
           setActiveAlternate(activeSessionId, messageId, direction);
@@ -259,6 +281,8 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
 
   if (!character || !session) return null;
 
+  const sessionSettings = resolveSessionSettings(settings, session.connectionProfileId);
+
   const isReceiving = isLoading && lastMessage?.role === 'assistant';
   const showTypingIndicator = isLoading && !isReceiving && !lastMessage?.isThinking;
 
@@ -285,7 +309,7 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
               {character.name}
             </h2>
             <div className="flex items-center gap-2 text-xs text-slate-500 font-mono shrink-0">
-              <span>{tokenCount} tokens</span>
+              <span>{tokenizer.approximate ? '≈' : ''}{tokenCount} tokens</span>
               {lastMessageTimestamp && (
                 <>
                   <span className="text-slate-700">|</span>
@@ -315,20 +339,29 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
             className={isSelectionModeActive ? 'bg-crimson-600/50 text-white' : ''}
           />
           <ChatSettingsPopover
+            sessionId={session.id}
+            isGroup={false}
             settings={{
               worldId: session.worldId ?? null,
-              temperature: session.temperature ?? settings.temperature,
-              contextSize: session.contextSize ?? settings.contextSize,
+              temperature: session.temperature ?? sessionSettings.temperature,
+              contextSize: session.contextSize ?? sessionSettings.contextSize,
               maxOutputTokens:
-                session.maxOutputTokens ?? settings.maxOutputTokens,
+                session.maxOutputTokens ?? sessionSettings.maxOutputTokens,
               memoryEnabled: session.memoryEnabled ?? false,
+              connectionProfileId: session.connectionProfileId ?? null,
+              samplers: session.samplers ?? {},
             }}
             worlds={worlds}
+            connectionProfiles={settings.connectionProfiles}
+            inheritedSamplers={sessionSettings.samplers}
+            onSetSamplers={(samplers) => activeSessionId && setSessionSamplers(activeSessionId, samplers, false)}
+            onSetConnectionProfile={(profileId) => activeSessionId && setSessionConnectionProfile(activeSessionId, profileId, false)}
             onSetWorld={(worldId) => activeSessionId && setSessionWorld(activeSessionId, worldId, false)}
             onSetTemperature={(temp) => activeSessionId && setSessionTemperature(activeSessionId, temp, false)}
             onSetContextSize={(size) => activeSessionId && setSessionContextSize(activeSessionId, size, false)}
             onSetMaxOutputTokens={(tokens) => activeSessionId && setSessionMaxOutputTokens(activeSessionId, tokens, false)}
             onSetMemoryEnabled={(enabled) => activeSessionId && setSessionMemoryEnabled(activeSessionId, enabled, false)}
+            getPromptBudget={() => (activeSessionId ? getPromptBudget(activeSessionId, false) : null)}
           />
         </div>
       </header>
@@ -364,6 +397,7 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
                 isLoading={isLoading}
                 onDelete={handleDelete}
                 onRegenerate={handleRegenerate}
+                onGenerateAlternatives={handleGenerateAlternatives}
                 onFork={handleFork}
                 isEditing={msg.id === editingMessageId}
                 editingText={editingText}
@@ -377,6 +411,7 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
                 isSelected={selectedMessageIds.includes(msg.id)}
                 onToggleSelection={() => toggleMessageSelection(msg.id)}
                 onNavigateAlternate={(direction) => handleNavigateAlternate(msg.id, direction)}
+                onViewPrompt={handleViewPrompt}
               />
             </React.Fragment>
           ))}
@@ -415,8 +450,14 @@ function ChatWindow({ onNavigateToHistory }: ChatWindowProps) {
           canSubmit={canSubmit}
           canContinue={canContinue}
           canRegenerate={canRegenerate}
+          sessionId={activeSessionId}
         />
       )}
+      <AnimatePresence>
+        {inspectedSnapshot && (
+          <PromptInspectorModal snapshot={inspectedSnapshot} onClose={() => setInspectedSnapshot(null)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
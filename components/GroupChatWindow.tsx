@@ -5,14 +5,18 @@ import React, {
   useMemo,
   useCallback,
 } from 'react';
-import { Character, Message, World, Persona } from '../types';
+import { Character, Message, World, Persona, PromptSnapshot } from '../types';
 import { Icon, IconButton } from './Icon';
 import SimpleMarkdown from './SimpleMarkdown';
 import { useMessageEditing } from '../hooks/useMessageEditing';
 import Avatar from './Avatar';
 import ChatSettingsPopover from './ChatSettingsPopover';
+import PromptInspectorModal from './PromptInspectorModal';
+import ChatInput from './ChatInput';
+import { AnimatePresence } from 'framer-motion';
 import { Tooltip } from './Tooltip';
 import { usePaginatedMessages } from '../hooks/usePaginatedMessages';
+import { useTokenizer } from '../hooks/useTokenizer';
 import {
   DateSeparator,
   SystemMessage,
@@ -24,6 +28,7 @@ import { useChatStore } from '../store/stores/chatStore';
 import { useCharacterStore } from '../store/stores/characterStore';
 import { useSettingsStore } from '../store/stores/settingsStore';
 import { useWorldStore } from '../store/stores/worldStore';
+import { resolveSessionSettings } from '../services/connectionProfileService';
 
 interface GroupChatWindowProps {
   onNavigateToHistory: () => void;
@@ -59,6 +64,7 @@ interface EditableGroupChatMessageProps {
   isSelectionModeActive: boolean;
   isSelected: boolean;
   onToggleSelection: () => void;
+  onViewPrompt: (message: Message) => void;
 }
 
 const EditableGroupChatMessage = React.memo(function EditableGroupChatMessage({
@@ -80,6 +86,7 @@ const EditableGroupChatMessage = React.memo(function EditableGroupChatMessage({
   isSelectionModeActive,
   isSelected,
   onToggleSelection,
+  onViewPrompt,
 }: EditableGroupChatMessageProps) {
   if (message.role === 'system') {
     return <SystemMessage message={message} />;
@@ -189,6 +196,13 @@ const EditableGroupChatMessage = React.memo(function EditableGroupChatMessage({
                 label="Edit Message"
                 onClick={() => onStartEdit(message)}
               />
+              {message.promptSnapshot && (
+                <ActionButton
+                  icon="code"
+                  label="View Prompt"
+                  onClick={() => onViewPrompt(message)}
+                />
+              )}
               {!isUser && isLastMessage && (
                 <ActionButton
                   icon="redo"
@@ -311,6 +325,9 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
     setSessionContextSize,
     setSessionMaxOutputTokens,
     setSessionMemoryEnabled,
+    setSessionConnectionProfile,
+    setSessionSamplers,
+    getPromptBudget,
     editGroupMessage,
     deleteGroupMessage,
     deleteMultipleGroupMessages,
@@ -337,7 +354,6 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
 
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   const handleEditMessage = useCallback((messageId: string, newContent: string) => {
@@ -371,15 +387,16 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
     () => new Map(characters.map((c) => [c.id, c])),
     [characters],
   );
+  const activeModel = useMemo(() => {
+    if (!session) return '';
+    const resolved = resolveSessionSettings(settings, session.connectionProfileId);
+    return resolved.models?.[resolved.provider] || '';
+  }, [settings, session?.connectionProfileId]);
+  const tokenizer = useTokenizer(activeModel);
+
   const tokenCount = useMemo(
-    () =>
-      Math.ceil(
-        messages.reduce(
-          (sum, msg) => sum + msg.content.length,
-          0,
-        ) / 4,
-      ),
-    [messages],
+    () => messages.reduce((sum, msg) => sum + tokenizer.count(msg.content), 0),
+    [messages, tokenizer],
   );
 
   useEffect(() => {
@@ -395,15 +412,6 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'auto' });
   }, [messages, isLoading]);
-  useEffect(() => {
-    if (textareaRef.current) {
-      textareaRef.current.style.height = 'auto';
-      textareaRef.current.style.height = `${Math.max(
-        56,
-        Math.min(textareaRef.current.scrollHeight, 160),
-      )}px`;
-    }
-  }, [input]);
 
   const lastMessage = messages.filter((m) => m.role !== 'system').pop();
   const canSubmit = !!input.trim();
@@ -431,29 +439,17 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
     continueGroupGeneration,
   ]);
 
-  const handleFormSubmit = useCallback(
-    (e: React.FormEvent) => {
-      e.preventDefault();
-      handleAction();
-    },
-    [handleAction],
-  );
-
-  const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-      if (e.key === 'Enter' && !e.shiftKey) {
-        e.preventDefault();
-        handleAction();
-      }
-    },
-    [handleAction],
-  );
 
   const lastMessageTimestamp = useMemo(() => {
     const lastMsg = messages.filter((m) => m.role !== 'system').pop();
     return lastMsg?.timestamp;
   }, [messages]);
   
+  const [inspectedSnapshot, setInspectedSnapshot] = useState<PromptSnapshot | null>(null);
+  const handleViewPrompt = useCallback((message: Message) => {
+    setInspectedSnapshot(message.promptSnapshot ?? null);
+  }, []);
+
   const handleDeleteSelected = useCallback(() => {
     if (activeGroupSessionId && selectedMessageIds.length > 0) {
         requestConfirmation(
@@ -472,6 +468,8 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
 
   if (!session) return null;
 
+  const sessionSettings = resolveSessionSettings(settings, session.connectionProfileId);
+
   const sessionCharacters = characters.filter((c) =>
     session.characterIds.includes(c.id),
   );
@@ -479,24 +477,6 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
   const isReceiving = isLoading && lastMessage?.role === 'assistant';
   const showTypingIndicator = isLoading && !isReceiving;
 
-  const buttonLabel = canSubmit
-    ? 'Send message'
-    : canContinue
-    ? 'Continue generation'
-    : canRegenerate
-    ? 'Regenerate response'
-    : 'Send message';
-
-  const buttonIcon = canSubmit
-    ? 'send'
-    : canContinue
-    ? 'ellipsis-horizontal'
-    : canRegenerate
-    ? 'redo'
-    : 'send';
-
-  const canDoAction = canSubmit || canContinue || canRegenerate;
-
   return (
     <div className="flex-1 flex flex-col bg-transparent h-screen">
       <header className="flex items-center justify-between p-3 border-b border-slate-800 bg-slate-950/70 backdrop-blur-sm z-10 shrink-0 shadow-lg">
@@ -525,7 +505,7 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
               {session.title}
             </h2>
             <div className="flex items-center gap-2 text-xs text-slate-500 font-mono shrink-0">
-              <span>{tokenCount} tokens</span>
+              <span>{tokenizer.approximate ? '≈' : ''}{tokenCount} tokens</span>
               {lastMessageTimestamp && (
                 <>
                   <span className="text-slate-700">|</span>
@@ -554,20 +534,29 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
             className={isSelectionModeActive ? 'bg-crimson-600/50 text-white' : ''}
           />
           <ChatSettingsPopover
+            sessionId={session.id}
+            isGroup={true}
             settings={{
               worldId: session.worldId ?? null,
-              temperature: session.temperature ?? settings.temperature,
-              contextSize: session.contextSize ?? settings.contextSize,
+              temperature: session.temperature ?? sessionSettings.temperature,
+              contextSize: session.contextSize ?? sessionSettings.contextSize,
               maxOutputTokens:
-                session.maxOutputTokens ?? settings.maxOutputTokens,
+                session.maxOutputTokens ?? sessionSettings.maxOutputTokens,
               memoryEnabled: session.memoryEnabled ?? false,
+              connectionProfileId: session.connectionProfileId ?? null,
+              samplers: session.samplers ?? {},
             }}
             worlds={worlds}
+            connectionProfiles={settings.connectionProfiles}
+            inheritedSamplers={sessionSettings.samplers}
+            onSetSamplers={(samplers) => activeGroupSessionId && setSessionSamplers(activeGroupSessionId, samplers, true)}
+            onSetConnectionProfile={(profileId) => activeGroupSessionId && setSessionConnectionProfile(activeGroupSessionId, profileId, true)}
             onSetWorld={(worldId) => activeGroupSessionId && setSessionWorld(activeGroupSessionId, worldId, true)}
             onSetTemperature={(temp) => activeGroupSessionId && setSessionTemperature(activeGroupSessionId, temp, true)}
             onSetContextSize={(size) => activeGroupSessionId && setSessionContextSize(activeGroupSessionId, size, true)}
             onSetMaxOutputTokens={(tokens) => activeGroupSessionId && setSessionMaxOutputTokens(activeGroupSessionId, tokens, true)}
             onSetMemoryEnabled={(enabled) => activeGroupSessionId && setSessionMemoryEnabled(activeGroupSessionId, enabled, true)}
+            getPromptBudget={() => (activeGroupSessionId ? getPromptBudget(activeGroupSessionId, true) : null)}
           />
         </div>
       </header>
@@ -628,6 +617,7 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
                 isSelectionModeActive={isSelectionModeActive}
                 isSelected={selectedMessageIds.includes(msg.id)}
                 onToggleSelection={() => toggleMessageSelection(msg.id)}
+                onViewPrompt={handleViewPrompt}
               />
             </React.Fragment>
           ))}
@@ -655,49 +645,27 @@ function GroupChatWindow({ onNavigateToHistory }: GroupChatWindowProps) {
           </div>
         </div>
       ) : (
-        <div className="px-3 pb-3 pt-2 mt-auto">
-          <div className="max-w-4xl w-full mx-auto">
-            {error && (
-              <p className="text-red-400 text-sm mb-2 text-center bg-red-900/50 border border-red-500/50 p-2 rounded-md">
-                {error}
-              </p>
-            )}
-            <form onSubmit={handleFormSubmit} className="relative w-full">
-              <textarea
-                ref={textareaRef}
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder="Send a message to the group..."
-                className="w-full bg-slate-950 border-2 border-slate-700 rounded-lg p-4 pr-20 resize-none outline-none text-base text-slate-100 placeholder-slate-600 focus:ring-2 focus:ring-crimson-500 focus:border-crimson-500 transition-all duration-200 custom-scrollbar min-h-[3.5rem]"
-                rows={1}
-                disabled={isLoading}
-              />
-              <div className="absolute right-3 top-1/2 -translate-y-1/2">
-                {isLoading ? (
-                  <button
-                    type="button"
-                    onClick={() => stopGeneration()}
-                    className="w-10 h-10 flex items-center justify-center rounded-md bg-ember-600 text-white hover:bg-ember-500 transition-colors shadow-lg"
-                    aria-label="Stop generation"
-                  >
-                    <Icon name="stop" className="w-5 h-5" />
-                  </button>
-                ) : (
-                  <button
-                    type="submit"
-                    disabled={!canDoAction}
-                    className="w-10 h-10 flex items-center justify-center rounded-md bg-crimson-600 text-white disabled:bg-slate-700 disabled:cursor-not-allowed hover:bg-crimson-500 transition-colors shadow-lg shadow-crimson-900/50"
-                    aria-label={buttonLabel}
-                  >
-                    <Icon name={buttonIcon} className="w-5 h-5" />
-                  </button>
-                )}
-              </div>
-            </form>
-          </div>
-        </div>
+        <ChatInput
+          input={input}
+          setInput={setInput}
+          handleAction={handleAction}
+          isLoading={isLoading}
+          error={error}
+          stopGeneration={stopGeneration}
+          characterName="the group"
+          placeholder="Send a message to the group..."
+          canSubmit={canSubmit}
+          canContinue={canContinue}
+          canRegenerate={canRegenerate}
+          sessionId={activeGroupSessionId}
+          isGroup
+        />
       )}
+      <AnimatePresence>
+        {inspectedSnapshot && (
+          <PromptInspectorModal snapshot={inspectedSnapshot} onClose={() => setInspectedSnapshot(null)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
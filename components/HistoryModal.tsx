@@ -6,6 +6,10 @@ import { useCharacterStore } from '../store/stores/characterStore';
 import { useChatStore, GroupSession, Session } from '../store/stores/chatStore';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useUIStore } from '../store/stores/uiStore';
+import { useSettingsStore } from '../store/stores/settingsStore';
+import { buildBranchForest } from '../services/branchTreeService';
+import BranchTree from './BranchTree';
+import BranchCompareModal, { ComparedBranch } from './BranchCompareModal';
 
 interface HistoryModalProps {
   onClose: () => void;
@@ -168,23 +172,38 @@ function HistoryModal({ onClose }: HistoryModalProps) {
     exportChats,
     importChats,
   } = useChatStore();
-  const { requestConfirmation, setCurrentView, setActiveCharacterId, setActiveSessionId, setActiveGroupSessionId } = useUIStore();
+  const {
+    requestConfirmation,
+    setCurrentView,
+    setActiveCharacterId,
+    setActiveSessionId,
+    setActiveGroupSessionId,
+    activeSessionId,
+    activeGroupSessionId,
+  } = useUIStore();
+  const userName = useSettingsStore((state) => state.userPersona?.name);
   const [activeTab, setActiveTab] = useState<'single' | 'group'>('single');
+  const [viewMode, setViewMode] = useState<'list' | 'tree'>('list');
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') onClose();
+      if (e.key !== 'Escape') return;
+      if (isCompareOpen) setIsCompareOpen(false);
+      else onClose();
     };
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [onClose]);
+  }, [onClose, isCompareOpen]);
 
   useEffect(() => {
-    // Clear selection when tab changes
+    // Clear selection when tab or view changes
     setSelectedIds(new Set());
-  }, [activeTab]);
+    setCompareIds([]);
+  }, [activeTab, viewMode]);
 
 
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -248,6 +267,27 @@ function HistoryModal({ onClose }: HistoryModalProps) {
     [groupSessions, allMessages],
   );
 
+  // Forks stay with the character of the session they came from, so each character's sessions form their own forest.
+  const singleChatForests = useMemo(
+    () =>
+      Object.entries(characterSessions || {})
+        .map(([charId, sessionIds]: [string, string[]]) => ({
+          charId,
+          roots: buildBranchForest(
+            sessionIds.map((id) => sessions[id]).filter((s): s is Session => !!s),
+            allMessages,
+          ),
+        }))
+        .filter(({ roots }) => roots.length > 0)
+        .sort((a, b) => b.roots[0].lastTimestamp - a.roots[0].lastTimestamp),
+    [characterSessions, sessions, allMessages],
+  );
+
+  const groupChatForest = useMemo(
+    () => buildBranchForest(Object.values(groupSessions || {}), allMessages),
+    [groupSessions, allMessages],
+  );
+
   const displayedItems = useMemo(() => {
     return activeTab === 'single'
       ? singleChatSessions.map(s => ({ id: s.session.id, ...s }))
@@ -316,6 +356,34 @@ function HistoryModal({ onClose }: HistoryModalProps) {
     onClose();
   };
 
+  const handleOpenBranch = (sessionId: string) => {
+    if (activeTab === 'group') {
+      handleSelectGroupSession(sessionId);
+      return;
+    }
+    const sessionData = singleChatSessions.find((s) => s.session.id === sessionId);
+    if (sessionData) handleSelectSession(sessionData.charId, sessionId);
+  };
+
+  // Picking a third branch replaces the older of the two already picked.
+  const handleToggleCompare = (sessionId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(sessionId) ? prev.filter((id) => id !== sessionId) : [...prev, sessionId].slice(-2),
+    );
+  };
+
+  const comparedBranches: ComparedBranch[] = compareIds
+    .map((id) => (activeTab === 'single' ? sessions[id] : groupSessions[id]))
+    .filter((s): s is Session | GroupSession => !!s)
+    .map((s) => ({ sessionId: s.id, title: s.title, messageIds: s.messageIds }));
+
+  const senderName = (message: Message, sessionId: string): string => {
+    if (message.role === 'user') return userName || 'You';
+    if (message.role === 'system') return 'System';
+    const characterId = message.characterId ?? singleChatSessions.find((s) => s.session.id === sessionId)?.charId;
+    return characters.find((c) => c.id === characterId)?.name || 'Character';
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -378,16 +446,76 @@ function HistoryModal({ onClose }: HistoryModalProps) {
                 Group Chats
               </button>
             </div>
-            {displayedItems.length > 0 && (
+            <div className="flex items-center gap-4">
+            <div className="flex items-center gap-1 p-0.5 bg-slate-800/60 rounded-md" role="group" aria-label="History view">
+              <button
+                onClick={() => setViewMode('list')}
+                aria-pressed={viewMode === 'list'}
+                className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded transition-colors ${
+                  viewMode === 'list' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                <Icon name="list" className="w-3.5 h-3.5" /> List
+              </button>
+              <button
+                onClick={() => setViewMode('tree')}
+                aria-pressed={viewMode === 'tree'}
+                className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-semibold rounded transition-colors ${
+                  viewMode === 'tree' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                <Icon name="branch" className="w-3.5 h-3.5" /> Branches
+              </button>
+            </div>
+            {viewMode === 'list' && displayedItems.length > 0 && (
                 <div className="flex items-center pl-2">
                   <CustomCheckbox id="select-all-history" checked={allSelected} indeterminate={isIndeterminate} onChange={handleToggleSelectAll} label="Select All" />
                 </div>
             )}
+            </div>
           </div>
         </div>
 
         <main className="flex-1 overflow-y-auto p-4 md:p-6 custom-scrollbar">
-          {activeTab === 'single' ? (
+          {viewMode === 'tree' ? (
+            activeTab === 'single' ? (
+              singleChatForests.length > 0 ? (
+                <div className="space-y-6">
+                  {singleChatForests.map(({ charId, roots }) => {
+                    const character = characters.find((c) => c.id === charId);
+                    if (!character) return null;
+                    return (
+                      <section key={charId}>
+                        <div className="flex items-center gap-3 mb-2">
+                          <Avatar src={character.avatar} alt="" shape="circle" className="w-8 h-8" />
+                          <h3 className="font-bold text-slate-200">{character.name}</h3>
+                        </div>
+                        <BranchTree
+                          roots={roots}
+                          activeSessionId={activeSessionId}
+                          compareIds={compareIds}
+                          onOpen={handleOpenBranch}
+                          onToggleCompare={handleToggleCompare}
+                        />
+                      </section>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-center text-slate-500 pt-8">No single chat history found.</p>
+              )
+            ) : groupChatForest.length > 0 ? (
+              <BranchTree
+                roots={groupChatForest}
+                activeSessionId={activeGroupSessionId}
+                compareIds={compareIds}
+                onOpen={handleOpenBranch}
+                onToggleCompare={handleToggleCompare}
+              />
+            ) : (
+              <p className="text-center text-slate-500 pt-8">No group chat history found.</p>
+            )
+          ) : activeTab === 'single' ? (
             <div className="space-y-3">
               {singleChatSessions.length > 0 ? (
                 singleChatSessions.map(({ session, charId }) => {
@@ -450,7 +578,32 @@ function HistoryModal({ onClose }: HistoryModalProps) {
           )}
         </main>
         <AnimatePresence>
-          {selectedIds.size > 0 && (
+          {viewMode === 'tree' && compareIds.length > 0 && (
+            <motion.footer
+                initial={{ y: '100%' }}
+                animate={{ y: 0 }}
+                exit={{ y: '100%' }}
+                transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+                className="shrink-0 bg-slate-800/95 backdrop-blur-sm border-t border-slate-700 p-3 flex items-center justify-between"
+            >
+                <p className="text-sm font-semibold text-slate-300">
+                    {compareIds.length === 2 ? '2 branches selected' : 'Select another branch to compare'}
+                </p>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setCompareIds([])} className="px-3 py-1.5 text-sm font-semibold text-slate-300 rounded-md hover:bg-slate-700/50">
+                        Clear
+                    </button>
+                    <button
+                        onClick={() => setIsCompareOpen(true)}
+                        disabled={comparedBranches.length < 2}
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-sky-300 bg-sky-900/50 rounded-md hover:bg-sky-800/50 border border-sky-700/50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Icon name="columns" className="w-4 h-4" /> Compare Side by Side
+                    </button>
+                </div>
+            </motion.footer>
+          )}
+          {viewMode === 'list' && selectedIds.size > 0 && (
             <motion.footer
                 initial={{ y: '100%' }}
                 animate={{ y: 0 }}
@@ -471,6 +624,17 @@ function HistoryModal({ onClose }: HistoryModalProps) {
           )}
         </AnimatePresence>
       </motion.div>
+      <AnimatePresence>
+        {isCompareOpen && comparedBranches.length === 2 && (
+          <BranchCompareModal
+            left={comparedBranches[0]}
+            right={comparedBranches[1]}
+            senderName={senderName}
+            onOpen={handleOpenBranch}
+            onClose={() => setIsCompareOpen(false)}
+          />
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 }
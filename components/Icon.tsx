@@ -47,6 +47,12 @@ import {
   Zap,
   CheckSquare,
   Users2,
+  Code,
+  GripVertical,
+  Dices,
+  GitBranch,
+  List,
+  Columns2,
 } from 'lucide-react';
 import { Tooltip } from './Tooltip';
 
@@ -98,6 +104,12 @@ const icons: { [key: string]: LucideIconComponent } = {
   lightbulb: Lightbulb,
   palette: Palette,
   zap: Zap,
+  code: Code,
+  grip: GripVertical,
+  dice: Dices,
+  branch: GitBranch,
+  list: List,
+  columns: Columns2,
   'users-2': Users2,
 };
 
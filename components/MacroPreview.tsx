@@ -0,0 +1,53 @@
+import React, { useMemo, useState } from 'react';
+import { Icon } from './Icon';
+import { useSettingsStore } from '../store/stores/settingsStore';
+import { expandMacros } from '../services/macroService';
+
+interface MacroPreviewProps {
+  text: string;
+  /** Name substituted for `{{char}}`. Falls back to a placeholder when the text isn't tied to a character. */
+  char?: string;
+  className?: string;
+}
+
+/**
+ * Shows text with its macros expanded, as it would be sent. Renders nothing when
+ * the text contains no macros. Random picks and dice rolls can be re-rolled.
+ */
+const MacroPreview: React.FC<MacroPreviewProps> = ({ text, char, className = '' }) => {
+  const userName = useSettingsStore((state) => state.userPersona?.name);
+  const [seed, setSeed] = useState(0);
+
+  const expanded = useMemo(
+    () =>
+      expandMacros(text, {
+        char: char || 'Character',
+        user: userName || 'User',
+        lastMessage: '(last message)',
+      }),
+    // `seed` only forces a new expansion so random macros are rolled again.
+    [text, char, userName, seed],
+  );
+
+  if (!text || !text.includes('{{')) return null;
+
+  return (
+    <div className={`p-3 bg-slate-800/50 rounded-lg border border-slate-700/50 ${className}`}>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Macro Preview</span>
+        <button
+          type="button"
+          onClick={() => setSeed((s) => s + 1)}
+          className="flex items-center gap-1 px-2 py-0.5 text-xs text-slate-400 hover:text-white rounded-md transition-colors"
+          aria-label="Re-roll random macros"
+        >
+          <Icon name="redo" className="w-3.5 h-3.5" />
+          Re-roll
+        </button>
+      </div>
+      <p className="text-sm text-slate-300 whitespace-pre-wrap break-words">{expanded}</p>
+    </div>
+  );
+};
+
+export default MacroPreview;
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MemoryVersionSource } from '../types';
+import { Icon } from './Icon';
+import { getMemoryTranscript, useChatStore } from '../store/stores/chatStore';
+
+interface MemoryPanelProps {
+  sessionId: string;
+  isGroup: boolean;
+}
+
+const SOURCE_LABELS: Record<MemoryVersionSource, string> = {
+  auto: 'Auto-summarized',
+  manual: 'Summarized on request',
+  range: 'Range summary',
+  edit: 'Edited',
+  restore: 'Restored',
+};
+
+const inputClassName =
+  'block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-2';
+
+/**
+ * Shows a chat's long-term memory summary and lets the user correct it, rebuild it
+ * from a range of messages, or go back to an earlier version.
+ */
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ sessionId, isGroup }) => {
+  const session = useChatStore((state) => (isGroup ? state.groupSessions[sessionId] : state.sessions[sessionId]));
+  const allMessages = useChatStore((state) => state.messages);
+  const { setMemorySummary, restoreMemoryVersion, summarizeMemoryRange } = useChatStore();
+
+  const summary = session?.memorySummary || '';
+  const versions = session?.memoryVersions || [];
+  const transcriptLength = useMemo(
+    () => (session ? getMemoryTranscript(session, allMessages).length : 0),
+    [session, allMessages],
+  );
+
+  const [draft, setDraft] = useState(summary);
+  const [rangeStart, setRangeStart] = useState(1);
+  const [rangeEnd, setRangeEnd] = useState(transcriptLength);
+  const [merge, setMerge] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+
+  useEffect(() => setDraft(summary), [summary]);
+  useEffect(() => setRangeEnd(transcriptLength), [transcriptLength]);
+
+  if (!session) return null;
+
+  const isDirty = draft.trim() !== summary.trim();
+  const start = Math.max(1, Math.min(rangeStart, transcriptLength));
+  const end = Math.max(start, Math.min(rangeEnd, transcriptLength));
+
+  const handleSummarizeRange = async () => {
+    setIsSummarizing(true);
+    await summarizeMemoryRange(sessionId, start - 1, end - 1, merge, isGroup);
+    setIsSummarizing(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="memorySummary" className="block text-sm font-medium text-slate-300">Memory Summary</label>
+        <p className="text-xs text-slate-500 mb-2">What the model remembers of earlier events. Edit it to correct mistakes.</p>
+        <textarea
+          id="memorySummary"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={6}
+          placeholder="Nothing has been summarized yet."
+          className={`${inputClassName} resize-y custom-scrollbar`}
+        />
+        {isDirty && (
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              type="button"
+              onClick={() => setDraft(summary)}
+              className="px-3 py-1 text-xs font-semibold text-slate-300 rounded-md hover:bg-slate-700/50"
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              onClick={() => setMemorySummary(sessionId, draft.trim(), isGroup)}
+              className="px-3 py-1 text-xs font-semibold text-white bg-crimson-600 hover:bg-crimson-500 rounded-md"
+            >
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+
+      <details className="group/range">
+        <summary className="flex items-center justify-between cursor-pointer list-none text-sm font-medium text-slate-300">
+          Summarize a Range
+          <Icon name="chevron-down" className="w-4 h-4 text-slate-500 group-open/range:rotate-180 transition-transform" />
+        </summary>
+        <p className="text-xs text-slate-500 mt-1 mb-2">
+          Rebuild the summary from chosen messages, including ones already summarized away. The chat itself is not changed.
+        </p>
+        {transcriptLength > 0 ? (
+          <>
+            <div className="flex items-center gap-2 text-sm text-slate-400">
+              <input
+                type="number"
+                aria-label="First message"
+                min={1}
+                max={transcriptLength}
+                value={rangeStart}
+                onChange={(e) => setRangeStart(parseInt(e.target.value, 10) || 1)}
+                className={inputClassName}
+              />
+              <span>to</span>
+              <input
+                type="number"
+                aria-label="Last message"
+                min={1}
+                max={transcriptLength}
+                value={rangeEnd}
+                onChange={(e) => setRangeEnd(parseInt(e.target.value, 10) || transcriptLength)}
+                className={inputClassName}
+              />
+              <span className="shrink-0">of {transcriptLength}</span>
+            </div>
+            <label className="flex items-center gap-2 mt-2 text-xs text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={merge} onChange={(e) => setMerge(e.target.checked)} />
+              Merge into the current summary instead of replacing it
+            </label>
+            <button
+              type="button"
+              onClick={handleSummarizeRange}
+              disabled={isSummarizing}
+              className="mt-2 w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md border border-slate-600 disabled:opacity-50 disabled:cursor-wait"
+            >
+              <Icon name="brain" className={`w-4 h-4 ${isSummarizing ? 'animate-pulse' : ''}`} />
+              {isSummarizing ? 'Summarizing…' : `Summarize Messages ${start}–${end}`}
+            </button>
+          </>
+        ) : (
+          <p className="text-xs text-slate-500 italic">There are no messages to summarize.</p>
+        )}
+      </details>
+
+      {versions.length > 0 && (
+        <details className="group/versions">
+          <summary className="flex items-center justify-between cursor-pointer list-none text-sm font-medium text-slate-300">
+            Versions ({versions.length})
+            <Icon name="chevron-down" className="w-4 h-4 text-slate-500 group-open/versions:rotate-180 transition-transform" />
+          </summary>
+          <ol className="mt-2 space-y-2">
+            {versions
+              .map((version, index) => ({ version, index }))
+              .reverse()
+              .map(({ version, index }) => {
+                const isCurrent = index === versions.length - 1;
+                return (
+                  <li key={version.id} className="p-2 bg-slate-800/50 rounded-md border border-slate-700/50">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-xs font-semibold text-slate-300 truncate">
+                          {index + 1}. {SOURCE_LABELS[version.source]}
+                          {version.detail && <span className="font-normal text-slate-500"> · {version.detail}</span>}
+                        </p>
+                        <p className="text-[10px] text-slate-500 font-mono">
+                          {version.timestamp ? new Date(version.timestamp).toLocaleString() : 'Before versions were kept'}
+                        </p>
+                      </div>
+                      {isCurrent ? (
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-crimson-300 shrink-0">Current</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => restoreMemoryVersion(sessionId, version.id, isGroup)}
+                          className="flex items-center gap-1 px-2 py-0.5 text-xs text-slate-400 hover:text-white rounded-md hover:bg-slate-700/50 shrink-0"
+                        >
+                          <Icon name="history" className="w-3.5 h-3.5" />
+                          Restore
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-400 mt-1 line-clamp-3 whitespace-pre-wrap">{version.summary || '(empty)'}</p>
+                  </li>
+                );
+              })}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default MemoryPanel;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { PromptBudget, PromptSectionId } from '../types';
+
+const SECTIONS: { id: PromptSectionId; label: string; color: string }[] = [
+  { id: 'system', label: 'System', color: 'bg-slate-400' },
+  { id: 'persona', label: 'Persona', color: 'bg-sky-500' },
+  { id: 'character', label: 'Character', color: 'bg-crimson-500' },
+  { id: 'examples', label: 'Examples', color: 'bg-pink-400' },
+  { id: 'lore', label: 'Lore', color: 'bg-ember-500' },
+  { id: 'summary', label: 'Summary', color: 'bg-violet-500' },
+  { id: 'memory', label: 'Memory', color: 'bg-amber-400' },
+  { id: 'recall', label: 'Recall', color: 'bg-teal-400' },
+  { id: 'history', label: 'History', color: 'bg-emerald-500' },
+];
+
+interface PromptBudgetBreakdownProps {
+  budget: PromptBudget;
+}
+
+/**
+ * Shows how the next prompt's tokens are split between its sections,
+ * measured against the context size and the space reserved for the reply.
+ */
+const PromptBudgetBreakdown: React.FC<PromptBudgetBreakdownProps> = ({ budget }) => {
+  const { total, contextSize, maxOutputTokens, tokenizer, approximate } = budget;
+  // Prompt snapshots saved before a section existed have no count for it.
+  const tokensOf = (id: PromptSectionId) => budget.sections[id] ?? 0;
+  const prefix = approximate ? '≈' : '';
+  // Without a context limit, scale the bar to the prompt itself.
+  const scale = Math.max(contextSize > 0 ? contextSize : total + maxOutputTokens, 1);
+  const percentOf = (tokens: number) => `${Math.min((tokens / scale) * 100, 100)}%`;
+  const isOverBudget = contextSize > 0 && total + maxOutputTokens > contextSize;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-2.5 w-full overflow-hidden rounded-full bg-slate-800" role="img" aria-label="Prompt token usage by section">
+        {SECTIONS.map(({ id, color }) =>
+          tokensOf(id) > 0 ? <div key={id} className={color} style={{ width: percentOf(tokensOf(id)) }} /> : null,
+        )}
+        {maxOutputTokens > 0 && (
+          <div className="bg-slate-600/60" style={{ width: percentOf(maxOutputTokens) }} title="Reserved for the response" />
+        )}
+      </div>
+      <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {SECTIONS.map(({ id, label, color }) => (
+          <li key={id} className="flex items-center justify-between text-slate-400">
+            <span className="flex items-center gap-1.5">
+              <span className={`inline-block w-2 h-2 rounded-sm ${color}`} />
+              {label}
+            </span>
+            <span className="font-mono text-slate-300">
+              {prefix}
+              {tokensOf(id).toLocaleString()}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center justify-between text-xs border-t border-slate-800 pt-2">
+        <span className="text-slate-400">
+          Prompt + reply
+          {budget.historyMessagesKept < budget.historyMessagesTotal && (
+            <span className="text-slate-500">
+              {' '}· {budget.historyMessagesKept}/{budget.historyMessagesTotal} messages fit
+            </span>
+          )}
+        </span>
+        <span className={`font-mono ${isOverBudget ? 'text-red-400' : 'text-slate-200'}`}>
+          {prefix}
+          {total.toLocaleString()} + {maxOutputTokens.toLocaleString()}
+          {contextSize > 0 && ` / ${contextSize.toLocaleString()}`}
+        </span>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Tokenizer: {tokenizer}
+        {approximate && ' — counts are estimates'}
+      </p>
+    </div>
+  );
+};
+
+export default PromptBudgetBreakdown;
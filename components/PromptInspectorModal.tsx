@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { PromptSnapshot } from '../types';
+import { Icon } from './Icon';
+import { logger } from '../services/logger';
+import PromptBudgetBreakdown from './PromptBudgetBreakdown';
+
+interface PromptInspectorModalProps {
+  snapshot: PromptSnapshot;
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section>
+    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{title}</h3>
+    {children}
+  </section>
+);
+
+const preClassName =
+  'bg-slate-950 border border-slate-800 rounded-md p-3 text-xs font-mono text-slate-300 whitespace-pre-wrap break-words max-h-80 overflow-y-auto custom-scrollbar';
+
+/**
+ * Shows the exact request that produced an assistant message: the system prompt,
+ * the history as sent, injected lore with its retrieval scores, and the sampling parameters.
+ */
+const PromptInspectorModal: React.FC<PromptInspectorModalProps> = ({ snapshot, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(snapshot, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      logger.error('Failed to copy prompt snapshot to clipboard', e);
+    }
+  };
+
+  const params: [string, unknown][] = [
+    ['Temperature', snapshot.temperature],
+    ['Max Output Tokens', snapshot.maxOutputTokens],
+    ['Context Size', snapshot.contextSize],
+    ...Object.entries(snapshot.samplers),
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 bg-slate-950/80 flex items-center justify-center z-50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: 20, opacity: 0 }}
+        transition={{ duration: 0.2, ease: 'easeOut' }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="prompt-inspector-title"
+        className="bg-slate-900 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] m-4 border border-slate-700 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <div>
+            <h2 id="prompt-inspector-title" className="text-xl font-bold font-display tracking-widest uppercase">
+              Prompt Inspector
+            </h2>
+            <p className="text-xs text-slate-500 font-mono mt-1">
+              {snapshot.provider} · {snapshot.model} · {new Date(snapshot.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close prompt inspector"
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-md"
+          >
+            <Icon name="close" />
+          </button>
+        </header>
+
+        <main className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+          <Section title="Parameters">
+            <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 text-xs">
+              {params.map(([name, value]) => (
+                <div key={name} className="flex justify-between gap-2">
+                  <dt className="text-slate-500">{name}</dt>
+                  <dd className="font-mono text-slate-300 truncate">{Array.isArray(value) ? value.join(', ') : String(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          </Section>
+
+          <Section title="Token Budget">
+            <PromptBudgetBreakdown budget={snapshot.budget} />
+          </Section>
+
+          <Section title={`Injected Lore (${snapshot.loreEntries.length})`}>
+            {snapshot.loreEntries.length > 0 ? (
+              <ul className="space-y-1 text-xs">
+                {snapshot.loreEntries.map((entry, i) => (
+                  <li key={`${entry.name}-${i}`} className="flex items-start gap-3">
+                    <span className="font-mono text-ember-400 w-10 text-right shrink-0">{entry.score}</span>
+                    <div className="min-w-0">
+                      <span className="text-slate-200 font-semibold">{entry.name}</span>
+                      {entry.depth !== undefined && <span className="text-sky-400"> (depth {entry.depth})</span>}
+                      <span className="text-slate-500"> — {entry.reasons.join('; ')}</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-500 italic">No lore was injected.</p>
+            )}
+          </Section>
+
+          <Section title="System Prompt">
+            {snapshot.systemPrompt ? (
+              <pre className={preClassName}>{snapshot.systemPrompt}</pre>
+            ) : (
+              <p className="text-xs text-slate-500 italic">Folded into the first message; this provider has no system role.</p>
+            )}
+          </Section>
+
+          <Section title={`Messages (${snapshot.messages.length})`}>
+            <div className="space-y-2">
+              {snapshot.messages.map((message, i) => (
+                <div key={i}>
+                  <span className="text-[11px] font-mono uppercase text-slate-500">{message.role}</span>
+                  <pre className={preClassName}>{message.content}</pre>
+                </div>
+              ))}
+              {snapshot.prefill && (
+                <div>
+                  <span className="text-[11px] font-mono uppercase text-slate-500">assistant (prefill)</span>
+                  <pre className={preClassName}>{snapshot.prefill}</pre>
+                </div>
+              )}
+            </div>
+          </Section>
+        </main>
+
+        <footer className="p-4 border-t border-slate-800 flex justify-end space-x-3 shrink-0">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 border border-slate-600 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <Icon name={copied ? 'checkmark' : 'duplicate'} className="w-4 h-4" />
+            {copied ? 'Copied!' : 'Copy as JSON'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-semibold text-white bg-crimson-600 hover:bg-crimson-500 rounded-lg transition-colors border border-crimson-400/50 shadow-md shadow-crimson-900/50"
+          >
+            Close
+          </button>
+        </footer>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default PromptInspectorModal;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+import { PromptTemplate, PromptTemplateSection } from '../types';
+import { Icon } from './Icon';
+import { createPromptTemplateSection, PROMPT_MACROS } from '../services/promptTemplateService';
+import { TEXT_MACROS } from '../services/macroService';
+
+const BUDGET_SECTIONS: { value: PromptTemplateSection['budgetSection']; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'persona', label: 'Persona' },
+  { value: 'character', label: 'Character' },
+  { value: 'examples', label: 'Examples' },
+  { value: 'lore', label: 'Lore' },
+  { value: 'summary', label: 'Summary' },
+  { value: 'memory', label: 'Memory' },
+  { value: 'recall', label: 'Recall' },
+];
+
+// Template macros first, then the text macros that aren't already among them.
+const MACRO_HELP = [
+  ...PROMPT_MACROS,
+  ...TEXT_MACROS.filter((m) => !PROMPT_MACROS.some((p) => p.name === m.name)),
+];
+
+const inputClassName =
+  'block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-2';
+
+interface SectionRowProps {
+  section: PromptTemplateSection;
+  onChange: (changes: Partial<PromptTemplateSection>) => void;
+  onRemove: () => void;
+}
+
+const SectionRow: React.FC<SectionRowProps> = ({ section, onChange, onRemove }) => {
+  // Dragging starts from the handle only, so text in the fields can still be selected.
+  const dragControls = useDragControls();
+
+  return (
+    <Reorder.Item
+      value={section}
+      dragListener={false}
+      dragControls={dragControls}
+      className={`p-3 bg-slate-800/50 rounded-lg border border-slate-700/50 space-y-2 ${section.enabled ? '' : 'opacity-60'}`}
+    >
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onPointerDown={(e) => dragControls.start(e)}
+          className="p-1 text-slate-500 hover:text-slate-300 cursor-grab active:cursor-grabbing touch-none"
+          aria-label={`Drag to reorder ${section.name}`}
+        >
+          <Icon name="grip" className="w-4 h-4" />
+        </button>
+        <input
+          type="checkbox"
+          checked={section.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="w-4 h-4 rounded bg-slate-700 border-slate-600 text-crimson-500 focus:ring-crimson-500"
+          aria-label={`Include ${section.name}`}
+        />
+        <input
+          type="text"
+          value={section.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className={`${inputClassName} flex-1 py-1`}
+          aria-label="Section name"
+        />
+        <select
+          value={section.budgetSection}
+          onChange={(e) => onChange({ budgetSection: e.target.value as PromptTemplateSection['budgetSection'] })}
+          className={`${inputClassName} w-32 py-1`}
+          aria-label="Count tokens as"
+          title="The prompt budget category this section's tokens are counted under."
+        >
+          {BUDGET_SECTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-1 text-slate-500 hover:text-ember-400 rounded-md"
+          aria-label={`Remove ${section.name}`}
+        >
+          <Icon name="delete" className="w-4 h-4" />
+        </button>
+      </div>
+      <textarea
+        value={section.content}
+        onChange={(e) => onChange({ content: e.target.value })}
+        rows={4}
+        className={`${inputClassName} font-mono text-xs leading-relaxed custom-scrollbar`}
+        aria-label={`${section.name} content`}
+      />
+    </Reorder.Item>
+  );
+};
+
+interface PromptTemplateEditorProps {
+  template: PromptTemplate;
+  onChange: (template: PromptTemplate) => void;
+  /** Restores the template this one was derived from. Omitted when there is nothing to reset to. */
+  onReset?: () => void;
+}
+
+/**
+ * Editor for a system prompt template: sections can be reordered by dragging,
+ * switched off, renamed and rewritten with macros.
+ */
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ template, onChange, onReset }) => {
+  const updateSection = (id: string, changes: Partial<PromptTemplateSection>) =>
+    onChange({ sections: template.sections.map((s) => (s.id === id ? { ...s, ...changes } : s)) });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-500">
+        {MACRO_HELP.map(({ name, description }) => (
+          <span key={name} title={description}>
+            <code className="text-ember-400">{`{{${name}}}`}</code>
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">
+        Sections run top to bottom. A section is left out when every content macro in it is empty.
+      </p>
+      <Reorder.Group axis="y" values={template.sections} onReorder={(sections) => onChange({ sections })} className="space-y-2">
+        {template.sections.map((section) => (
+          <SectionRow
+            key={section.id}
+            section={section}
+            onChange={(changes) => updateSection(section.id, changes)}
+            onRemove={() => onChange({ sections: template.sections.filter((s) => s.id !== section.id) })}
+          />
+        ))}
+      </Reorder.Group>
+      <div className="flex justify-between">
+        <button
+          type="button"
+          onClick={() => onChange({ sections: [...template.sections, createPromptTemplateSection()] })}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-slate-300 bg-slate-700/50 border border-slate-600 hover:bg-slate-700 rounded-lg transition-colors"
+        >
+          <Icon name="add" className="w-4 h-4" />
+          Add Section
+        </button>
+        {onReset && (
+          <button
+            type="button"
+            onClick={onReset}
+            className="px-3 py-1.5 text-xs font-semibold text-slate-400 hover:text-white rounded-lg transition-colors"
+          >
+            Reset to Default
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
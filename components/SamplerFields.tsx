@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { SamplerSettings } from '../types';
+
+type NumericSampler = Exclude<keyof SamplerSettings, 'stopSequences'>;
+
+const NUMERIC_SAMPLERS: { key: NumericSampler; label: string; description: string; step: string; integer?: boolean }[] = [
+  { key: 'topP', label: 'Top P', description: 'Nucleus sampling cutoff (0-1).', step: '0.01' },
+  { key: 'topK', label: 'Top K', description: 'Sample only from the K likeliest tokens.', step: '1', integer: true },
+  { key: 'minP', label: 'Min P', description: 'Drop tokens below this share of the top probability.', step: '0.01' },
+  { key: 'repetitionPenalty', label: 'Repetition Penalty', description: 'Above 1 discourages repeating tokens.', step: '0.01' },
+  { key: 'frequencyPenalty', label: 'Frequency Penalty', description: 'Penalizes tokens by how often they appear.', step: '0.05' },
+  { key: 'presencePenalty', label: 'Presence Penalty', description: 'Penalizes tokens that appeared at all.', step: '0.05' },
+  { key: 'seed', label: 'Seed', description: 'Fixed seed for reproducible output.', step: '1', integer: true },
+];
+
+interface SamplerFieldsProps {
+  value: SamplerSettings;
+  onChange: (samplers: SamplerSettings) => void;
+  /** Values shown as placeholders when a field is blank, e.g. the inherited global setting. */
+  inherited?: SamplerSettings;
+  idPrefix: string;
+  inputClassName: string;
+}
+
+/**
+ * Editor for the optional sampler settings. Blank fields are left unset so the
+ * inherited value (or the provider's default) applies.
+ */
+const SamplerFields: React.FC<SamplerFieldsProps> = ({ value, onChange, inherited = {}, idPrefix, inputClassName }) => {
+  // Stop sequences are edited as raw text and only split into a list on blur,
+  // so that typing a newline doesn't get swallowed.
+  const [stopText, setStopText] = useState((value.stopSequences || []).join('\n'));
+  useEffect(() => {
+    setStopText((value.stopSequences || []).join('\n'));
+  }, [value.stopSequences]);
+
+  const setNumber = (key: NumericSampler, raw: string, integer?: boolean) => {
+    const next = { ...value };
+    const parsed = integer ? parseInt(raw, 10) : parseFloat(raw);
+    if (raw.trim() === '' || Number.isNaN(parsed)) delete next[key];
+    else next[key] = parsed;
+    onChange(next);
+  };
+
+  const commitStopSequences = () => {
+    const stops = stopText.split('\n').filter((s) => s.length > 0);
+    const next = { ...value };
+    if (stops.length > 0) next.stopSequences = stops;
+    else delete next.stopSequences;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_SAMPLERS.map(({ key, label, description, step, integer }) => (
+          <div key={key}>
+            <label htmlFor={`${idPrefix}-${key}`} className="block text-xs font-medium text-slate-300" title={description}>
+              {label}
+            </label>
+            <input
+              type="number"
+              id={`${idPrefix}-${key}`}
+              step={step}
+              value={value[key] ?? ''}
+              onChange={(e) => setNumber(key, e.target.value, integer)}
+              className={inputClassName}
+              placeholder={inherited[key] !== undefined ? String(inherited[key]) : 'Default'}
+              title={description}
+            />
+          </div>
+        ))}
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-stopSequences`} className="block text-xs font-medium text-slate-300">
+          Stop Sequences
+        </label>
+        <textarea
+          id={`${idPrefix}-stopSequences`}
+          value={stopText}
+          onChange={(e) => setStopText(e.target.value)}
+          onBlur={commitStopSequences}
+          rows={2}
+          className={`${inputClassName} font-mono text-xs custom-scrollbar`}
+          placeholder={inherited.stopSequences?.length ? inherited.stopSequences.join('\n') : 'One per line'}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SamplerFields;
@@ -1,16 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, LLMProvider, Theme, ThemeConfig, ThinkingDepth } from '../types';
+import { Settings, LLMProvider, Theme, ThemeConfig, ThinkingDepth, ConnectionProfile, SamplerSettings, PromptTemplateKind } from '../types';
 import { Icon } from './Icon';
 import { useSettingsStore } from '../store/stores/settingsStore';
 import { motion, AnimatePresence } from 'framer-motion';
 import ThemeEditorModal from './ThemeEditorModal';
-import { API_ENDPOINTS } from '../constants';
+import SamplerFields from './SamplerFields';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import { clonePromptTemplate } from '../services/promptTemplateService';
+import { DEFAULT_PROMPT_TEMPLATES } from '../constants';
+import { getProviderAdapter, listProviderAdapters, normalizeCustomBaseUrl } from '../services/providers/registry';
+import { createConnectionProfile } from '../services/connectionProfileService';
+import type { ProviderAdapter } from '../services/providers/types';
 
 interface SettingsModalProps {
   onClose: () => void;
 }
 
-type SettingsSection = 'general' | 'appearance' | 'providers' | 'prompts' | 'thinking-engine';
+type SettingsSection = 'general' | 'appearance' | 'providers' | 'profiles' | 'prompts' | 'thinking-engine';
 
 function SectionButton({
   icon,
@@ -110,6 +116,8 @@ const ProviderCard: React.FC<{
   );
 };
 
+const MAX_SWIPE_COUNT = 8;
+
 function GeneralSection({
   settings,
   setSettings,
@@ -117,18 +125,6 @@ function GeneralSection({
   settings: Settings;
   setSettings: React.Dispatch<React.SetStateAction<Settings>>;
 }) {
-  const providersInfo = {
-    [LLMProvider.GEMINI]: {
-      description: "Google's powerful and versatile family of models.",
-    },
-    [LLMProvider.OPENROUTER]: {
-      description: 'Access a wide variety of models through a single API.',
-    },
-    [LLMProvider.DEEPSEEK]: {
-      description: 'A specialized model provider focused on code and chat.',
-    },
-  };
-
   return (
     <SettingsSectionPanel
       title="General"
@@ -139,18 +135,57 @@ function GeneralSection({
         htmlFor="provider-grid"
         description="Select which provider to use for all chat completions."
       >
-        <div id="provider-grid" className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-          {Object.values(LLMProvider).map((p) => (
+        <div id="provider-grid" className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {listProviderAdapters().map((adapter) => (
             <ProviderCard
-              key={p}
-              provider={p}
-              description={providersInfo[p].description}
-              isSelected={settings.provider === p}
-              onSelect={() => setSettings((prev) => ({ ...prev, provider: p }))}
+              key={adapter.id}
+              provider={adapter.id}
+              description={adapter.description}
+              isSelected={settings.provider === adapter.id}
+              onSelect={() => setSettings((prev) => ({ ...prev, provider: adapter.id }))}
             />
           ))}
         </div>
       </FormField>
+      <FormField
+        label="Parallel Alternatives"
+        htmlFor="swipeCount"
+        description="How many responses Generate Alternatives streams at once. Each one is a full request to the provider."
+      >
+        <input
+          type="number"
+          id="swipeCount"
+          min={2}
+          max={MAX_SWIPE_COUNT}
+          value={settings.swipeCount}
+          onChange={(e) =>
+            setSettings((prev) => ({
+              ...prev,
+              swipeCount: Math.min(Math.max(parseInt(e.target.value, 10) || 2, 2), MAX_SWIPE_COUNT),
+            }))
+          }
+          className={`${inputClassName} w-32`}
+        />
+      </FormField>
+      <FormField
+        label="Structured Memory Interval"
+        htmlFor="structuredMemoryInterval"
+        description="How many of your messages pass between structured memory updates, in chats that have it switched on."
+      >
+        <input
+          type="number"
+          id="structuredMemoryInterval"
+          min={1}
+          value={settings.structuredMemoryInterval}
+          onChange={(e) =>
+            setSettings((prev) => ({
+              ...prev,
+              structuredMemoryInterval: Math.max(parseInt(e.target.value, 10) || 1, 1),
+            }))
+          }
+          className={`${inputClassName} w-32`}
+        />
+      </FormField>
     </SettingsSectionPanel>
   );
 }
@@ -222,6 +257,150 @@ function AppearanceSection() {
 }
 
 
+const inputClassName =
+  'block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 focus:outline-none sm:text-sm p-3 placeholder:text-slate-600';
+
+const compactInputClassName =
+  'block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 focus:outline-none sm:text-sm p-2 placeholder:text-slate-600';
+
+const SAMPLER_LABELS: [keyof SamplerSettings, string][] = [
+  ['topP', 'top-p'],
+  ['topK', 'top-k'],
+  ['minP', 'min-p'],
+  ['repetitionPenalty', 'repetition'],
+  ['frequencyPenalty', 'frequency'],
+  ['presencePenalty', 'presence'],
+  ['stopSequences', 'stop'],
+  ['seed', 'seed'],
+];
+
+const describeSamplerSupport = ({ id, capabilities }: ProviderAdapter): string => {
+  const supported = SAMPLER_LABELS.filter(([key]) => capabilities.samplers.includes(key)).map(([, label]) => label);
+  return `${id}: ${supported.length === SAMPLER_LABELS.length ? 'all' : supported.join(', ')}`;
+};
+
+const CustomEndpointFields: React.FC<{
+  settings: Settings;
+  setSettings: React.Dispatch<React.SetStateAction<Settings>>;
+  onChange: () => void;
+}> = ({ settings, setSettings, onChange }) => {
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const { baseUrl, headers, models } = settings.customEndpoint;
+
+  const updateEndpoint = (update: Partial<Settings['customEndpoint']>) => {
+    setSettings((p) => ({ ...p, customEndpoint: { ...p.customEndpoint, ...update } }));
+    onChange();
+  };
+
+  const updateHeader = (index: number, field: 'name' | 'value', value: string) => {
+    updateEndpoint({ headers: headers.map((h, i) => (i === index ? { ...h, [field]: value } : h)) });
+  };
+
+  const handleFetchModels = async () => {
+    const listModels = getProviderAdapter(LLMProvider.CUSTOM).listModels;
+    if (!listModels) return;
+    setIsFetching(true);
+    setFetchError(null);
+    try {
+      const fetched = await listModels(settings);
+      setSettings((p) => ({
+        ...p,
+        customEndpoint: { ...p.customEndpoint, models: fetched },
+        // Pick the first model if none is set yet, so the endpoint is usable right away.
+        models: { ...p.models, [LLMProvider.CUSTOM]: p.models?.[LLMProvider.CUSTOM] || fetched[0] || '' },
+      }));
+      if (fetched.length === 0) setFetchError('The server did not report any models.');
+    } catch (err) {
+      setFetchError(err instanceof Error ? err.message : 'Could not fetch models.');
+      console.error('Model List Error:', err);
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <>
+      <FormField
+        label="Base URL"
+        htmlFor="custom-endpoint-url"
+        description={`Requests are sent to ${normalizeCustomBaseUrl(baseUrl || '')}/chat/completions.`}
+      >
+        <input
+          type="url"
+          id="custom-endpoint-url"
+          value={baseUrl}
+          onChange={(e) => updateEndpoint({ baseUrl: e.target.value })}
+          className={inputClassName}
+          placeholder="http://localhost:8080/v1"
+        />
+      </FormField>
+      <FormField
+        label="Extra Headers"
+        htmlFor="custom-endpoint-headers"
+        description="Sent with every request, e.g. for a reverse proxy that needs its own token."
+      >
+        <div id="custom-endpoint-headers" className="space-y-2">
+          {headers.map((header, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={header.name}
+                onChange={(e) => updateHeader(index, 'name', e.target.value)}
+                className={inputClassName}
+                placeholder="Header name"
+                aria-label="Header name"
+              />
+              <input
+                type="text"
+                value={header.value}
+                onChange={(e) => updateHeader(index, 'value', e.target.value)}
+                className={inputClassName}
+                placeholder="Value"
+                aria-label="Header value"
+              />
+              <button
+                type="button"
+                onClick={() => updateEndpoint({ headers: headers.filter((_, i) => i !== index) })}
+                className="p-2 text-slate-400 hover:text-ember-400 shrink-0"
+                aria-label="Remove header"
+              >
+                <Icon name="delete" className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => updateEndpoint({ headers: [...headers, { name: '', value: '' }] })}
+            className="flex items-center gap-2 text-sm text-crimson-400 hover:text-crimson-300"
+          >
+            <Icon name="add" className="w-4 h-4" /> Add Header
+          </button>
+        </div>
+      </FormField>
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleFetchModels}
+          disabled={!baseUrl.trim() || isFetching}
+          className="px-4 py-2 text-sm font-semibold border rounded-lg transition-colors shrink-0 flex items-center gap-2 bg-slate-700/50 border-slate-600 hover:bg-slate-700 text-slate-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Icon name="redo" className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+          {isFetching ? 'Fetching...' : 'Fetch Models'}
+        </button>
+        <span className={`text-xs ${fetchError ? 'text-ember-400' : 'text-slate-500'}`}>
+          {fetchError ?? (models.length > 0 ? `${models.length} models available` : 'Fetch the model list from /v1/models.')}
+        </span>
+      </div>
+      <datalist id="custom-endpoint-models">
+        {models.map((m) => (
+          <option key={m} value={m} />
+        ))}
+      </datalist>
+    </>
+  );
+};
+
 interface ProviderConfigProps {
   provider: LLMProvider;
   settings: Settings;
@@ -236,64 +415,33 @@ const ProviderConfig: React.FC<ProviderConfigProps> = ({
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [testMessage, setTestMessage] = useState<string | null>(null);
 
-  const isGemini = provider === LLMProvider.GEMINI;
-  const info = {
-    [LLMProvider.GEMINI]: {
-      description:
-        'Powered by Google. The API key is pre-configured and managed by the environment.',
-      keyLink: 'https://aistudio.google.com/app/apikey',
-    },
-    [LLMProvider.OPENROUTER]: {
-      description:
-        'Access a wide variety of models from different providers through a single API.',
-      keyLink: 'https://openrouter.ai/keys',
-    },
-    [LLMProvider.DEEPSEEK]: {
-      description: 'A specialized model provider focused on code and chat.',
-      keyLink: 'https://platform.deepseek.com/api_keys',
-    },
-  }[provider];
+  const adapter = getProviderAdapter(provider);
+  const showKeyField = !adapter.usesEnvironmentKey;
   
   const handleTestKey = async () => {
     setTestStatus('testing');
     setTestMessage(null);
 
-    const apiKey = settings.apiKeys[provider];
     const model = settings.models?.[provider];
-    const endpoint = API_ENDPOINTS[provider as keyof typeof API_ENDPOINTS];
 
     if (!model) {
         setTestStatus('error');
         setTestMessage('A model name is required to run a test.');
         return;
     }
+    if (!adapter.testConnection) {
+        setTestStatus('error');
+        setTestMessage(`Connection testing is not available for ${provider}.`);
+        return;
+    }
 
     try {
-        const response = await fetch(endpoint, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${apiKey}`,
-            },
-            body: JSON.stringify({
-                model: model,
-                messages: [{ role: 'user', content: 'test' }],
-                max_tokens: 1,
-                stream: false,
-            }),
-        });
-
-        if (response.ok) {
-            setTestStatus('success');
-            setTestMessage('Connection successful!');
-        } else {
-            const errorData = await response.json().catch(() => ({ error: { message: `Request failed with status: ${response.statusText} (${response.status})` } }));
-            setTestStatus('error');
-            setTestMessage(errorData.error?.message || `Invalid key or model name. (Status: ${response.status})`);
-        }
+        await adapter.testConnection(settings, model);
+        setTestStatus('success');
+        setTestMessage('Connection successful!');
     } catch (err) {
         setTestStatus('error');
-        setTestMessage('Network error or invalid endpoint. Check console for details.');
+        setTestMessage(err instanceof Error && err.message ? err.message : 'Network error or invalid endpoint. Check console for details.');
         console.error("API Key Test Error:", err);
     }
   };
@@ -312,10 +460,10 @@ const ProviderConfig: React.FC<ProviderConfigProps> = ({
       </summary>
       <div className="mt-4 space-y-4 border-t border-slate-700/50 pt-4">
         <p className="text-sm text-slate-400">
-          {info.description}{' '}
-          {!isGemini && (
+          {adapter.description}{' '}
+          {showKeyField && adapter.keyLink && (
             <a
-              href={info.keyLink}
+              href={adapter.keyLink}
               target="_blank"
               rel="noopener noreferrer"
               className="text-crimson-400 hover:underline"
@@ -325,13 +473,13 @@ const ProviderConfig: React.FC<ProviderConfigProps> = ({
             </a>
           )}
         </p>
-        {!isGemini && (
+        {showKeyField && (
           <FormField label="API Key" htmlFor={`${provider}-key`}>
             <div className="flex items-center gap-2">
                 <input
                     type="password"
                     id={`${provider}-key`}
-                    value={settings.apiKeys[provider]}
+                    value={settings.apiKeys[provider] ?? ''}
                     onChange={(e) => {
                         setSettings((p) => ({
                             ...p,
@@ -341,12 +489,12 @@ const ProviderConfig: React.FC<ProviderConfigProps> = ({
                         setTestMessage(null);
                     }}
                     className="block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 focus:outline-none sm:text-sm p-3 placeholder:text-slate-600"
-                    placeholder="Enter your API key"
+                    placeholder={adapter.requiresApiKey ? 'Enter your API key' : 'Optional'}
                 />
                 <button
                     type="button"
                     onClick={handleTestKey}
-                    disabled={!settings.apiKeys[provider] || testStatus === 'testing'}
+                    disabled={(adapter.requiresApiKey && !settings.apiKeys[provider]) || testStatus === 'testing'}
                     className={`px-4 py-2 text-sm font-semibold border rounded-lg transition-colors shrink-0 flex items-center gap-2
                         ${testStatus === 'testing' ? 'bg-slate-700/50 border-slate-600 text-slate-300 opacity-75 cursor-not-allowed' : ''}
                         ${testStatus === 'success' ? 'bg-emerald-800/50 border-emerald-600 text-emerald-300' : ''}
@@ -376,10 +524,21 @@ const ProviderConfig: React.FC<ProviderConfigProps> = ({
             </AnimatePresence>
           </FormField>
         )}
+        {provider === LLMProvider.CUSTOM && (
+          <CustomEndpointFields
+            settings={settings}
+            setSettings={setSettings}
+            onChange={() => {
+              setTestStatus('idle');
+              setTestMessage(null);
+            }}
+          />
+        )}
         <FormField label="Model Name" htmlFor={`${provider}-model`}>
           <input
             type="text"
             id={`${provider}-model`}
+            list={provider === LLMProvider.CUSTOM ? 'custom-endpoint-models' : undefined}
             value={settings.models?.[provider] || ''}
             onChange={(e) => {
               setSettings((p) => ({
@@ -390,11 +549,7 @@ const ProviderConfig: React.FC<ProviderConfigProps> = ({
               setTestMessage(null);
             }}
             className="block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 focus:outline-none sm:text-sm p-3 placeholder:text-slate-600"
-            placeholder={
-              isGemini
-                ? 'e.g., gemini-2.5-flash'
-                : 'e.g., gryphe/mythomax-l2-13b'
-            }
+            placeholder={adapter.modelPlaceholder}
             required
           />
         </FormField>
@@ -415,10 +570,27 @@ function ProvidersSection({
       title="Provider Configuration"
       description="Enter your API credentials for each service you wish to use."
     >
-      {Object.values(LLMProvider).map((p) => (
+      <FormField
+        label="Advanced Samplers"
+        htmlFor="global-samplers"
+        description="Leave a field blank to use the provider's default. Samplers a provider doesn't support are not sent to it."
+      >
+        <div id="global-samplers" className="p-4 border border-slate-700 bg-slate-800/50 rounded-lg space-y-3">
+          <SamplerFields
+            idPrefix="global-samplers"
+            value={settings.samplers}
+            onChange={(samplers) => setSettings((p) => ({ ...p, samplers }))}
+            inputClassName={compactInputClassName}
+          />
+          <p className="text-xs text-slate-500">
+            {listProviderAdapters().map(describeSamplerSupport).join(' · ')}
+          </p>
+        </div>
+      </FormField>
+      {listProviderAdapters().map((adapter) => (
         <ProviderConfig
-          key={p}
-          provider={p}
+          key={adapter.id}
+          provider={adapter.id}
           settings={settings}
           setSettings={setSettings}
         />
@@ -427,6 +599,221 @@ function ProvidersSection({
   );
 }
 
+function ConnectionProfileEditor({
+  profile,
+  globalSamplers,
+  onChange,
+  onDelete,
+}: {
+  profile: ConnectionProfile;
+  globalSamplers: SamplerSettings;
+  onChange: (update: Partial<ConnectionProfile>) => void;
+  onDelete: () => void;
+}) {
+  const idPrefix = `profile-${profile.id}`;
+  return (
+    <details className="p-4 border border-slate-700 bg-slate-800/50 rounded-lg group">
+      <summary className="text-md font-semibold text-slate-200 cursor-pointer list-none flex justify-between items-center font-display tracking-wider">
+        <span>
+          {profile.name || 'Untitled Profile'}
+          <span className="ml-2 text-xs font-sans font-normal text-slate-500">
+            {profile.provider} · {profile.model || 'no model'}
+          </span>
+        </span>
+        <Icon
+          name="add"
+          className="w-5 h-5 text-slate-400 group-open:rotate-45 transition-transform"
+        />
+      </summary>
+      <div className="mt-4 space-y-4 border-t border-slate-700/50 pt-4">
+        <FormField label="Profile Name" htmlFor={`${idPrefix}-name`}>
+          <input
+            type="text"
+            id={`${idPrefix}-name`}
+            value={profile.name}
+            onChange={(e) => onChange({ name: e.target.value })}
+            className={inputClassName}
+          />
+        </FormField>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField label="Provider" htmlFor={`${idPrefix}-provider`}>
+            <select
+              id={`${idPrefix}-provider`}
+              value={profile.provider}
+              onChange={(e) => onChange({ provider: e.target.value as LLMProvider })}
+              className={inputClassName}
+            >
+              {listProviderAdapters().map((adapter) => (
+                <option key={adapter.id} value={adapter.id}>{adapter.id}</option>
+              ))}
+            </select>
+          </FormField>
+          <FormField label="Model Name" htmlFor={`${idPrefix}-model`}>
+            <input
+              type="text"
+              id={`${idPrefix}-model`}
+              value={profile.model}
+              onChange={(e) => onChange({ model: e.target.value })}
+              className={inputClassName}
+              placeholder={getProviderAdapter(profile.provider).modelPlaceholder}
+            />
+          </FormField>
+          <FormField label="Temperature" htmlFor={`${idPrefix}-temperature`}>
+            <input
+              type="number"
+              id={`${idPrefix}-temperature`}
+              min="0"
+              max="2"
+              step="0.05"
+              value={profile.temperature}
+              onChange={(e) => onChange({ temperature: parseFloat(e.target.value) || 0 })}
+              className={inputClassName}
+            />
+          </FormField>
+          <FormField label="Max Output Tokens" htmlFor={`${idPrefix}-max-tokens`}>
+            <input
+              type="number"
+              id={`${idPrefix}-max-tokens`}
+              step="256"
+              value={profile.maxOutputTokens}
+              onChange={(e) => onChange({ maxOutputTokens: parseInt(e.target.value, 10) || 0 })}
+              className={inputClassName}
+            />
+          </FormField>
+        </div>
+        <FormField label="Samplers" htmlFor={`${idPrefix}-samplers`} description="Blank fields inherit the global samplers.">
+          <SamplerFields
+            idPrefix={`${idPrefix}-samplers`}
+            value={profile.samplers || {}}
+            onChange={(samplers) => onChange({ samplers })}
+            inherited={globalSamplers}
+            inputClassName={compactInputClassName}
+          />
+        </FormField>
+        <FormField label="System Prompt" htmlFor={`${idPrefix}-system`}>
+          <textarea
+            id={`${idPrefix}-system`}
+            value={profile.systemPrompt}
+            onChange={(e) => onChange({ systemPrompt: e.target.value })}
+            rows={6}
+            className={`${inputClassName} font-mono text-xs leading-loose custom-scrollbar`}
+          />
+        </FormField>
+        <FormField label="Response Prefill" htmlFor={`${idPrefix}-prefill`}>
+          <textarea
+            id={`${idPrefix}-prefill`}
+            value={profile.responsePrefill}
+            onChange={(e) => onChange({ responsePrefill: e.target.value })}
+            rows={2}
+            className={`${inputClassName} font-mono text-xs leading-loose custom-scrollbar`}
+          />
+        </FormField>
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={onDelete}
+            className="px-4 py-2 text-sm font-semibold text-ember-300 bg-ember-800/30 border border-ember-700/50 hover:bg-ember-800/50 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Icon name="delete" className="w-4 h-4" /> Delete Profile
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+function ConnectionProfilesSection({
+  settings,
+  setSettings,
+}: {
+  settings: Settings;
+  setSettings: React.Dispatch<React.SetStateAction<Settings>>;
+}) {
+  const [newProfileName, setNewProfileName] = useState('');
+
+  const handleCreate = () => {
+    const name = newProfileName.trim() || `${settings.provider} Profile`;
+    const profile = createConnectionProfile(settings, name);
+    setSettings((p) => ({ ...p, connectionProfiles: [...p.connectionProfiles, profile] }));
+    setNewProfileName('');
+  };
+
+  const updateProfile = (profileId: string, update: Partial<ConnectionProfile>) => {
+    setSettings((p) => ({
+      ...p,
+      connectionProfiles: p.connectionProfiles.map((profile) =>
+        profile.id === profileId ? { ...profile, ...update } : profile,
+      ),
+    }));
+  };
+
+  const deleteProfile = (profileId: string) => {
+    // Sessions pinned to a deleted profile fall back to the global default.
+    setSettings((p) => ({
+      ...p,
+      connectionProfiles: p.connectionProfiles.filter((profile) => profile.id !== profileId),
+      activeConnectionProfileId: p.activeConnectionProfileId === profileId ? null : p.activeConnectionProfileId,
+    }));
+  };
+
+  return (
+    <SettingsSectionPanel
+      title="Connection Profiles"
+      description="Save provider, model, sampling and prompt combinations, then switch between them globally or pin one to a chat."
+    >
+      <FormField
+        label="Active Profile"
+        htmlFor="activeConnectionProfile"
+        description="Used by every chat that does not pin its own profile."
+      >
+        <select
+          id="activeConnectionProfile"
+          value={settings.activeConnectionProfileId || ''}
+          onChange={(e) => setSettings((p) => ({ ...p, activeConnectionProfileId: e.target.value || null }))}
+          className={inputClassName}
+        >
+          <option value="">(None — use Provider and Prompt settings)</option>
+          {settings.connectionProfiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </FormField>
+      <FormField
+        label="New Profile"
+        htmlFor="newConnectionProfile"
+        description="Captures the current provider, model, temperature, max tokens, samplers, system prompt and prefill."
+      >
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            id="newConnectionProfile"
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            className={inputClassName}
+            placeholder="Profile name"
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            className="px-4 py-2 text-sm font-semibold border rounded-lg transition-colors shrink-0 flex items-center gap-2 bg-slate-700/50 border-slate-600 hover:bg-slate-700 text-slate-300"
+          >
+            <Icon name="add" className="w-4 h-4" /> Save Current
+          </button>
+        </div>
+      </FormField>
+      {settings.connectionProfiles.map((profile) => (
+        <ConnectionProfileEditor
+          key={profile.id}
+          profile={profile}
+          globalSamplers={settings.samplers}
+          onChange={(update) => updateProfile(profile.id, update)}
+          onDelete={() => deleteProfile(profile.id)}
+        />
+      ))}
+    </SettingsSectionPanel>
+  );
+}
+
 function PromptsSection({
   settings,
   setSettings,
@@ -470,6 +857,93 @@ function PromptsSection({
           placeholder='Example: "Understood. I will now reply as dramatically as possible..."'
         />
       </FormField>
+      <FormField
+        label="Prompt Templates"
+        htmlFor="promptTemplates"
+        description="The sections of the system prompt and their order. Characters and worlds can override these."
+      >
+        <div id="promptTemplates" className="space-y-3">
+          {([
+            { kind: 'single', label: 'Single Chat' },
+            { kind: 'group', label: 'Group Chat' },
+          ] as { kind: PromptTemplateKind; label: string }[]).map(({ kind, label }) => (
+            <details key={kind} className="p-4 border border-slate-700 bg-slate-800/50 rounded-lg group">
+              <summary className="text-md font-semibold text-slate-200 cursor-pointer list-none flex justify-between items-center font-display tracking-wider">
+                {label}
+                <Icon
+                  name="add"
+                  className="w-5 h-5 text-slate-400 group-open:rotate-45 transition-transform"
+                />
+              </summary>
+              <div className="mt-4 border-t border-slate-700/50 pt-4">
+                <PromptTemplateEditor
+                  template={settings.promptTemplates[kind]}
+                  onChange={(template) =>
+                    setSettings((p) => ({ ...p, promptTemplates: { ...p.promptTemplates, [kind]: template } }))
+                  }
+                  onReset={() =>
+                    setSettings((p) => ({
+                      ...p,
+                      promptTemplates: { ...p.promptTemplates, [kind]: clonePromptTemplate(DEFAULT_PROMPT_TEMPLATES[kind]) },
+                    }))
+                  }
+                />
+              </div>
+            </details>
+          ))}
+        </div>
+      </FormField>
+      <FormField
+        label="Context Budget"
+        htmlFor="loreShare"
+        description="After reserving space for the response, lore, the conversation summary, recalled past exchanges and the character's example dialogue are capped at these shares of the context. History fills whatever is left, and example dialogue is dropped first when it runs short."
+      >
+        <div className="space-y-3">
+          {([
+            { key: 'loreShare', label: 'Lore' },
+            { key: 'summaryShare', label: 'Summary' },
+            { key: 'recallShare', label: 'Recall' },
+            { key: 'examplesShare', label: 'Examples' },
+          ] as const).map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-3">
+              <label htmlFor={key} className="w-20 text-xs text-slate-400">{label}</label>
+              <input
+                type="range"
+                id={key}
+                min="0"
+                max="0.6"
+                step="0.05"
+                value={settings.contextBudget[key]}
+                onChange={(e) =>
+                  setSettings((p) => ({ ...p, contextBudget: { ...p.contextBudget, [key]: parseFloat(e.target.value) } }))
+                }
+                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer range-thumb"
+              />
+              <span className="text-sm font-mono text-slate-400 w-12 text-center">
+                {Math.round(settings.contextBudget[key] * 100)}%
+              </span>
+            </div>
+          ))}
+        </div>
+      </FormField>
+      <FormField
+        label="Recall Embedding Model"
+        htmlFor="embeddingModel"
+        description={`Past exchanges that no longer fit in the history are searched for ones related to the current scene. With an embedding model they are compared by meaning; otherwise a built-in keyword index is used. ${
+          getProviderAdapter(settings.provider).capabilities.embeddings
+            ? `Uses ${settings.provider}.`
+            : `${settings.provider} offers no embeddings, so the keyword index is used.`
+        }`}
+      >
+        <input
+          type="text"
+          id="embeddingModel"
+          value={settings.embeddingModel}
+          onChange={(e) => setSettings((p) => ({ ...p, embeddingModel: e.target.value }))}
+          placeholder="Blank for the keyword index, e.g. text-embedding-004"
+          className={inputClassName}
+        />
+      </FormField>
     </SettingsSectionPanel>
   );
 }
@@ -590,6 +1064,8 @@ function SettingsModal({ onClose }: SettingsModalProps) {
         return (
           <ProvidersSection settings={settings} setSettings={setSettings} />
         );
+      case 'profiles':
+        return <ConnectionProfilesSection settings={settings} setSettings={setSettings} />;
       case 'prompts':
         return <PromptsSection settings={settings} setSettings={setSettings} />;
       case 'thinking-engine':
@@ -662,6 +1138,12 @@ function SettingsModal({ onClose }: SettingsModalProps) {
                   isActive={activeSection === 'providers'}
                   onClick={() => setActiveSection('providers')}
                 />
+                <SectionButton
+                  icon="cube"
+                  label="Profiles"
+                  isActive={activeSection === 'profiles'}
+                  onClick={() => setActiveSection('profiles')}
+                />
                 <SectionButton
                   icon="edit"
                   label="Prompts"
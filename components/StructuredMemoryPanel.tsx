@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Message, StructuredMemoryFields } from '../types';
+import { Icon } from './Icon';
+import { useChatStore } from '../store/stores/chatStore';
+import { useSettingsStore } from '../store/stores/settingsStore';
+import { createEmptyStructuredMemory, getMessagesSinceUpdate } from '../services/structuredMemoryService';
+
+interface StructuredMemoryPanelProps {
+  sessionId: string;
+  isGroup: boolean;
+}
+
+type Draft = Record<keyof StructuredMemoryFields, string>;
+
+const FIELDS: { key: keyof StructuredMemoryFields; label: string; placeholder: string }[] = [
+  { key: 'userFacts', label: 'Facts About You', placeholder: 'Is a former royal guard' },
+  { key: 'relationships', label: 'Relationships', placeholder: 'Mira: Wary ally since the ambush' },
+  { key: 'inventory', label: 'Inventory', placeholder: 'Silver dagger' },
+  { key: 'plotThreads', label: 'Open Plot Threads', placeholder: 'Who sent the assassin?' },
+];
+
+const toDraft = (fields: StructuredMemoryFields): Draft => ({
+  userFacts: fields.userFacts.join('\n'),
+  relationships: fields.relationships.map((r) => `${r.name}: ${r.state}`).join('\n'),
+  inventory: fields.inventory.join('\n'),
+  plotThreads: fields.plotThreads.join('\n'),
+});
+
+const lines = (text: string) => text.split('\n').map((l) => l.trim()).filter(Boolean);
+
+// Relationships are edited as "Name: state", one per line.
+const fromDraft = (draft: Draft): StructuredMemoryFields => ({
+  userFacts: lines(draft.userFacts),
+  relationships: lines(draft.relationships).map((line) => {
+    const colon = line.indexOf(':');
+    return colon === -1
+      ? { name: line, state: '' }
+      : { name: line.slice(0, colon).trim(), state: line.slice(colon + 1).trim() };
+  }),
+  inventory: lines(draft.inventory),
+  plotThreads: lines(draft.plotThreads),
+});
+
+const inputClassName =
+  'block w-full bg-slate-950 border-2 border-slate-700 rounded-lg shadow-sm focus:ring-crimson-500 focus:border-crimson-500 sm:text-sm p-2';
+
+/**
+ * Lets the user switch on structured memory for a chat, and review or correct the facts,
+ * relationships, inventory and plot threads it has recorded.
+ */
+const StructuredMemoryPanel: React.FC<StructuredMemoryPanelProps> = ({ sessionId, isGroup }) => {
+  const session = useChatStore((state) => (isGroup ? state.groupSessions[sessionId] : state.sessions[sessionId]));
+  const allMessages = useChatStore((state) => state.messages);
+  const { setStructuredMemory, updateStructuredMemory, setSessionStructuredMemoryEnabled } = useChatStore();
+  const interval = useSettingsStore((state) => state.settings.structuredMemoryInterval);
+
+  const record = session?.structuredMemory;
+  const savedDraft = useMemo(() => toDraft(record ?? createEmptyStructuredMemory()), [record]);
+  const [draft, setDraft] = useState<Draft>(savedDraft);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => setDraft(savedDraft), [savedDraft]);
+
+  const turnsSinceUpdate = useMemo(() => {
+    if (!session) return 0;
+    const history = session.messageIds.map((id) => allMessages[id]).filter((m): m is Message => !!m);
+    return getMessagesSinceUpdate(history, session.structuredMemory).filter((m) => m.role === 'user').length;
+  }, [session, allMessages]);
+
+  if (!session) return null;
+
+  const isEnabled = session.structuredMemoryEnabled ?? false;
+  const isDirty = FIELDS.some(({ key }) => draft[key].trim() !== savedDraft[key].trim());
+
+  const handleUpdate = async () => {
+    setIsUpdating(true);
+    await updateStructuredMemory(sessionId, isGroup);
+    setIsUpdating(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label htmlFor="structuredMemoryEnabled" className="flex items-center justify-between cursor-pointer group/toggle p-2 rounded-md hover:bg-slate-800/50">
+        <div>
+          <span className="text-sm font-medium text-slate-300 group-hover/toggle:text-white transition-colors">Structured Memory</span>
+          <p className="text-xs text-slate-500">Track facts, relationships, inventory and plot threads every {interval} turns.</p>
+        </div>
+        <div className="relative">
+          <input
+            type="checkbox"
+            id="structuredMemoryEnabled"
+            checked={isEnabled}
+            onChange={(e) => setSessionStructuredMemoryEnabled(sessionId, e.target.checked, isGroup)}
+            className="sr-only"
+          />
+          <div className={`block w-10 h-6 rounded-full transition-colors ${isEnabled ? 'bg-crimson-500' : 'bg-slate-700'}`}></div>
+          <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${isEnabled ? 'translate-x-4' : ''}`}></div>
+        </div>
+      </label>
+
+      {isEnabled && (
+        <>
+          <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+            <span>
+              {record?.updatedAt ? `Updated ${new Date(record.updatedAt).toLocaleString()}` : 'Not updated yet'}
+              {' · '}
+              {Math.max(interval - turnsSinceUpdate, 0)} turns to next update
+            </span>
+            <button
+              type="button"
+              onClick={handleUpdate}
+              disabled={isUpdating || turnsSinceUpdate === 0}
+              className="flex items-center gap-1 px-2 py-0.5 text-xs text-slate-400 hover:text-white rounded-md hover:bg-slate-700/50 disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+            >
+              <Icon name="brain" className={`w-3.5 h-3.5 ${isUpdating ? 'animate-pulse' : ''}`} />
+              {isUpdating ? 'Updating…' : 'Update Now'}
+            </button>
+          </div>
+
+          {FIELDS.map(({ key, label, placeholder }) => (
+            <div key={key}>
+              <label htmlFor={`structured-memory-${key}`} className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">
+                {label}
+              </label>
+              <textarea
+                id={`structured-memory-${key}`}
+                value={draft[key]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                rows={3}
+                placeholder={`One per line, e.g. ${placeholder}`}
+                className={`${inputClassName} resize-y custom-scrollbar placeholder:text-slate-600`}
+              />
+            </div>
+          ))}
+
+          {isDirty && (
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(savedDraft)}
+                className="px-3 py-1 text-xs font-semibold text-slate-300 rounded-md hover:bg-slate-700/50"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={() => setStructuredMemory(sessionId, fromDraft(draft), isGroup)}
+                className="px-3 py-1 text-xs font-semibold text-white bg-crimson-600 hover:bg-crimson-500 rounded-md"
+              >
+                Save
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StructuredMemoryPanel;
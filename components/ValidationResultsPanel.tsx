@@ -26,6 +26,7 @@ const issueMetadata: Record<ValidationType, { icon: string; color: string; title
   DuplicateContent: { icon: 'alert-triangle', color: 'text-ember-400', title: 'Duplicate Content' },
   InvalidEntry: { icon: 'bug', color: 'text-red-400', title: 'Invalid Entry Data' },
   InconsistentVoice: { icon: 'zap', color: 'text-purple-400', title: 'Inconsistent Voice/Tone' },
+  ImportLoss: { icon: 'import', color: 'text-ember-400', title: 'Not Carried Over From Import' },
 };
 
 const CoherenceScoreRing: React.FC<{ score: number }> = ({ score }) => {
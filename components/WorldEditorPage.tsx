@@ -1,25 +1,29 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { World, WorldEntry, WorldEntryCategory, ValidationIssue, ContentSuggestion, WorldCoherenceReport, AiAnalysisReport } from '../types';
+import { World, WorldEntry, WorldEntryCategory, ValidationIssue, ContentSuggestion, WorldCoherenceReport, AiAnalysisReport, PromptTemplateKind, PromptTemplates, LoreRetrievalWeights, SecondaryKeyLogic } from '../types';
 import { Icon } from './Icon';
 import Avatar from './Avatar';
 import { useWorldStore } from '../store/stores/worldStore';
 import { motion, AnimatePresence } from 'framer-motion';
-import { warmWorldCache } from '../services/llmService';
+import { warmWorldCache } from '../services/loreRetrievalService';
 import { logger } from '../services/logger';
-import { DEFAULT_WORLD_TEMPLATES, WORLD_CATEGORIES } from '../constants';
+import { DEFAULT_LORE_RETRIEVAL_WEIGHTS, DEFAULT_MAX_LORE_ENTRIES, DEFAULT_WORLD_TEMPLATES, WORLD_CATEGORIES } from '../constants';
 import { useUIStore } from '../store/stores/uiStore';
 import { useSettingsStore } from '../store/stores/settingsStore';
 import { Tooltip } from './Tooltip';
 import { validateWorld, runAiAnalysis } from '../services/worldValidationService';
 import ValidationResultsPanel from './ValidationResultsPanel';
-import { LLMProvider } from '../types';
+import { getProviderAdapter, resolveProviderApiKey } from '../services/providers/registry';
 import { useVirtualScroll } from '../hooks/useVirtualScroll';
 import { generateContentSuggestions } from '../services/worldSuggestionService';
+import { clonePromptTemplate } from '../services/promptTemplateService';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import MacroPreview from './MacroPreview';
 
 interface WorldEditorPageProps {
   world: Partial<World> | null;
   onSave: (world: World) => void;
   onClose: () => void;
+  importIssues?: ValidationIssue[]; // Shown when the editor opens, such as settings lost importing a SillyTavern lorebook
 }
 
 const categoryIcons: Record<WorldEntryCategory, string> = {
@@ -169,6 +173,31 @@ const EntryListItem = React.memo(({ entry, isActive, onSelect, onDelete, isSelec
 });
 
 
+type ActivationField = 'priority' | 'insertionDepth' | 'sticky' | 'cooldown' | 'probability';
+
+const ACTIVATION_FIELDS: { field: ActivationField; label: string; placeholder: string; min: number; max?: number; title: string }[] = [
+  { field: 'priority', label: 'Priority', placeholder: '0', min: -100, max: 100, title: 'Higher-priority entries are picked first when more entries trigger than fit.' },
+  { field: 'probability', label: 'Probability (%)', placeholder: '100', min: 0, max: 100, title: 'Chance the entry is injected when it triggers.' },
+  { field: 'insertionDepth', label: 'Insertion Depth', placeholder: 'System prompt', min: 0, title: 'Insert the entry this many messages from the end of the history instead of in the system prompt. 0 places it after the latest message.' },
+  { field: 'sticky', label: 'Sticky (turns)', placeholder: '0', min: 0, title: 'Keep the entry in for this many turns after it triggers.' },
+  { field: 'cooldown', label: 'Cooldown (turns)', placeholder: '0', min: 0, title: "Turns the entry can't trigger again once it drops out." },
+];
+
+const SECONDARY_KEY_LOGIC_OPTIONS: { value: SecondaryKeyLogic; label: string }[] = [
+  { value: 'and-any', label: 'And any' },
+  { value: 'and-all', label: 'And all' },
+  { value: 'not-any', label: 'Not any' },
+  { value: 'not-all', label: 'Not all' },
+];
+
+// Empty fields fall back to the retrieval defaults.
+const parseActivationNumber = (value: string, min: number, max?: number): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Math.round(Number(value));
+  if (Number.isNaN(parsed)) return undefined;
+  return Math.min(Math.max(parsed, min), max ?? Infinity);
+};
+
 const EntryInspectorPanel = React.memo(function EntryInspectorPanel({
   entry,
   allEntries,
@@ -447,6 +476,66 @@ const EntryInspectorPanel = React.memo(function EntryInspectorPanel({
         )}
       </InspectorSection>
 
+      <InspectorSection title="Activation" icon="zap">
+        <div className="grid grid-cols-2 gap-3">
+          {ACTIVATION_FIELDS.map(({ field, label, placeholder, min, max, title }) => (
+            <label key={field} className="block text-xs text-slate-400" title={title}>
+              {label}
+              <input
+                type="number"
+                min={min}
+                max={max}
+                value={entry[field] ?? ''}
+                placeholder={placeholder}
+                onChange={(e) => onEntryChange(entry.id, field, parseActivationNumber(e.target.value, min, max))}
+                className="mt-1 block w-full bg-slate-800 border-2 border-slate-700 rounded-lg p-1.5 text-sm focus:ring-crimson-500 focus:border-crimson-500 placeholder:text-slate-600"
+              />
+            </label>
+          ))}
+        </div>
+        <div>
+          <label htmlFor={`entry-secondary-keys-${entry.id}`} className="block text-xs text-slate-400">
+            Secondary Keys
+          </label>
+          <div className="mt-1 flex gap-2">
+            <select
+              value={entry.secondaryKeyLogic ?? 'and-any'}
+              onChange={(e) => onEntryChange(entry.id, 'secondaryKeyLogic', e.target.value as SecondaryKeyLogic)}
+              aria-label="Secondary key logic"
+              className="bg-slate-800 border-2 border-slate-700 rounded-lg p-1.5 text-sm focus:ring-crimson-500 focus:border-crimson-500"
+            >
+              {SECONDARY_KEY_LOGIC_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              key={entry.id}
+              id={`entry-secondary-keys-${entry.id}`}
+              type="text"
+              defaultValue={(entry.secondaryKeys || []).join(', ')}
+              onBlur={(e) => {
+                const keys = e.target.value.split(',').map((k) => k.trim()).filter(Boolean);
+                onEntryChange(entry.id, 'secondaryKeys', keys.length > 0 ? keys : undefined);
+              }}
+              placeholder="e.g. night, storm"
+              className="flex-grow min-w-0 bg-slate-800 border-2 border-slate-700 rounded-lg p-1.5 text-sm focus:ring-crimson-500 focus:border-crimson-500 placeholder:text-slate-600"
+            />
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            Keyword matches only count when these words are also in the recent messages. Leave empty to always count them.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!entry.noRecursion}
+            onChange={(e) => onEntryChange(entry.id, 'noRecursion', e.target.checked || undefined)}
+            className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-crimson-500 focus:ring-crimson-500"
+          />
+          Don't pull in entries this one mentions
+        </label>
+      </InspectorSection>
+
       <InspectorSection title="Linked Lore" icon="book-open">
         <div className="max-h-64 overflow-y-auto custom-scrollbar p-2 bg-slate-800/50 border-2 border-slate-700 rounded-md">
           {linkedEntries.length > 0 ? (
@@ -479,6 +568,173 @@ const EntryInspectorPanel = React.memo(function EntryInspectorPanel({
 });
 EntryInspectorPanel.displayName = 'EntryInspectorPanel';
 
+const PROMPT_TEMPLATE_KINDS: { kind: PromptTemplateKind; label: string }[] = [
+  { kind: 'single', label: 'Single Chat' },
+  { kind: 'group', label: 'Group Chat' },
+];
+
+const PromptTemplatesPanel: React.FC<{
+  overrides: Partial<PromptTemplates>;
+  globalTemplates: PromptTemplates;
+  onChange: (overrides: Partial<PromptTemplates>) => void;
+  onClose: () => void;
+}> = ({ overrides, globalTemplates, onChange, onClose }) => {
+    const setOverride = (kind: PromptTemplateKind, template: PromptTemplates[PromptTemplateKind] | undefined) => {
+        const next = { ...overrides };
+        if (template) next[kind] = template;
+        else delete next[kind];
+        onChange(next);
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-slate-950/80 z-[60] flex items-center justify-center backdrop-blur-sm"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                exit={{ y: 20, opacity: 0 }}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="prompt-templates-panel-title"
+                className="bg-slate-900 rounded-lg shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col border border-slate-700"
+                onClick={e => e.stopPropagation()}
+            >
+                <header className="p-4 border-b border-slate-800 flex justify-between items-center">
+                    <h2 id="prompt-templates-panel-title" className="text-xl font-bold font-display tracking-widest uppercase">Prompt Templates</h2>
+                    <button type="button" onClick={onClose} aria-label="Close prompt templates" className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-md"><Icon name="close" /></button>
+                </header>
+                <main className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-6">
+                    <p className="text-sm text-slate-400">Chats using this world follow these templates instead of the global ones. A character's own template still takes precedence in single chats.</p>
+                    {PROMPT_TEMPLATE_KINDS.map(({ kind, label }) => (
+                        <div key={kind} className="space-y-3">
+                            <label className="flex items-center gap-2 text-sm font-semibold text-slate-200 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={!!overrides[kind]}
+                                    onChange={e => setOverride(kind, e.target.checked ? clonePromptTemplate(globalTemplates[kind]) : undefined)}
+                                    className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-crimson-500 focus:ring-crimson-500"
+                                />
+                                Override {label} Template
+                            </label>
+                            {overrides[kind] && (
+                                <PromptTemplateEditor
+                                    template={overrides[kind]!}
+                                    onChange={template => setOverride(kind, template)}
+                                    onReset={() => setOverride(kind, clonePromptTemplate(globalTemplates[kind]))}
+                                />
+                            )}
+                        </div>
+                    ))}
+                </main>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+const RETRIEVAL_SIGNALS: { key: keyof LoreRetrievalWeights; label: string; description: string }[] = [
+    { key: 'keyword', label: 'Keyword Matches', description: 'Keys found in recent messages and personas, and entries linked to the active characters.' },
+    { key: 'fullText', label: 'Full-Text Relevance', description: "How closely an entry's name and content relate to the latest messages, even without a key match. Compared by meaning when an embedding model is set." },
+    { key: 'alwaysActive', label: 'Always Active', description: 'Entries marked always active.' },
+    { key: 'interaction', label: 'Your Interest', description: 'Entries you have opened often.' },
+];
+
+type RetrievalLimits = Pick<World, 'maxLoreEntries' | 'loreRecursionDepth'>;
+
+const RETRIEVAL_LIMITS: { key: keyof RetrievalLimits; label: string; description: string; min: number; max: number; fallback: number }[] = [
+    { key: 'maxLoreEntries', label: 'Max Entries', description: 'The most entries sent with one message. Entries with a higher priority are picked first.', min: 1, max: 30, fallback: DEFAULT_MAX_LORE_ENTRIES },
+    { key: 'loreRecursionDepth', label: 'Recursion Depth', description: "How many times chosen entries may pull in the entries whose keywords they mention. 0 turns recursion off.", min: 0, max: 5, fallback: 0 },
+];
+
+const RetrievalWeightsPanel: React.FC<{
+  weights: LoreRetrievalWeights;
+  limits: RetrievalLimits;
+  onChange: (weights: LoreRetrievalWeights | undefined) => void;
+  onLimitsChange: (limits: RetrievalLimits) => void;
+  onClose: () => void;
+}> = ({ weights, limits, onChange, onLimitsChange, onClose }) => (
+    <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-slate-950/80 z-[60] flex items-center justify-center backdrop-blur-sm"
+        onClick={onClose}
+    >
+        <motion.div
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: 20, opacity: 0 }}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="retrieval-weights-panel-title"
+            className="bg-slate-900 rounded-lg shadow-2xl w-full max-w-xl max-h-[80vh] flex flex-col border border-slate-700"
+            onClick={e => e.stopPropagation()}
+        >
+            <header className="p-4 border-b border-slate-800 flex justify-between items-center">
+                <h2 id="retrieval-weights-panel-title" className="text-xl font-bold font-display tracking-widest uppercase">Lore Retrieval</h2>
+                <button type="button" onClick={onClose} aria-label="Close lore retrieval" className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-md"><Icon name="close" /></button>
+            </header>
+            <main className="flex-1 overflow-y-auto p-6 custom-scrollbar space-y-5">
+                <p className="text-sm text-slate-400">How much each signal counts when choosing the entries sent with a message. 1× is the usual strength; 0× ignores the signal.</p>
+                {RETRIEVAL_SIGNALS.map(({ key, label, description }) => (
+                    <div key={key}>
+                        <div className="flex items-center gap-3">
+                            <label htmlFor={`retrieval-${key}`} className="w-44 text-sm font-semibold text-slate-200">{label}</label>
+                            <input
+                                type="range"
+                                id={`retrieval-${key}`}
+                                min="0"
+                                max="3"
+                                step="0.25"
+                                value={weights[key]}
+                                onChange={e => onChange({ ...weights, [key]: parseFloat(e.target.value) })}
+                                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer range-thumb"
+                            />
+                            <span className="text-sm font-mono text-slate-400 w-12 text-center">{weights[key]}×</span>
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">{description}</p>
+                    </div>
+                ))}
+                {RETRIEVAL_LIMITS.map(({ key, label, description, min, max, fallback }) => (
+                    <div key={key}>
+                        <div className="flex items-center gap-3">
+                            <label htmlFor={`retrieval-${key}`} className="w-44 text-sm font-semibold text-slate-200">{label}</label>
+                            <input
+                                type="range"
+                                id={`retrieval-${key}`}
+                                min={min}
+                                max={max}
+                                step="1"
+                                value={limits[key] ?? fallback}
+                                onChange={e => onLimitsChange({ ...limits, [key]: parseInt(e.target.value, 10) })}
+                                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer range-thumb"
+                            />
+                            <span className="text-sm font-mono text-slate-400 w-12 text-center">{limits[key] ?? fallback}</span>
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">{description}</p>
+                    </div>
+                ))}
+            </main>
+            <footer className="p-4 border-t border-slate-800 flex justify-end">
+                <button
+                    type="button"
+                    onClick={() => {
+                        onChange(undefined);
+                        onLimitsChange({});
+                    }}
+                    className="px-3 py-1.5 text-sm font-semibold text-slate-300 hover:bg-slate-700/50 rounded-md"
+                >
+                    Reset to Defaults
+                </button>
+            </footer>
+        </motion.div>
+    </motion.div>
+);
+
 const SuggestionsPanel: React.FC<{
   suggestions: ContentSuggestion[];
   onClose: () => void;
@@ -673,6 +929,7 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
   world,
   onSave,
   onClose,
+  importIssues,
 }) => {
   const requestConfirmation = useUIStore(state => state.requestConfirmation);
   const settings = useSettingsStore(state => state.settings);
@@ -694,6 +951,9 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
   const [includeAiCheck, setIncludeAiCheck] = useState(false);
   const [isCheckingConsistency, setIsCheckingConsistency] = useState(false);
   const [isQuickJumpOpen, setIsQuickJumpOpen] = useState(false);
+  const [isPromptTemplatesOpen, setIsPromptTemplatesOpen] = useState(false);
+  const [isRetrievalWeightsOpen, setIsRetrievalWeightsOpen] = useState(false);
+  const globalPromptTemplates = useSettingsStore((state) => state.settings.promptTemplates);
   const tagInputRef = useRef<HTMLInputElement>(null);
   const [isSuggestionsPanelOpen, setIsSuggestionsPanelOpen] = useState(false);
   const [suggestions, setSuggestions] = useState<ContentSuggestion[]>([]);
@@ -731,9 +991,9 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
         setActiveEntryId(processedEntries[0].id);
       else setActiveEntryId(null);
     }
-    setIsValidationPanelOpen(false);
-    setValidationIssues([]);
-  }, [world]);
+    setIsValidationPanelOpen(!!importIssues?.length);
+    setValidationIssues(importIssues || []);
+  }, [world, importIssues]);
 
   useEffect(() => {
     if (activeEntryId) {
@@ -874,6 +1134,10 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
       tags: formData.tags,
       createdAt: formData.createdAt,
       lastModified: formData.lastModified,
+      promptTemplates: formData.promptTemplates && Object.keys(formData.promptTemplates).length > 0 ? formData.promptTemplates : undefined,
+      retrievalWeights: formData.retrievalWeights,
+      maxLoreEntries: formData.maxLoreEntries,
+      loreRecursionDepth: formData.loreRecursionDepth,
     };
     onSave(worldToSave);
   }, [formData, onSave]);
@@ -972,14 +1236,14 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
     if (includeAiCheck) {
         setIsCheckingConsistency(true);
         try {
-            const { provider, apiKeys, models } = settings;
-            const apiKey = provider === LLMProvider.GEMINI ? (process.env.API_KEY || '') : apiKeys[provider];
+            const { provider, models } = settings;
+            const apiKey = resolveProviderApiKey(settings);
             const model = models?.[provider];
-            if (!model || !apiKey) {
+            if (!model || (getProviderAdapter(provider).requiresApiKey && !apiKey)) {
                 throw new Error(`API key or model is not configured for ${provider}. Please check your settings.`);
             }
 
-            const aiReport = await runAiAnalysis({ world: currentWorld, provider, apiKey, model });
+            const aiReport = await runAiAnalysis({ world: currentWorld, provider, apiKey, model, settings });
             allIssues = [...allIssues, ...aiReport.issues];
             setCoherenceReport(aiReport.coherence || null);
         } catch (error) {
@@ -1009,10 +1273,10 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
     setIsAnalyzing(true);
     setSuggestions([]);
     try {
-        const { provider, apiKeys, models } = settings;
-        const apiKey = provider === LLMProvider.GEMINI ? (process.env.API_KEY || '') : apiKeys[provider];
+        const { provider, models } = settings;
+        const apiKey = resolveProviderApiKey(settings);
         const model = models?.[provider];
-        if (!model || (provider !== LLMProvider.GEMINI && !apiKey)) {
+        if (!model || (getProviderAdapter(provider).requiresApiKey && !apiKey)) {
             throw new Error(`API key or model is not configured for ${provider}. Please check your settings.`);
         }
         
@@ -1021,6 +1285,7 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
             provider,
             apiKey,
             model,
+            settings,
         });
         setSuggestions(generatedSuggestions);
         setIsSuggestionsPanelOpen(true);
@@ -1304,6 +1569,7 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
                         placeholder="Enter lore content here... You can use markdown for bold and italics."
                       />
                     </div>
+                    <MacroPreview text={activeEntry.content || ''} className="m-4 max-h-48 overflow-y-auto custom-scrollbar shrink-0" />
                   </>
                 ) : (
                   <div className="h-full flex items-center justify-center text-slate-600 text-center">
@@ -1353,6 +1619,22 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
                   <Icon name="sparkles" className={`w-4 h-4 ${isAnalyzing ? 'animate-spin' : ''}`} />
                   {isAnalyzing ? 'Analyzing...' : 'AI Suggestions'}
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setIsPromptTemplatesOpen(true)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md transition-colors border border-slate-600"
+                >
+                  <Icon name="code" className="w-4 h-4" />
+                  Prompt Templates{formData.promptTemplates && Object.keys(formData.promptTemplates).length > 0 ? ' •' : ''}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsRetrievalWeightsOpen(true)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md transition-colors border border-slate-600"
+                >
+                  <Icon name="sliders" className="w-4 h-4" />
+                  Retrieval{formData.retrievalWeights || formData.maxLoreEntries !== undefined || formData.loreRecursionDepth ? ' •' : ''}
+                </button>
                 <label className="flex items-center gap-2 cursor-pointer text-sm text-slate-400 hover:text-white">
                     <input 
                         type="checkbox"
@@ -1391,6 +1673,19 @@ const WorldEditorPage: React.FC<WorldEditorPageProps> = ({
                     }}
                     onClose={() => setIsQuickJumpOpen(false)}
                 />}
+                {isPromptTemplatesOpen && <PromptTemplatesPanel
+                    overrides={formData.promptTemplates || {}}
+                    globalTemplates={globalPromptTemplates}
+                    onChange={(promptTemplates) => setFormData((p) => ({ ...p, promptTemplates }))}
+                    onClose={() => setIsPromptTemplatesOpen(false)}
+                />}
+                {isRetrievalWeightsOpen && <RetrievalWeightsPanel
+                    weights={formData.retrievalWeights || DEFAULT_LORE_RETRIEVAL_WEIGHTS}
+                    limits={{ maxLoreEntries: formData.maxLoreEntries, loreRecursionDepth: formData.loreRecursionDepth }}
+                    onChange={(retrievalWeights) => setFormData((p) => ({ ...p, retrievalWeights }))}
+                    onLimitsChange={(limits) => setFormData((p) => ({ ...p, maxLoreEntries: limits.maxLoreEntries, loreRecursionDepth: limits.loreRecursionDepth }))}
+                    onClose={() => setIsRetrievalWeightsOpen(false)}
+                />}
             </AnimatePresence>
           </form>
         </motion.div>
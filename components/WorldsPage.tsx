@@ -1,11 +1,12 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { World, WorldTemplate } from '../types';
+import { ValidationIssue, World, WorldTemplate } from '../types';
 import { Icon } from './Icon';
 import Avatar from './Avatar';
 import WorldEditorPage from './WorldEditorPage';
 import { useWorldStore } from '../store/stores/worldStore';
 import { motion, AnimatePresence } from 'framer-motion';
-import { warmWorldCache } from '../services/llmService';
+import { warmWorldCache } from '../services/loreRetrievalService';
+import { isCharacterBook, isWorldInfo, worldFromCharacterBook, worldFromWorldInfo, worldToWorldInfo } from '../services/worldInfoService';
 import { logger } from '../services/logger';
 import { DEFAULT_WORLD_TEMPLATES, WORLD_CATEGORIES } from '../constants';
 import AIWorldEditor from './AIWorldEditor';
@@ -249,6 +250,7 @@ const WorldsPage: React.FC<WorldsPageProps> = ({ onClose }) => {
   const [isAiEditorOpen, setIsAiEditorOpen] = useState(false);
   const [isTemplateModalOpen, setTemplateModalOpen] = useState(false);
   const [editingWorld, setEditingWorld] = useState<Partial<World> | null>(null);
+  const [importIssues, setImportIssues] = useState<ValidationIssue[] | undefined>();
   const [selectedWorldIds, setSelectedWorldIds] = useState<Set<string>>(new Set());
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -300,6 +302,12 @@ const WorldsPage: React.FC<WorldsPageProps> = ({ onClose }) => {
     setIsEditorOpen(false);
     setIsAiEditorOpen(false);
     setEditingWorld(null);
+    setImportIssues(undefined);
+  };
+
+  const handleCloseEditor = () => {
+    setIsEditorOpen(false);
+    setImportIssues(undefined);
   };
 
   const handleToggleWorldSelection = (worldId: string) => {
@@ -319,6 +327,7 @@ const WorldsPage: React.FC<WorldsPageProps> = ({ onClose }) => {
     }
   };
 
+  // Accepts this app's own export (an array of worlds), SillyTavern World Info files and card lorebooks.
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -328,8 +337,26 @@ const WorldsPage: React.FC<WorldsPageProps> = ({ onClose }) => {
           const imported = JSON.parse(e.target?.result as string);
           if (Array.isArray(imported) && imported.every((item) => item && 'id' in item && 'name' in item && 'entries' in item)) {
             importWorlds(imported);
+            return;
+          }
+          const fileName = file.name.replace(/\.json$/i, '');
+          const converted = isWorldInfo(imported)
+            ? worldFromWorldInfo(imported, fileName)
+            : isCharacterBook(imported)
+              ? worldFromCharacterBook(imported, fileName)
+              : null;
+          if (!converted) {
+            alert('Invalid world file format. Expected an array of world objects or a SillyTavern lorebook.');
+            return;
+          }
+          saveWorld(converted.world);
+          if (converted.issues.length > 0) {
+            // Open the new world with a report of what didn't carry over.
+            setEditingWorld(converted.world);
+            setImportIssues(converted.issues);
+            setIsEditorOpen(true);
           } else {
-            alert('Invalid world file format. Expected an array of world objects.');
+            alert(`Imported "${converted.world.name}" with ${converted.world.entries.length} entries.`);
           }
         } catch (error) {
           alert('Failed to parse world file. Ensure it is valid JSON.');
@@ -379,6 +406,30 @@ const WorldsPage: React.FC<WorldsPageProps> = ({ onClose }) => {
     }
   };
   
+  // World Info files hold one world each, so every selected world gets its own file.
+  const handleExportSelectedAsWorldInfo = () => {
+    if (selectedWorldIds.size === 0) {
+      alert('No worlds selected to export.');
+      return;
+    }
+    try {
+      for (const world of worlds.filter((w) => selectedWorldIds.has(w.id))) {
+        const filename = `${world.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_sillytavern.json`;
+        const blob = new Blob([JSON.stringify(worldToWorldInfo(world), null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }
+    } catch (err) {
+      alert(`Error exporting worlds for SillyTavern: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
   const handleExportSelectedAsText = () => {
     if (selectedWorldIds.size === 0) {
       alert('No worlds selected to export.');
@@ -517,13 +568,14 @@ const WorldsPage: React.FC<WorldsPageProps> = ({ onClose }) => {
               <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md transition-colors border border-slate-600"><Icon name="import" className="w-4 h-4" /> Import</button>
               <button onClick={handleExportSelectedWorlds} disabled={selectedWorldIds.size === 0} className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md transition-colors border border-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"><Icon name="export" className="w-4 h-4" /> {selectedWorldIds.size > 0 ? `Export JSON (${selectedWorldIds.size})` : 'Export JSON'}</button>
               <button onClick={handleExportSelectedAsText} disabled={selectedWorldIds.size === 0} className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md transition-colors border border-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"><Icon name="export" className="w-4 h-4" /> Export Text</button>
+              <button onClick={handleExportSelectedAsWorldInfo} disabled={selectedWorldIds.size === 0} className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-md transition-colors border border-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"><Icon name="export" className="w-4 h-4" /> Export SillyTavern</button>
             </div>
             <button onClick={() => setTemplateModalOpen(true)} className="px-4 py-2 text-sm font-semibold text-white bg-crimson-600 hover:bg-crimson-500 rounded-lg transition-colors border border-crimson-400/50 shadow-md shadow-crimson-900/50">Create New World</button>
           </footer>
         </motion.div>
       </motion.div>
       <AnimatePresence>
-        {isEditorOpen && (<WorldEditorPage world={editingWorld} onSave={handleSave} onClose={() => setIsEditorOpen(false)} />)}
+        {isEditorOpen && (<WorldEditorPage world={editingWorld} onSave={handleSave} onClose={handleCloseEditor} importIssues={importIssues} />)}
         {isAiEditorOpen && (<AIWorldEditor world={editingWorld} onSave={handleSave} onClose={() => setIsAiEditorOpen(false)} />)}
         {isTemplateModalOpen && (<TemplateSelectionModal onSelect={handleCreateFromTemplate} onSelectAi={handleCreateWithAi} onClose={() => setTemplateModalOpen(false)} />)}
       </AnimatePresence>
@@ -1,4 +1,4 @@
-import { Character, Settings, LLMProvider, Persona, ThinkingDepth, WorldTemplate, WorldEntryCategory } from './types';
+import { Character, Settings, LLMProvider, Persona, ThinkingDepth, WorldTemplate, WorldEntryCategory, PromptTemplates, LoreRetrievalWeights, StructuredPersona } from './types';
 
 export const GM_CHARACTER_ID = 'system-gm';
 
@@ -20,6 +20,7 @@ Core Responsibilities:
 4.  **React to Player Actions:** The world must react logically and dynamically to the player's choices. Describe the consequences of their actions, both immediate and long-term.
 5.  **Maintain Neutrality:** You are not an adversary. Your goal is to facilitate a compelling story, not to "win" against the player. Be fair but firm with the rules of the world.
 6.  **Drive the Narrative:** Gently guide the story forward, but allow the player's choices to be the primary driver of the plot.
+7.  **Honor the Dice:** The player can roll dice, flip coins and pick options with chat commands. Each result arrives as a "[Dice result, ...]" message. These results are real and final: never reroll, ignore or alter them, and narrate the outcome they dictate. When an action's success is uncertain, ask the player to roll (e.g. "Roll /roll 1d20+2 to climb the wall.") instead of deciding it yourself.
 
 You will never speak as a character yourself unless you are quoting an NPC. Your entire response should be a description of the world and events from a third-person narrative perspective.`,
   isImmutable: true,
@@ -36,6 +37,15 @@ export const DEFAULT_CHARACTER: Character = {
     'You are Clara, a brave and witty archaeologist and explorer. You speak with a mix of 1930s slang and educated archaeological terminology. You are perpetually optimistic, resourceful, and always ready for an adventure. You are talking to your trusted companion and fellow adventurer. Address them as such and engage them in a thrilling narrative.',
 };
 
+/** The headings a character's persona is split into by the character editor, in order. */
+export const PERSONA_HEADERS: { [key in keyof StructuredPersona]: string } = {
+  appearance: 'Appearance:',
+  personality: 'Personality:',
+  speakingStyle: 'Speaking style:',
+  background: 'Background:',
+  motivations: 'Motivations:',
+};
+
 export const DEFAULT_USER_PERSONA: Persona = {
   id: 'user-persona-default',
   name: 'Flugel',
@@ -91,28 +101,257 @@ Remember: Create an immersive experience that draws the user deeper into the wor
 
 export const DEFAULT_TEMPERATURE = 0.8;
 
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplates = {
+  single: {
+    sections: [
+      {
+        id: 'core',
+        name: 'Core Instructions',
+        budgetSection: 'system',
+        enabled: true,
+        content: '### CORE INSTRUCTIONS & GUIDELINES ###\n\n{{system}}',
+      },
+      {
+        id: 'user-persona',
+        name: 'User Persona',
+        budgetSection: 'persona',
+        enabled: true,
+        content: `### USER PERSONA ###
+
+This is the persona of the user you are roleplaying with. Keep their details in mind for your responses.
+
+- **Name:** {{user}}
+
+- **Description:** {{persona}}`,
+      },
+      {
+        id: 'summary',
+        name: 'Conversation Summary',
+        budgetSection: 'summary',
+        enabled: true,
+        content: `### CONVERSATION SUMMARY ###
+
+This is a summary of the conversation so far. Use it to maintain context and continuity.
+
+---
+{{summary}}
+---`,
+      },
+      {
+        id: 'structured-memory',
+        name: 'Structured Memory',
+        budgetSection: 'memory',
+        enabled: true,
+        content: `### STRUCTURED MEMORY ###
+
+These are the established facts of the story so far. Stay consistent with them.
+
+{{memory}}`,
+      },
+      {
+        id: 'recalled-memories',
+        name: 'Recalled Memories',
+        budgetSection: 'recall',
+        enabled: true,
+        content: `### RECALLED MEMORIES ###
+
+These earlier exchanges have left the conversation history but relate to the current scene. Treat them as things that already happened.
+
+{{recall}}`,
+      },
+      {
+        id: 'lore',
+        name: 'World Lore',
+        budgetSection: 'lore',
+        enabled: true,
+        content: `### RELEVANT WORLD LORE ###
+
+The following lore entries are relevant to the current scene. You MUST consult them for context and consistency.
+
+{{lore}}`,
+      },
+      {
+        id: 'character',
+        name: 'Character',
+        budgetSection: 'character',
+        enabled: true,
+        content: `### YOUR CHARACTER ###
+
+This is your character's persona for this scene. You must fully embody this character.
+
+{{description}}`,
+      },
+      {
+        id: 'scenario',
+        name: 'Scenario',
+        budgetSection: 'character',
+        enabled: true,
+        content: `### SCENARIO ###
+
+{{scenario}}`,
+      },
+      {
+        id: 'example-dialogue',
+        name: 'Example Dialogue',
+        budgetSection: 'examples',
+        enabled: true,
+        content: `### EXAMPLE DIALOGUE ###
+
+These exchanges show how your character speaks and behaves. Match their voice and style, not their content.
+
+{{examples}}`,
+      },
+    ],
+  },
+  group: {
+    sections: [
+      {
+        id: 'director',
+        name: 'Scene Director',
+        budgetSection: 'system',
+        enabled: true,
+        content: `### CORE INSTRUCTIONS: GROUP SCENE DIRECTOR ###
+
+You are a master storyteller and scene director for a multi-character roleplay. Your task is to advance the scene based on the latest user message and the established context. You must direct the characters, deciding who speaks or acts. You can have one or multiple characters act in a single turn. You can also include narrative descriptions.`,
+      },
+      {
+        id: 'scene',
+        name: 'Scene Details',
+        budgetSection: 'system',
+        enabled: true,
+        content: `### SCENE DETAILS ###
+
+**Scenario:** {{scenario}}
+
+**Characters in Scene:** {{char}}`,
+      },
+      {
+        id: 'guidelines',
+        name: 'Roleplay Guidelines',
+        budgetSection: 'system',
+        enabled: true,
+        content: '### ROLEPLAY GUIDELINES ###\n\n{{system}}',
+      },
+      {
+        id: 'user-persona',
+        name: 'User Persona',
+        budgetSection: 'persona',
+        enabled: true,
+        content: `### USER PERSONA ###
+
+This is the persona of the user you are roleplaying with.
+
+- **Name:** {{user}}
+
+- **Description:** {{persona}}`,
+      },
+      {
+        id: 'summary',
+        name: 'Conversation Summary',
+        budgetSection: 'summary',
+        enabled: true,
+        content: `### CONVERSATION SUMMARY ###
+
+This is a summary of the conversation so far.
+
+---
+{{summary}}
+---`,
+      },
+      {
+        id: 'structured-memory',
+        name: 'Structured Memory',
+        budgetSection: 'memory',
+        enabled: true,
+        content: `### STRUCTURED MEMORY ###
+
+These are the established facts of the story so far. Stay consistent with them.
+
+{{memory}}`,
+      },
+      {
+        id: 'recalled-memories',
+        name: 'Recalled Memories',
+        budgetSection: 'recall',
+        enabled: true,
+        content: `### RECALLED MEMORIES ###
+
+These earlier exchanges have left the conversation history but relate to the current scene. Treat them as things that already happened.
+
+{{recall}}`,
+      },
+      {
+        id: 'lore',
+        name: 'World Lore',
+        budgetSection: 'lore',
+        enabled: true,
+        content: `### RELEVANT WORLD LORE ###
+
+The following lore entries are relevant. You MUST consult them for context and consistency.
+
+{{lore}}`,
+      },
+      {
+        id: 'characters',
+        name: 'Character Personas',
+        budgetSection: 'character',
+        enabled: true,
+        content: `### FULL CHARACTER PERSONAS ###
+
+This is a reference for all characters in the scene. Use it to ensure their actions and dialogue are in-character.
+
+{{description}}`,
+      },
+    ],
+  },
+};
+
+export const DEFAULT_LORE_RETRIEVAL_WEIGHTS: LoreRetrievalWeights = {
+  keyword: 1,
+  fullText: 1,
+  alwaysActive: 1,
+  interaction: 1,
+};
+
+/** The most lore entries injected into one prompt, unless the world sets its own limit. */
+export const DEFAULT_MAX_LORE_ENTRIES = 7;
+
 export const DEFAULT_SETTINGS: Settings = {
   provider: LLMProvider.GEMINI,
-  apiKeys: {
-    [LLMProvider.GEMINI]: '',
-    [LLMProvider.OPENROUTER]: '',
-    [LLMProvider.DEEPSEEK]: '',
-  },
+  apiKeys: {},
   models: {
     [LLMProvider.GEMINI]: 'gemini-2.5-flash',
     [LLMProvider.OPENROUTER]: OPENROUTER_MODELS.DEFAULT,
     [LLMProvider.DEEPSEEK]: DEEPSEEK_MODELS.DEFAULT,
   },
+  customEndpoint: {
+    baseUrl: 'http://localhost:8080/v1',
+    headers: [],
+    models: [],
+  },
+  connectionProfiles: [],
+  activeConnectionProfileId: null,
   systemPrompt: DEFAULT_SYSTEM_PROMPT,
   responsePrefill: '',
   contextSize: 8192,
   maxOutputTokens: 2048,
+  contextBudget: {
+    loreShare: 0.25,
+    summaryShare: 0.15,
+    recallShare: 0.1,
+    examplesShare: 0.1,
+  },
+  promptTemplates: DEFAULT_PROMPT_TEMPLATES,
   temperature: DEFAULT_TEMPERATURE,
+  samplers: {},
   worldId: null,
   thinkingEnabled: false,
   showThinking: true,
   thinkingDepth: ThinkingDepth.MEDIUM,
   thinkingTimeout: 15000,
+  swipeCount: 3,
+  structuredMemoryInterval: 5,
+  embeddingModel: '',
 };
 
 export const API_ENDPOINTS = {
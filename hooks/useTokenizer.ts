@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { getTokenizer, preloadTokenizer, Tokenizer } from '../services/tokenizerService';
+
+/**
+ * A hook that returns the tokenizer for a model, upgrading from the heuristic
+ * to the real encoding once it has finished loading.
+ * @param model The model name.
+ * @returns The best tokenizer currently available for the model.
+ */
+export const useTokenizer = (model: string): Tokenizer => {
+  const [tokenizer, setTokenizer] = useState<Tokenizer>(() => getTokenizer(model));
+
+  useEffect(() => {
+    let cancelled = false;
+    setTokenizer(getTokenizer(model));
+    preloadTokenizer(model).then(() => {
+      if (!cancelled) setTokenizer(getTokenizer(model));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [model]);
+
+  return tokenizer;
+};
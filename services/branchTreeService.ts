@@ -0,0 +1,149 @@
+import { ForkOrigin, Message } from '../types';
+
+/** The parts of a single or group session the branch tree is built from. */
+export interface BranchSource {
+  id: string;
+  title: string;
+  messageIds: string[];
+  forkedFrom?: ForkOrigin;
+}
+
+/** A message, unique to its branch, whose unused swipes are branches that were never forked into a session of their own. */
+export interface SwipePoint {
+  messageId: string;
+  /** Position of the message in its session. */
+  index: number;
+  count: number;
+}
+
+export interface BranchNode {
+  sessionId: string;
+  title: string;
+  /** Number of leading messages shared with the parent branch. 0 for a root. */
+  sharedCount: number;
+  /** The last message shared with the parent branch, or `null` for a root. */
+  forkMessageId: string | null;
+  messageCount: number;
+  lastTimestamp: number;
+  swipePoints: SwipePoint[];
+  children: BranchNode[];
+}
+
+/** Two branches split at the point where they stop sharing messages. */
+export interface BranchComparison {
+  sharedIds: string[];
+  leftIds: string[];
+  rightIds: string[];
+}
+
+const sharedPrefixLength = (a: string[], b: string[]): number => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+};
+
+/**
+ * Finds the parent of a session. Forks made since fork links were recorded name their parent.
+ * Older forks are recognised by the message ids they share with an earlier session: forking
+ * copies the parent's message ids rather than the messages, and sessions started from scratch
+ * never share any.
+ */
+const findParent = (
+  source: BranchSource,
+  earlier: BranchSource[],
+  byId: Map<string, BranchSource>,
+): { parent: BranchSource; sharedCount: number } | null => {
+  const linked = source.forkedFrom && byId.get(source.forkedFrom.sessionId);
+  if (linked && linked.id !== source.id) {
+    const forkIndex = linked.messageIds.indexOf(source.forkedFrom!.messageId);
+    const sharedCount = forkIndex !== -1 ? forkIndex + 1 : sharedPrefixLength(linked.messageIds, source.messageIds);
+    return { parent: linked, sharedCount };
+  }
+
+  let best: { parent: BranchSource; sharedCount: number } | null = null;
+  for (const candidate of earlier) {
+    const sharedCount = sharedPrefixLength(candidate.messageIds, source.messageIds);
+    if (sharedCount > (best?.sharedCount ?? 0)) best = { parent: candidate, sharedCount };
+  }
+  return best;
+};
+
+const isAncestor = (ancestorId: string, id: string, parents: Map<string, string>): boolean => {
+  for (let current = parents.get(id); current; current = parents.get(current)) {
+    if (current === ancestorId) return true;
+  }
+  return false;
+};
+
+const lastTimestampOf = (source: BranchSource, messages: Record<string, Message>): number => {
+  for (let i = source.messageIds.length - 1; i >= 0; i--) {
+    const timestamp = messages[source.messageIds[i]]?.timestamp;
+    if (timestamp) return timestamp;
+  }
+  return 0;
+};
+
+/**
+ * Arranges sessions into trees of forks. Children are ordered by where they branch off,
+ * roots by most recent activity.
+ * @param sessions The sessions to arrange, oldest first. Only earlier sessions are considered
+ * as parents of a fork that predates fork links.
+ * @param messages All messages, used for swipe counts and timestamps.
+ * @returns The root branches.
+ */
+export function buildBranchForest(sessions: BranchSource[], messages: Record<string, Message>): BranchNode[] {
+  const byId = new Map(sessions.map((s) => [s.id, s]));
+  const parents = new Map<string, string>();
+  const nodes = new Map<string, BranchNode>();
+
+  sessions.forEach((source, index) => {
+    const found = findParent(source, sessions.slice(0, index), byId);
+    // A corrupt link could point a session at its own descendant; such a session becomes a root instead.
+    const parent = found && !isAncestor(source.id, found.parent.id, parents) ? found : null;
+    if (parent) parents.set(source.id, parent.parent.id);
+
+    nodes.set(source.id, {
+      sessionId: source.id,
+      title: source.title,
+      sharedCount: parent?.sharedCount ?? 0,
+      forkMessageId: parent && parent.sharedCount > 0 ? source.messageIds[parent.sharedCount - 1] ?? null : null,
+      messageCount: source.messageIds.length,
+      lastTimestamp: lastTimestampOf(source, messages),
+      // Swipes on shared messages are already listed on the parent.
+      swipePoints: source.messageIds.flatMap((messageId, i) => {
+        const count = messages[messageId]?.alternates?.ids.length ?? 0;
+        return count > 1 && i >= (parent?.sharedCount ?? 0) ? [{ messageId, index: i, count }] : [];
+      }),
+      children: [],
+    });
+  });
+
+  const roots: BranchNode[] = [];
+  nodes.forEach((node, id) => {
+    const parentId = parents.get(id);
+    if (parentId) nodes.get(parentId)!.children.push(node);
+    else roots.push(node);
+  });
+
+  const sortChildren = (node: BranchNode) => {
+    node.children.sort((a, b) => a.sharedCount - b.sharedCount || a.lastTimestamp - b.lastTimestamp);
+    node.children.forEach(sortChildren);
+  };
+  roots.forEach(sortChildren);
+  return roots.sort((a, b) => b.lastTimestamp - a.lastTimestamp);
+}
+
+/**
+ * Splits two branches into the messages they share and the messages unique to each.
+ * @param left The message ids of the first branch.
+ * @param right The message ids of the second branch.
+ * @returns The shared prefix and the diverging remainders.
+ */
+export function compareBranches(left: string[], right: string[]): BranchComparison {
+  const shared = sharedPrefixLength(left, right);
+  return {
+    sharedIds: left.slice(0, shared),
+    leftIds: left.slice(shared),
+    rightIds: right.slice(shared),
+  };
+}
@@ -0,0 +1,411 @@
+import { Character, PromptTemplate, ValidationIssue } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES, PERSONA_HEADERS } from '../constants';
+import { characterBookFromWorld, TavernCharacterBook, worldFromCharacterBook } from './worldInfoService';
+
+/** The character fields shared by V2 and V3 Tavern cards. */
+export interface TavernCardData {
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  first_mes: string;
+  mes_example: string;
+  creator_notes?: string;
+  system_prompt?: string;
+  post_history_instructions?: string;
+  alternate_greetings?: string[];
+  character_book?: TavernCharacterBook;
+  tags?: string[];
+  creator?: string;
+  character_version?: string;
+  extensions?: Record<string, unknown>;
+}
+
+/** The fields V3 cards add. */
+export interface TavernCardV3Data extends TavernCardData {
+  nickname?: string;
+  group_only_greetings: string[];
+  /** Images and other files of the card. The `ccdefault:` URI points at the PNG the card is embedded in. */
+  assets?: { type: string; uri: string; name: string; ext: string }[];
+}
+
+/** A SillyTavern / Chub character card. */
+export interface TavernCard {
+  spec: 'chara_card_v2';
+  spec_version: string;
+  data: TavernCardData;
+}
+
+export interface TavernCardV3 {
+  spec: 'chara_card_v3';
+  spec_version: string;
+  data: TavernCardV3Data;
+}
+
+/** A character read from a card. */
+export interface ImportedCard {
+  character: Character;
+  /** Card fields and lorebook settings that couldn't be carried over. */
+  issues: ValidationIssue[];
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Cards keep their JSON in tEXt chunks: V2 under "chara", V3 under "ccv3". Both are base64-encoded UTF-8.
+const V2_CHUNK_KEYWORD = 'chara';
+const V3_CHUNK_KEYWORD = 'ccv3';
+
+export const isPng = (bytes: Uint8Array): boolean => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const latin1 = (bytes: Uint8Array): string => Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+
+const encodeBase64Utf8 = (text: string): string => btoa(latin1(new TextEncoder().encode(text)));
+
+const decodeBase64Utf8 = (base64: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(base64.trim()), (c) => c.charCodeAt(0)));
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * Splits a PNG into its chunks.
+ * @throws An error if the file is not a PNG or is cut short.
+ */
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) throw new Error('Not a PNG file.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1(bytes.subarray(offset + 4, offset + 8));
+    if (offset + 12 + length > bytes.length) throw new Error('The PNG file is truncated.');
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function writePngChunks(chunks: PngChunk[]): Uint8Array {
+  const size = PNG_SIGNATURE.length + chunks.reduce((sum, c) => sum + 12 + c.data.length, 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const { type, data } of chunks) {
+    const typeAndData = new Uint8Array(4 + data.length);
+    typeAndData.set(Uint8Array.from(type, (c) => c.charCodeAt(0)), 0);
+    typeAndData.set(data, 4);
+    view.setUint32(offset, data.length);
+    out.set(typeAndData, offset + 4);
+    view.setUint32(offset + 8 + data.length, crc32(typeAndData));
+    offset += 12 + data.length;
+  }
+  return out;
+}
+
+const textChunk = (keyword: string, text: string): PngChunk => ({
+  type: 'tEXt',
+  data: Uint8Array.from(`${keyword}\0${text}`, (c) => c.charCodeAt(0)),
+});
+
+/**
+ * Reads the card JSON embedded in a PNG, preferring V3 over V2.
+ * @param bytes The PNG file.
+ * @returns The parsed JSON.
+ * @throws An error if the PNG has no card data.
+ */
+export function readPngCard(bytes: Uint8Array): unknown {
+  const texts = new Map<string, string>();
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== 'tEXt') continue;
+    const separator = chunk.data.indexOf(0);
+    if (separator === -1) continue;
+    texts.set(latin1(chunk.data.subarray(0, separator)).toLowerCase(), latin1(chunk.data.subarray(separator + 1)));
+  }
+  const encoded = texts.get(V3_CHUNK_KEYWORD) ?? texts.get(V2_CHUNK_KEYWORD);
+  if (!encoded) throw new Error('This PNG has no character card data.');
+  return JSON.parse(decodeBase64Utf8(encoded));
+}
+
+const isCardChunk = (chunk: PngChunk): boolean => {
+  if (chunk.type !== 'tEXt') return false;
+  const keyword = latin1(chunk.data.subarray(0, chunk.data.indexOf(0))).toLowerCase();
+  return keyword === V2_CHUNK_KEYWORD || keyword === V3_CHUNK_KEYWORD;
+};
+
+/**
+ * Converts a V2 card to V3. The PNG the card is embedded in becomes its icon, and
+ * lorebook keys stay plain text, as they are matched here.
+ */
+function toV3Card(card: TavernCard): TavernCardV3 {
+  const { character_book: book, ...data } = card.data;
+  return {
+    spec: 'chara_card_v3',
+    spec_version: '3.0',
+    data: {
+      ...data,
+      group_only_greetings: [],
+      assets: [{ type: 'icon', uri: 'ccdefault:', name: 'main', ext: 'png' }],
+      ...(book && { character_book: { ...book, entries: book.entries.map((e) => ({ ...e, use_regex: false })) } }),
+    },
+  };
+}
+
+/**
+ * Embeds a card in a PNG, replacing any card it already holds. The card is written
+ * both as V2 and as V3, so older and newer readers find it.
+ * @param bytes The image.
+ * @param card The card to embed.
+ * @returns The new PNG file.
+ */
+export function writePngCard(bytes: Uint8Array, card: TavernCard): Uint8Array {
+  const chunks = readPngChunks(bytes).filter((chunk) => !isCardChunk(chunk));
+  const iend = chunks.findIndex((c) => c.type === 'IEND');
+  chunks.splice(
+    iend === -1 ? chunks.length : iend,
+    0,
+    textChunk(V2_CHUNK_KEYWORD, encodeBase64Utf8(JSON.stringify(card))),
+    textChunk(V3_CHUNK_KEYWORD, encodeBase64Utf8(JSON.stringify(toV3Card(card)))),
+  );
+  return writePngChunks(chunks);
+}
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+
+/**
+ * Reads the card fields from any card version. V1 cards keep them at the top level.
+ * @returns The fields, or `null` if the JSON is not a character card.
+ */
+function readCardData(json: unknown): TavernCardData | null {
+  if (!json || typeof json !== 'object') return null;
+  const card = json as Record<string, unknown>;
+  const isV2OrV3 = (card.spec === 'chara_card_v2' || card.spec === 'chara_card_v3') && card.data && typeof card.data === 'object';
+  const raw = (isV2OrV3 ? card.data : card) as Record<string, unknown>;
+  if (typeof raw.name !== 'string' || !('first_mes' in raw || 'description' in raw)) return null;
+  return {
+    name: raw.name,
+    description: asString(raw.description),
+    personality: asString(raw.personality),
+    scenario: asString(raw.scenario),
+    first_mes: asString(raw.first_mes),
+    mes_example: asString(raw.mes_example),
+    creator_notes: asString(raw.creator_notes),
+    system_prompt: asString(raw.system_prompt),
+    post_history_instructions: asString(raw.post_history_instructions),
+    alternate_greetings: asStringList(raw.alternate_greetings),
+    tags: asStringList(raw.tags),
+    character_book: raw.character_book && typeof raw.character_book === 'object' ? (raw.character_book as TavernCharacterBook) : undefined,
+  };
+}
+
+const hasPersonaHeaders = (text: string): boolean =>
+  Object.values(PERSONA_HEADERS).some((header) => text.includes(header));
+
+/**
+ * Splits a persona into the card's description and personality. The personality section,
+ * if any, becomes the personality; everything else is the description.
+ */
+function splitPersona(persona: string): { description: string; personality: string } {
+  const headers = Object.values(PERSONA_HEADERS);
+  const parts = persona.split(new RegExp(`(${headers.join('|')})`, 'g'));
+  const sections: string[] = [parts[0].trim()].filter(Boolean);
+  let personality = '';
+  for (let i = 1; i < parts.length; i += 2) {
+    const content = (parts[i + 1] || '').trim();
+    if (parts[i] === PERSONA_HEADERS.personality) personality = content;
+    else if (content) sections.push(`${parts[i]}\n${content}`);
+  }
+  return { description: sections.join('\n\n'), personality };
+}
+
+// A card's system prompt takes the place of the core instructions. SillyTavern's
+// {{original}} stands for the prompt it replaces, which is {{system}} here.
+const CORE_SECTION_ID = 'core';
+const CORE_HEADER = '### CORE INSTRUCTIONS & GUIDELINES ###';
+
+const templateFromSystemPrompt = (systemPrompt: string): PromptTemplate => ({
+  sections: DEFAULT_PROMPT_TEMPLATES.single.sections.map((section) =>
+    section.id === CORE_SECTION_ID
+      ? { ...section, content: `${CORE_HEADER}\n\n${systemPrompt.trim().replace(/\{\{original\}\}/gi, '{{system}}')}` }
+      : section,
+  ),
+});
+
+const systemPromptFromTemplate = (template?: PromptTemplate): string => {
+  const core = template?.sections.find((s) => s.id === CORE_SECTION_ID && s.enabled);
+  return core ? core.content.replace(CORE_HEADER, '').trim().replace(/\{\{system\}\}/g, '{{original}}') : '';
+};
+
+// Avatars are saved with the character in local storage, so large card images are scaled down first.
+const MAX_AVATAR_SIDE = 512;
+const MAX_AVATAR_BYTES = 256 * 1024;
+
+/**
+ * Scales an image down to avatar size and re-encodes it as WebP.
+ * @returns A data URL, or `null` if the image is small enough already or can't be decoded here.
+ */
+async function shrinkAvatar(image: Blob): Promise<string | null> {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, MAX_AVATAR_SIDE / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && image.size <= MAX_AVATAR_BYTES) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/webp', 0.9);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a character card. PNG cards keep their image as the avatar.
+ * @param file The card: a PNG, or card JSON of any version.
+ * @returns The character, with the card's lorebook as its own.
+ * @throws An error if the file is not a character card.
+ */
+export async function importCharacterCard(file: Blob): Promise<ImportedCard> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let avatar = '';
+  let json: unknown;
+  if (isPng(bytes)) {
+    json = readPngCard(bytes);
+    // The card is kept on the character, so the avatar doesn't need another copy of it.
+    const image = writePngChunks(readPngChunks(bytes).filter((chunk) => !isCardChunk(chunk)));
+    avatar = (await shrinkAvatar(new Blob([image], { type: 'image/png' }))) ?? `data:image/png;base64,${btoa(latin1(image))}`;
+  } else {
+    json = JSON.parse(new TextDecoder().decode(bytes));
+    if (json && typeof json === 'object' && typeof (json as { avatar?: unknown }).avatar === 'string') {
+      const url = (json as { avatar: string }).avatar;
+      if (/^(https?:|data:image\/)/.test(url)) avatar = url;
+    }
+  }
+
+  const data = readCardData(json);
+  if (!data) throw new Error('This file is not a character card.');
+
+  // The editor splits personas by their headings, so unheaded card text goes under one.
+  const description = data.description.trim();
+  const persona = [
+    description && (hasPersonaHeaders(description) ? description : `${PERSONA_HEADERS.background}\n${description}`),
+    data.personality.trim() && `${PERSONA_HEADERS.personality}\n${data.personality.trim()}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const book = data.character_book ? worldFromCharacterBook(data.character_book, data.name) : undefined;
+  const character: Character = {
+    id: crypto.randomUUID(),
+    name: data.name,
+    avatar,
+    greeting: data.first_mes,
+    description: (data.creator_notes || '').split('\n')[0].trim(),
+    persona,
+    tags: data.tags,
+    scenario: data.scenario || undefined,
+    alternateGreetings: data.alternate_greetings?.length ? data.alternate_greetings : undefined,
+    exampleDialogue: data.mes_example || undefined,
+    lorebook: book?.world.entries.length ? book.world.entries : undefined,
+    promptTemplate: data.system_prompt?.trim() ? templateFromSystemPrompt(data.system_prompt) : undefined,
+  };
+  const issues = book?.issues ?? [];
+  if (data.post_history_instructions?.trim()) {
+    issues.unshift({
+      type: 'ImportLoss',
+      severity: 'warning',
+      message: `Post-history instructions aren't supported and were dropped: "${data.post_history_instructions.trim()}"`,
+      entryIds: [],
+    });
+  }
+  return { character, issues };
+}
+
+/**
+ * Builds a V2 card for a character, with the character's own lorebook.
+ * @param character The character.
+ * @returns The card.
+ */
+export function createCharacterCard(character: Character): TavernCard {
+  const { description, personality } = splitPersona(character.persona);
+  return {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+      name: character.name,
+      description,
+      personality,
+      scenario: character.scenario || '',
+      first_mes: character.greeting,
+      mes_example: character.exampleDialogue || '',
+      creator_notes: character.description,
+      system_prompt: systemPromptFromTemplate(character.promptTemplate),
+      post_history_instructions: '',
+      alternate_greetings: character.alternateGreetings || [],
+      character_book: character.lorebook?.length
+        ? characterBookFromWorld({ id: character.id, name: character.name, description: '', entries: character.lorebook })
+        : undefined,
+      tags: character.tags || [],
+      creator: '',
+      character_version: '',
+      extensions: {},
+    },
+  };
+}
+
+/**
+ * Gets an avatar as PNG bytes, converting other formats through a canvas.
+ * @returns The PNG, or `null` if the image can't be loaded or read, such as a cross-origin image without CORS.
+ */
+async function avatarToPng(avatar: string): Promise<Uint8Array | null> {
+  if (!avatar) return null;
+  const dataUrl = /^data:image\/png;base64,(.*)$/.exec(avatar);
+  if (dataUrl) return Uint8Array.from(atob(dataUrl[1]), (c) => c.charCodeAt(0));
+  try {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.src = avatar;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth || 512;
+    canvas.height = image.naturalHeight || 512;
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Exports a character as a card file: a PNG of its avatar with the card embedded, or
+ * card JSON when the avatar can't be turned into a PNG.
+ * @param character The character.
+ * @returns The file and its suggested extension.
+ */
+export async function exportCharacterCard(character: Character): Promise<{ blob: Blob; extension: 'png' | 'json' }> {
+  const card = createCharacterCard(character);
+  const png = await avatarToPng(character.avatar);
+  if (png) return { blob: new Blob([writePngCard(png, card)], { type: 'image/png' }), extension: 'png' };
+  return { blob: new Blob([JSON.stringify(card, null, 2)], { type: 'application/json' }), extension: 'json' };
+}
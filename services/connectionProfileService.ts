@@ -0,0 +1,75 @@
+import { ConnectionProfile, SamplerSettings, Settings } from '../types';
+
+/**
+ * Finds a saved connection profile by id.
+ * @param settings The current settings.
+ * @param profileId The profile id, if any.
+ * @returns The profile, or undefined if the id is unset or no longer exists.
+ */
+export function findConnectionProfile(
+  settings: Settings,
+  profileId: string | null | undefined,
+): ConnectionProfile | undefined {
+  if (!profileId) return undefined;
+  return settings.connectionProfiles?.find((p) => p.id === profileId);
+}
+
+/**
+ * Resolves the settings a session should generate with. A profile pinned to the
+ * session wins over the globally active profile; with neither, settings are used as-is.
+ * @param settings The current settings.
+ * @param sessionProfileId The profile pinned to the session, if any.
+ * @returns Settings with the profile's provider, model, sampling and prompt fields applied.
+ */
+export function resolveSessionSettings(
+  settings: Settings,
+  sessionProfileId?: string | null,
+): Settings {
+  const profile =
+    findConnectionProfile(settings, sessionProfileId) ??
+    findConnectionProfile(settings, settings.activeConnectionProfileId);
+  if (!profile) return settings;
+
+  return {
+    ...settings,
+    provider: profile.provider,
+    models: { ...settings.models, [profile.provider]: profile.model },
+    temperature: profile.temperature,
+    maxOutputTokens: profile.maxOutputTokens,
+    responsePrefill: profile.responsePrefill,
+    systemPrompt: profile.systemPrompt,
+    samplers: mergeSamplers(settings.samplers, profile.samplers),
+  };
+}
+
+/**
+ * Merges per-session sampler overrides over the base samplers. Overrides left unset inherit.
+ * @param base The samplers from settings or the active profile.
+ * @param overrides The session's overrides, if any.
+ */
+export function mergeSamplers(base: SamplerSettings | undefined, overrides: SamplerSettings | undefined): SamplerSettings {
+  const merged: SamplerSettings = { ...base };
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
+
+/**
+ * Snapshots the active provider, model, sampling and prompt settings into a new profile.
+ * @param settings The settings to capture.
+ * @param name The display name for the profile.
+ */
+export function createConnectionProfile(settings: Settings, name: string): ConnectionProfile {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    provider: settings.provider,
+    model: settings.models?.[settings.provider] || '',
+    temperature: settings.temperature,
+    maxOutputTokens: settings.maxOutputTokens,
+    responsePrefill: settings.responsePrefill,
+    systemPrompt: settings.systemPrompt,
+    samplers: { ...settings.samplers },
+  };
+}
@@ -0,0 +1,120 @@
+import { ContextBudgetSettings, Message } from '../types';
+import { Tokenizer } from './tokenizerService';
+
+/** Token allowances for one request, derived from the context window. */
+export interface ContextBudgetPlan {
+  /** Tokens available to the prompt once the reply is reserved. `Infinity` when there is no context limit. */
+  inputBudget: number;
+  /** Upper bound for the lore block. */
+  loreCap: number;
+  /** Upper bound for the conversation summary. */
+  summaryCap: number;
+  /** Upper bound for past exchanges recalled from beyond the kept history. */
+  recallCap: number;
+  /** Upper bound for the character's example dialogue. */
+  examplesCap: number;
+}
+
+/**
+ * Splits the context window into allowances for each prompt section. The reply is
+ * reserved first, then lore, summary, recalled exchanges and example dialogue are capped at their
+ * configured shares of what is left. History receives whatever the other sections leave unused.
+ * @param contextSize The model's context window in tokens. Zero or less means unlimited.
+ * @param maxOutputTokens Tokens reserved for the reply.
+ * @param shares The configured section shares.
+ * @returns The plan for this request.
+ */
+export function planContextBudget(
+  contextSize: number,
+  maxOutputTokens: number,
+  shares: ContextBudgetSettings,
+): ContextBudgetPlan {
+  if (!contextSize || contextSize <= 0) {
+    return { inputBudget: Infinity, loreCap: Infinity, summaryCap: Infinity, recallCap: Infinity, examplesCap: Infinity };
+  }
+  const inputBudget = Math.max(contextSize - Math.max(maxOutputTokens || 0, 0), 0);
+  return {
+    inputBudget,
+    loreCap: Math.floor(inputBudget * shares.loreShare),
+    summaryCap: Math.floor(inputBudget * shares.summaryShare),
+    recallCap: Math.floor(inputBudget * shares.recallShare),
+    examplesCap: Math.floor(inputBudget * shares.examplesShare),
+  };
+}
+
+/**
+ * Keeps items, in order, while they fit within the budget. Items that don't fit are
+ * skipped, so a later, smaller item can still be kept.
+ * @param items The candidates, most important first.
+ * @param cost Returns the token cost of an item.
+ * @param budget The tokens available.
+ * @returns The kept and dropped items and the tokens used.
+ */
+export function fitWithinBudget<T>(
+  items: T[],
+  cost: (item: T) => number,
+  budget: number,
+): { kept: T[]; dropped: T[]; used: number } {
+  const kept: T[] = [];
+  const dropped: T[] = [];
+  let used = 0;
+  for (const item of items) {
+    const itemCost = cost(item);
+    if (used + itemCost > budget) {
+      dropped.push(item);
+      continue;
+    }
+    kept.push(item);
+    used += itemCost;
+  }
+  return { kept, dropped, used };
+}
+
+/**
+ * Keeps the most recent messages that fit within the budget. Stops at the first
+ * message that doesn't fit so that the kept history has no gaps.
+ * @param messages The conversation, oldest first.
+ * @param tokenizer The tokenizer for the active model.
+ * @param budget The tokens available for history.
+ * @returns The kept messages, oldest first, and the tokens they use.
+ */
+export function fitHistory(
+  messages: Message[],
+  tokenizer: Tokenizer,
+  budget: number,
+): { kept: Message[]; used: number } {
+  const kept: Message[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const messageTokens = tokenizer.count(messages[i].content);
+    if (used + messageTokens > budget) break;
+    kept.unshift(messages[i]);
+    used += messageTokens;
+  }
+  return { kept, used };
+}
+
+/**
+ * Shortens text to fit a token limit, keeping the end of the text. Summaries are
+ * appended to over time, so the end holds the most recent events.
+ * @param text The text to shorten.
+ * @param maxTokens The token limit.
+ * @param tokenizer The tokenizer for the active model.
+ * @returns The text unchanged if it fits, otherwise its longest fitting tail, starting on a line boundary where possible.
+ */
+export function truncateToTokens(text: string, maxTokens: number, tokenizer: Tokenizer): string {
+  if (tokenizer.count(text) <= maxTokens) return text;
+  if (maxTokens <= 0) return '';
+
+  // Binary search on the starting offset for the longest tail that fits.
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (tokenizer.count(text.slice(mid)) <= maxTokens) high = mid;
+    else low = mid + 1;
+  }
+  const tail = text.slice(low);
+  const lineBreak = tail.indexOf('\n');
+  return lineBreak > 0 && lineBreak < tail.length / 2 ? tail.slice(lineBreak + 1) : tail;
+}
@@ -0,0 +1,175 @@
+import { DiceCommandKind, DiceRoll } from '../types';
+
+/** A parsed dice expression such as `2d6+3`. */
+export interface DiceNotation {
+  count: number;
+  sides: number;
+  modifier: number;
+}
+
+/** A dice command typed into the chat, e.g. `/roll 2d6+3`. */
+export interface DiceCommand {
+  kind: DiceCommandKind;
+  expression: string;
+}
+
+export type ParsedDiceCommand = DiceCommand | { error: string };
+
+const DICE_PATTERN = /^\s*(\d*)\s*d\s*(\d+)\s*(?:([+-])\s*(\d+))?\s*$/i;
+
+// Large enough for any tabletop roll, small enough that a typo can't hang the UI.
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+/**
+ * Creates a deterministic random number generator (mulberry32). The same seed
+ * always yields the same sequence, which is what makes a roll verifiable.
+ * @param seed A 32-bit unsigned integer.
+ * @returns A function returning numbers in [0, 1).
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Draws a fresh seed from the browser's cryptographic random source. */
+export const createDiceSeed = (): number => crypto.getRandomValues(new Uint32Array(1))[0];
+
+/**
+ * Parses standard dice notation, e.g. `1d20`, `d6` or `2d6+3`.
+ * @param notation The dice expression.
+ * @returns The parsed notation, or `null` if it is invalid or out of range.
+ */
+export function parseDiceNotation(notation: string): DiceNotation | null {
+  const match = notation.match(DICE_PATTERN);
+  if (!match) return null;
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  const sides = parseInt(match[2], 10);
+  if (count < 1 || count > MAX_DICE || sides < 1 || sides > MAX_SIDES) return null;
+  const modifier = match[3] && match[4] ? (match[3] === '-' ? -1 : 1) * parseInt(match[4], 10) : 0;
+  return { count, sides, modifier };
+}
+
+/**
+ * Rolls dice written in standard notation.
+ * @param notation The dice expression.
+ * @param random Source of randomness in [0, 1). Defaults to `Math.random`.
+ * @returns The individual die faces and the total including the modifier, or `null` if the notation is invalid.
+ */
+export function rollDice(
+  notation: string,
+  random: () => number = Math.random,
+): { values: number[]; total: number } | null {
+  const parsed = parseDiceNotation(notation);
+  if (!parsed) return null;
+  const values = Array.from({ length: parsed.count }, () => Math.floor(random() * parsed.sides) + 1);
+  return { values, total: values.reduce((sum, v) => sum + v, 0) + parsed.modifier };
+}
+
+const splitPickOptions = (expression: string) =>
+  expression.split('|').map((o) => o.trim()).filter(Boolean);
+
+/**
+ * Recognizes the dice commands typed into the chat input: `/roll 2d6+3`, `/coin` and `/pick a|b|c`.
+ * @param input The raw chat input.
+ * @returns The command, an error for a dice command with bad arguments, or `null` if the input isn't a dice command.
+ */
+export function parseDiceCommand(input: string): ParsedDiceCommand | null {
+  const match = input.trim().match(/^\/(roll|coin|pick)(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+  const kind = match[1].toLowerCase() as DiceCommandKind;
+  const expression = (match[2] || '').trim();
+
+  switch (kind) {
+    case 'roll': {
+      const notation = expression || '1d20';
+      return parseDiceNotation(notation)
+        ? { kind, expression: notation.replace(/\s+/g, '').toLowerCase() }
+        : { error: `"${expression}" is not valid dice notation. Try /roll 2d6+3.` };
+    }
+    case 'coin':
+      return { kind, expression: '' };
+    case 'pick':
+      return splitPickOptions(expression).length >= 2
+        ? { kind, expression }
+        : { error: 'List at least two options separated by "|", e.g. /pick left|right.' };
+  }
+}
+
+/**
+ * Runs a dice command from a seed. Every outcome is derived from the seed alone,
+ * so the result can be reproduced later with {@link verifyDiceRoll}.
+ * @param command The parsed command.
+ * @param roller The name of whoever issued the command.
+ * @param seed The seed to roll from. A fresh one is drawn when omitted.
+ * @returns The recorded roll.
+ * @throws An error if the command's expression is invalid.
+ */
+export function executeDiceCommand(
+  command: DiceCommand,
+  roller: string,
+  seed: number = createDiceSeed(),
+): DiceRoll {
+  const random = createSeededRandom(seed);
+  const { kind, expression } = command;
+
+  switch (kind) {
+    case 'roll': {
+      const rolled = rollDice(expression, random);
+      if (!rolled) throw new Error(`Invalid dice notation: ${expression}`);
+      return { kind, expression, seed, values: rolled.values, result: String(rolled.total), roller };
+    }
+    case 'coin': {
+      const side = Math.floor(random() * 2);
+      return { kind, expression, seed, values: [side], result: side === 0 ? 'Heads' : 'Tails', roller };
+    }
+    case 'pick': {
+      const options = splitPickOptions(expression);
+      if (options.length === 0) throw new Error('No options to pick from');
+      const index = Math.floor(random() * options.length);
+      return { kind, expression, seed, values: [index], result: options[index], roller };
+    }
+  }
+}
+
+/**
+ * Replays a roll from its seed and checks that the recorded outcome matches.
+ * @param roll The recorded roll.
+ * @returns `true` if the roll is reproducible from its seed.
+ */
+export function verifyDiceRoll(roll: DiceRoll): boolean {
+  try {
+    const replayed = executeDiceCommand(roll, roll.roller, roll.seed);
+    return replayed.result === roll.result && replayed.values.join(',') === roll.values.join(',');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Describes a roll in a sentence, as shown in the chat and sent to the model.
+ * @param roll The recorded roll.
+ * @returns The description.
+ */
+export function formatDiceRoll(roll: DiceRoll): string {
+  switch (roll.kind) {
+    case 'roll': {
+      const modifier = parseDiceNotation(roll.expression)?.modifier || 0;
+      if (roll.values.length === 1 && !modifier) return `${roll.roller} rolled ${roll.expression}: ${roll.result}`;
+      const breakdown = [roll.values.join(' + '), modifier ? `${modifier > 0 ? '+' : '-'} ${Math.abs(modifier)}` : '']
+        .filter(Boolean)
+        .join(' ');
+      return `${roll.roller} rolled ${roll.expression}: ${breakdown} = ${roll.result}`;
+    }
+    case 'coin':
+      return `${roll.roller} flipped a coin: ${roll.result}`;
+    case 'pick':
+      return `${roll.roller} picked from ${splitPickOptions(roll.expression).join(', ')}: ${roll.result}`;
+  }
+}
@@ -0,0 +1,123 @@
+import { Settings } from '../types';
+import { getProviderAdapter, resolveProviderApiKey } from './providers/registry';
+
+/** Turns text into vectors whose cosine similarity reflects how related the texts are. */
+export interface EmbeddingProvider {
+  /** Identifies the provider and model, so vectors from different models are never compared. */
+  id: string;
+  /**
+   * @param texts The texts to embed.
+   * @param signal Cancels the request.
+   * @returns One vector per text, in the same order.
+   */
+  embed: (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+}
+
+const EMBEDDING_BATCH_SIZE = 64;
+const MAX_CACHED_EMBEDDINGS = 500;
+// Numbers held across all cached vectors, about 8 MB. Large models' vectors have thousands of dimensions.
+const MAX_CACHED_VALUES = 1_000_000;
+
+// Old messages don't change, so their vectors are computed once per page load.
+// Map order is insertion order, which makes the oldest entry the first one.
+const embeddingCache = new Map<string, number[]>();
+let cachedValues = 0;
+
+const forget = (key: string) => {
+  const vector = embeddingCache.get(key);
+  if (!vector) return;
+  embeddingCache.delete(key);
+  cachedValues -= vector.length;
+};
+
+const remember = (key: string, vector: number[]) => {
+  forget(key);
+  embeddingCache.set(key, vector);
+  cachedValues += vector.length;
+  while (embeddingCache.size > MAX_CACHED_EMBEDDINGS || cachedValues > MAX_CACHED_VALUES) {
+    forget(embeddingCache.keys().next().value!);
+  }
+};
+
+/**
+ * Wraps a provider so each text is embedded once and large requests are sent in batches.
+ * @param provider The provider to wrap.
+ * @returns A provider with the same id.
+ */
+export function withEmbeddingCache(provider: EmbeddingProvider): EmbeddingProvider {
+  return {
+    id: provider.id,
+    embed: async (texts, signal) => {
+      const keyOf = (text: string) => `${provider.id}\n${text}`;
+      // Vectors are collected here too, since one large request can evict its own from the cache.
+      const found = new Map<string, number[]>();
+      for (const text of texts) {
+        const cached = embeddingCache.get(keyOf(text));
+        if (cached) found.set(text, cached);
+      }
+      const missing = Array.from(new Set(texts.filter((text) => !found.has(text))));
+      for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const vectors = await provider.embed(batch, signal);
+        batch.forEach((text, j) => {
+          found.set(text, vectors[j]);
+          remember(keyOf(text), vectors[j]);
+        });
+      }
+      return texts.map((text) => found.get(text) ?? []);
+    },
+  };
+}
+
+/**
+ * Finds the embedding provider the settings ask for: the active provider with the
+ * configured embedding model, if that provider can embed.
+ * @param settings The current settings.
+ * @returns The cached provider, or `null` when no embedding model is set or the provider has no embeddings.
+ */
+export function resolveEmbeddingProvider(settings: Settings): EmbeddingProvider | null {
+  const model = settings.embeddingModel?.trim();
+  if (!model) return null;
+  const adapter = getProviderAdapter(settings.provider);
+  if (!adapter.capabilities.embeddings || !adapter.embed) return null;
+  const embed = adapter.embed;
+  const apiKey = resolveProviderApiKey(settings);
+  return withEmbeddingCache({
+    id: `${adapter.id}:${model}`,
+    embed: (texts, signal) => embed({ apiKey, model, settings, texts, signal }),
+  });
+}
+
+/**
+ * @returns The cosine similarity of two vectors, from -1 to 1; 0 when either is empty or their lengths differ.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Compares texts with a query by meaning.
+ * @param embedder The embedding provider.
+ * @param query The text to compare against.
+ * @param texts The texts to compare.
+ * @param signal Cancels the request.
+ * @returns The cosine similarity of each text to the query, in order.
+ */
+export async function embedSimilarities(
+  embedder: EmbeddingProvider,
+  query: string,
+  texts: string[],
+  signal?: AbortSignal,
+): Promise<number[]> {
+  const [queryVector, ...vectors] = await embedder.embed([query, ...texts], signal);
+  return vectors.map((vector) => cosineSimilarity(queryVector, vector));
+}
@@ -1,25 +1,33 @@
-import { GoogleGenAI, Type } from '@google/genai';
+import { Type } from '@google/genai';
 import {
   Message,
   LLMProvider,
   World,
   Persona,
-  WorldEntry,
   GroupTurnAction,
   Settings,
   AiAnalysisReport,
-  WorldCoherenceReport,
-  ValidationIssue,
   WorldEntryCategory,
+  SamplerSettings,
+  PromptBudget,
+  PromptSectionId,
+  PromptSnapshot,
+  InjectedLoreEntry,
+  PromptTemplate,
+  StructuredMemory,
+  StructuredMemoryFields,
 } from '../types';
-import { API_ENDPOINTS } from '../constants';
 import { logger } from './logger';
-import { ERROR_MESSAGES } from './errorMessages';
 import { handleApiError } from './errorHandler';
-
-// Instantiate the Gemini client once at the module level.
-// Per guidelines, Gemini API key MUST come from the environment.
-const geminiAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { getProviderAdapter } from './providers/registry';
+import { getTokenizer, Tokenizer } from './tokenizerService';
+import { renderPromptTemplate, resolvePromptTemplate } from './promptTemplateService';
+import { expandMacros, MacroContext } from './macroService';
+import { ContextBudgetPlan, fitHistory, fitWithinBudget, planContextBudget, truncateToTokens } from './contextBudgetService';
+import { JsonRequest, ProviderRequest } from './providers/types';
+import { formatStructuredMemory, MAX_STRUCTURED_MEMORY_ITEMS, normalizeStructuredMemory } from './structuredMemoryService';
+import { MAX_RECALLED_EXCHANGES, RecallExchange } from './memoryRecallService';
+import { LoreRetrieval, retrieveLore } from './loreRetrievalService';
 
 /**
  * Parses a JSON string from an LLM response, robustly handling markdown code blocks.
@@ -45,135 +53,111 @@ function parseJsonFromLlmResponse(jsonString: string): any {
     }
 }
 
-
 /**
- * A helper function to standardize the handling of non-OK fetch responses.
- * It checks the response and throws a structured error if it's not successful.
- * @param response The fetch Response object.
- * @returns The Response object if it's ok.
- * @throws An error with a status property if the response is not ok.
+ * Adjusts a request to what the provider supports: the system prompt is folded into
+ * the first user turn when there is no system role, prefill is dropped when the
+ * provider cannot continue a partial assistant turn, and unsupported samplers are removed.
+ * @param provider The target provider.
+ * @param request The provider-agnostic request.
+ * @returns A request the provider can accept as-is.
  */
-async function handleApiResponse(response: Response): Promise<Response> {
-  if (!response.ok) {
-    const errorBody = await response.text().catch(() => `(Could not read error body for status ${response.status})`);
-    const error = new Error(errorBody);
-    (error as any).status = response.status;
-    throw error;
+function adaptRequestToProvider<T extends ProviderRequest & { prefill?: string }>(
+  provider: LLMProvider,
+  request: T,
+): T {
+  const { capabilities } = getProviderAdapter(provider);
+  const adapted = { ...request };
+
+  if (!capabilities.systemPrompt && adapted.systemPrompt) {
+    const [first, ...rest] = adapted.messages;
+    adapted.messages = first?.role === 'user'
+      ? [{ role: 'user', content: `${adapted.systemPrompt}\n\n${first.content}` }, ...rest]
+      : [{ role: 'user', content: adapted.systemPrompt }, ...adapted.messages];
+    adapted.systemPrompt = undefined;
   }
-  return response;
-}
-
-
-// --- Enhanced World Index Caching ---
-interface WorldCacheEntry {
-  index: any;
-  version: string;
-  lastAccessed: number;
-  frequency: number;
-  size: number; // Estimated size in bytes
-}
-const worldIndexCache = new Map<string, WorldCacheEntry>();
 
-/**
- * Cleans the cache using a score-based eviction policy (considering age and frequency)
- * when it exceeds the maximum size.
- */
-function cleanupCache() {
-  const now = Date.now();
-  const MAX_AGE = 30 * 60 * 1000; // 30 minutes
-  const MAX_ENTRIES = 50; // Maximum cache entries
-
-  const entries = Array.from(worldIndexCache.entries());
-  
-  // Remove old entries
-  for (const [key, value] of entries) {
-    if (now - value.lastAccessed > MAX_AGE) {
-      worldIndexCache.delete(key);
-    }
+  if (!capabilities.prefill && adapted.prefill) {
+    logger.log('Provider does not support response prefill; ignoring it.', { provider });
+    adapted.prefill = undefined;
   }
 
-  // If still too many entries, remove least recently used
-  if (worldIndexCache.size > MAX_ENTRIES) {
-    const sortedEntries = Array.from(worldIndexCache.entries())
-      .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed);
-    
-    const toRemove = sortedEntries.slice(0, worldIndexCache.size - MAX_ENTRIES);
-    for (const [key] of toRemove) {
-      worldIndexCache.delete(key);
-    }
+  if (adapted.samplers) {
+    adapted.samplers = Object.fromEntries(
+      Object.entries(adapted.samplers).filter(
+        ([key, value]) => value !== undefined && capabilities.samplers.includes(key as keyof SamplerSettings),
+      ),
+    );
   }
+
+  return adapted;
 }
 
 /**
- * Generates a lightweight version string for a world's entries to detect changes
- * without expensive serialization. Based on entry count and a checksum of content lengths.
- * @param entries The array of world entries.
- * @returns A version string.
+ * Requests a one-shot plain-text completion through the provider's adapter.
  */
-function generateWorldVersion(entries: WorldEntry[]): string {
-  if (!entries || entries.length === 0) return '0-0';
-  const checksum = entries.reduce((acc, e) => acc + (e.content?.length || 0) + (e.keys?.length || 0), 0);
-  return `${entries.length}-${checksum}`;
+export function requestTextCompletion(provider: LLMProvider, request: ProviderRequest): Promise<string> {
+  return getProviderAdapter(provider).complete(adaptRequestToProvider(provider, request));
 }
 
 /**
- * Proactively builds and caches indices for a given list of worlds.
- * @param worlds An array of World objects to warm the cache with.
+ * Requests a one-shot JSON completion through the provider's adapter and parses it.
+ * @param provider The target provider.
+ * @param request The request. `schema` is only honored by providers with structured output.
+ * @returns The parsed JSON response.
+ * @throws An error if the response is empty or not valid JSON.
  */
-export function warmWorldCache(worlds: World[]) {
-  if (!worlds || worlds.length === 0) return;
-  logger.log('Warming world cache for specified worlds.', { worldCount: worlds.length, worldNames: worlds.map(w => w.name) });
-  for (const world of worlds) {
-    if (world) {
-      // This will build the index if it's not present or outdated.
-      getOrBuildWorldIndex(world);
-    }
-  }
+export async function requestJsonCompletion<T>(provider: LLMProvider, request: JsonRequest): Promise<T> {
+  const text = await getProviderAdapter(provider).completeJson(adaptRequestToProvider(provider, request));
+  if (!text.trim()) throw new Error('Received an empty response from the AI.');
+  return parseJsonFromLlmResponse(text) as T;
 }
 
 
 /**
- * A wrapper around fetch that implements exponential backoff for retries.
- * @param url The URL to fetch.
- * @param options The fetch options.
- * @param retries The number of times to retry.
- * @param backoff The backoff factor.
- * @returns A promise that resolves to the fetch response.
+ * Providers drop system messages from the history, but dice results and the user's notes
+ * must reach the model. They are sent as marked user turns instead.
  */
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  retries = 3,
-  backoff = 300,
-): Promise<Response> {
-  const [minBackoff, maxBackoff] = [backoff, 5000];
-  for (let i = 0; i < retries; i++) {
-    try {
-      const response = await fetch(url, options);
-      // Retry on 5xx server errors
-      if (response.status >= 500 && response.status < 600) {
-        throw new Error(`Server error: ${response.status}`);
-      }
-      return response;
-    } catch (error) {
-      if (i === retries - 1) throw error;
-      const delay = Math.min(minBackoff * Math.pow(2, i), maxBackoff) + Math.random() * 100;
-      logger.log(`API call failed, retrying in ${delay.toFixed(0)}ms...`, { attempt: i + 1, error });
-      await new Promise(res => setTimeout(res, delay));
-    }
+const toPromptHistory = (messages: Message[]): Message[] =>
+  messages.map((m) => {
+    if (m.diceRoll) return { ...m, role: 'user', content: `[Dice result, decided by the game and final: ${m.content}]` };
+    if (m.noteKind === 'narration') return { ...m, role: 'user', content: `[Narration: ${m.content}]` };
+    if (m.noteKind === 'lore') return { ...m, role: 'user', content: `[Lore reference: ${m.content}]` };
+    return m;
+  });
+
+/**
+ * Inserts lore entries into the history at their insertion depth.
+ * @param history The fitted history, oldest first.
+ * @param lore The lore messages, each with its depth in messages from the end; higher-ranked first.
+ * @returns The history with the lore inserted. Depths beyond its start insert at the start.
+ */
+function insertDepthLore(history: Message[], lore: { depth: number; message: Message }[]): Message[] {
+  if (lore.length === 0) return history;
+  const result = [...history];
+  // Deepest first, so later insertions don't move the positions counted from the end.
+  for (const { depth, message } of [...lore].sort((a, b) => b.depth - a.depth)) {
+    result.splice(Math.max(result.length - depth, 0), 0, message);
   }
-  // This line should not be reachable, but is required for type safety.
-  throw new Error("Fetch failed after multiple retries.");
+  return result;
 }
 
+const NO_LORE: LoreRetrieval = { content: '', depthEntries: [], entries: [], dropped: [] };
 
 /**
- * Merges consecutive messages from the same role (user or assistant) into a single message.
- * This is crucial for models like Gemini that require a strict alternating user/model sequence,
- * preventing errors that can occur after chat history edits.
- * @param messages An array of messages.
- * @returns A new array of messages with consecutive roles merged.
+ * Turns the lore bound for the history into marked user turns, like the user's lore notes.
+ * @param lore The retrieved lore.
+ * @param macroContext Expands macros in the entries.
+ * @returns The messages with their insertion depth.
  */
+function toDepthLoreMessages(lore: LoreRetrieval, macroContext: MacroContext): { depth: number; message: Message }[] {
+  return lore.depthEntries.map(({ entryId, depth, text }) => ({
+    depth,
+    message: toPromptHistory([
+      { id: `lore-${entryId}`, role: 'system', noteKind: 'lore', content: expandMacros(text, macroContext) },
+    ])[0],
+  }));
+}
+
 function mergeConsecutiveRoleMessages(messages: Message[]): Message[] {
   if (messages.length < 2) {
     return messages;
@@ -206,165 +190,166 @@ function mergeConsecutiveRoleMessages(messages: Message[]): Message[] {
   return mergedMessages;
 }
 
-const estimateTokens = (text: string): number => {
-  // A simple approximation: 1 token ~ 4 characters
-  return Math.ceil((text || '').length / 4);
-};
-
 /**
- * A safe, simple stemmer for English words. It is not perfect but is designed to be
- * non-destructive and handle common cases like plurals and simple verb tenses.
- * @param word The word to stem.
- * @returns The stemmed word.
+ * Collects system prompt parts, tagging each with the section it belongs to so the
+ * prompt budget can be broken down per section.
  */
-const stem = (word: string): string => {
-  if (word.length < 4) return word;
-
-  // Rule for plurals: cats -> cat, boxes -> box
-  if (word.endsWith('es') && word.length > 4) return word.slice(0, -2);
-  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us'))
-    return word.slice(0, -1);
-
-  // Rule for verbs: walking -> walk, walked -> walk
-  // Check length to avoid over-stripping (e.g., "cared" -> "car")
-  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
-  if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
-
-  return word;
+const createPromptParts = () => {
+  const parts: { section: PromptSectionId; text: string }[] = [];
+  return {
+    push: (section: PromptSectionId, text: string) => parts.push({ section, text }),
+    join: (separator: string) => parts.map((p) => p.text).join(separator),
+    textOf: (section: PromptSectionId) =>
+      parts.filter((p) => p.section === section).map((p) => p.text).join('\n\n'),
+  };
 };
 
+export interface AssembledPrompt {
+  systemPrompt: string;
+  messages: Message[];
+  budget: PromptBudget;
+  loreEntries: InjectedLoreEntry[];
+}
+
 /**
- * Builds or retrieves a cached search index for a world's entries.
- * The index is used for fast keyword matching in RAG.
- * @param world The world object.
- * @returns A pre-computed index for the world.
+ * Captures the request as the provider receives it, after capability adaptation,
+ * along with the lore and budget that shaped it.
  */
-function getOrBuildWorldIndex(world: World) {
-  const version = generateWorldVersion(world.entries);
-  const cached = worldIndexCache.get(world.id);
-
-  if (cached && cached.version === version) {
-    logger.log('Using cached world index.', { worldId: world.id, frequency: cached.frequency + 1 });
-    cached.lastAccessed = Date.now();
-    cached.frequency += 1;
-    return cached.index;
-  }
-
-  logger.log('Building new world index.', { worldId: world.id, reason: cached ? 'version mismatch' : 'not cached' });
-
-  cleanupCache();
-
-  const entryIdToEntryMap = new Map<string, WorldEntry>();
-  const plainKeywordMap = new Map<string, WorldEntry[]>();
-  const stemmedKeywordMap = new Map<string, WorldEntry[]>();
-  const regexKeywords: { regex: RegExp; entries: WorldEntry[] }[] = [];
-  const allEnabledEntries = world.entries.filter((e) => e.enabled);
-
-  for (const entry of allEnabledEntries) {
-    entryIdToEntryMap.set(entry.id, entry);
-    if (entry.keys) {
-      for (const key of entry.keys) {
-        const lowerKey = key.trim().toLowerCase();
-        if (lowerKey.length < 2) continue;
-
-        if (/[*+?()|[\]{}^$\\]/.test(lowerKey)) {
-          try {
-            const regex = new RegExp(`\\b(${lowerKey})\\b`, 'gi');
-            regexKeywords.push({ regex, entries: [entry] });
-          } catch (e) {
-            if (!plainKeywordMap.has(lowerKey))
-              plainKeywordMap.set(lowerKey, []);
-            plainKeywordMap.get(lowerKey)!.push(entry);
-          }
-        } else {
-          if (!plainKeywordMap.has(lowerKey))
-            plainKeywordMap.set(lowerKey, []);
-          plainKeywordMap.get(lowerKey)!.push(entry);
-
-          const stemmedKey = stem(lowerKey);
-          if (stemmedKey !== lowerKey) {
-            if (!stemmedKeywordMap.has(stemmedKey))
-              stemmedKeywordMap.set(stemmedKey, []);
-            stemmedKeywordMap.get(stemmedKey)!.push(entry);
-          }
-        }
-      }
-    }
-  }
-
-  const index = {
-    plainKeywordMap,
-    stemmedKeywordMap,
-    regexKeywords,
-    stem,
-    entryIdToEntryMap,
+function createPromptSnapshot(
+  provider: LLMProvider,
+  request: ProviderRequest & { prefill?: string },
+  prompt: AssembledPrompt,
+  contextSize: number,
+): PromptSnapshot {
+  return {
+    provider,
+    model: request.model,
+    systemPrompt: request.systemPrompt,
+    messages: request.messages.map((m) => ({ role: m.role, content: m.content })),
+    prefill: request.prefill,
+    loreEntries: prompt.loreEntries,
+    temperature: request.temperature ?? 0,
+    maxOutputTokens: request.maxOutputTokens ?? 0,
+    contextSize,
+    samplers: request.samplers ?? {},
+    budget: prompt.budget,
+    createdAt: Date.now(),
   };
-  const estimatedSize = JSON.stringify(index).length; // Simple size estimation
-  worldIndexCache.set(world.id, {
-    index,
-    version,
-    lastAccessed: Date.now(),
-    frequency: 1,
-    size: estimatedSize,
-  });
-  return index;
 }
 
-// --- RAG & Suggestion Helpers (Hoisted for reuse) ---
-const findMatchesInText = (
-  text: string,
-  worldIndex: ReturnType<typeof getOrBuildWorldIndex>,
-) => {
-  const localMatches = new Map<
-    string,
-    { entry: WorldEntry; count: number; reasons: Set<string> }
-  >();
-  const addLocalMatch = (entry: WorldEntry, reason: string) => {
-    if (!localMatches.has(entry.id))
-      localMatches.set(entry.id, { entry, count: 0, reasons: new Set() });
-    const match = localMatches.get(entry.id)!;
-    match.count++;
-    match.reasons.add(reason);
+function buildPromptBudget({
+  tokenizer,
+  promptParts,
+  history,
+  historyMessagesTotal,
+  contextSize,
+  maxOutputTokens,
+  historyLoreTokens = 0,
+}: {
+  tokenizer: Tokenizer;
+  promptParts: ReturnType<typeof createPromptParts>;
+  history: Message[];
+  historyMessagesTotal: number;
+  contextSize: number;
+  maxOutputTokens: number;
+  /** Lore inserted into the history, counted as lore rather than history. */
+  historyLoreTokens?: number;
+}): PromptBudget {
+  const historyTokens = history.reduce((sum, m) => sum + tokenizer.count(m.content), 0);
+  const sections: Record<PromptSectionId, number> = {
+    system: tokenizer.count(promptParts.textOf('system')),
+    persona: tokenizer.count(promptParts.textOf('persona')),
+    character: tokenizer.count(promptParts.textOf('character')),
+    examples: tokenizer.count(promptParts.textOf('examples')),
+    lore: tokenizer.count(promptParts.textOf('lore')) + historyLoreTokens,
+    summary: tokenizer.count(promptParts.textOf('summary')),
+    memory: tokenizer.count(promptParts.textOf('memory')),
+    recall: tokenizer.count(promptParts.textOf('recall')),
+    history: Math.max(historyTokens - historyLoreTokens, 0),
+  };
+  return {
+    tokenizer: tokenizer.label,
+    approximate: tokenizer.approximate,
+    contextSize,
+    maxOutputTokens,
+    sections,
+    total: Object.values(sections).reduce((sum, n) => sum + n, 0),
+    historyMessagesKept: history.length,
+    historyMessagesTotal,
   };
+}
 
-  if (!text) return localMatches;
-  const lowerText = text.toLowerCase();
-
-  // Regex matches
-  worldIndex.regexKeywords.forEach(
-    ({ regex, entries }: { regex: RegExp; entries: WorldEntry[] }) => {
-      const matches = lowerText.match(regex);
-      if (matches) {
-        entries.forEach((entry) => {
-          for (let i = 0; i < matches.length; i++)
-            addLocalMatch(entry, `Regex: "${regex.source.replace(/\\b/g, '')}"`);
-        });
-      }
-    },
-  );
-
-  // Token-based matches (exact, stemmed)
-  const words = lowerText.match(/\b[\w'-]+\b/g) || [];
-  for (const word of new Set(words)) {
-    if (worldIndex.plainKeywordMap.has(word)) {
-      worldIndex.plainKeywordMap
-        .get(word)!
-        .forEach((entry: WorldEntry) =>
-          addLocalMatch(entry, `Exact: "${word}"`),
-        );
-    }
-    const stemmedWord = worldIndex.stem(word);
-    if (worldIndex.stemmedKeywordMap.has(stemmedWord)) {
-      worldIndex.stemmedKeywordMap.get(stemmedWord)!.forEach((entry: WorldEntry) => {
-        const plainKeys = (entry.keys || []).map((k) => k.toLowerCase().trim());
-        if (!plainKeys.includes(word))
-          addLocalMatch(entry, `Stem: "${word}" -> "${stemmedWord}"`);
-      });
-    }
+/**
+ * Reports anything the context budget left out of a prompt to the debug log.
+ * @param plan The budget plan used for the prompt.
+ * @param details What was dropped or trimmed.
+ */
+function logDroppedContent(
+  plan: ContextBudgetPlan,
+  details: {
+    historyBudget: number;
+    droppedLore: string[];
+    summaryTokensTrimmed: number;
+    messagesDropped: number;
+    totalMessages: number;
+    examplesDropped?: number;
+  },
+): void {
+  if (
+    details.droppedLore.length === 0 &&
+    details.summaryTokensTrimmed <= 0 &&
+    details.messagesDropped <= 0 &&
+    !details.examplesDropped
+  ) {
+    return;
   }
-  return localMatches;
-};
+  logger.log('Context budget reached. Dropped content from the prompt.', {
+    inputBudget: plan.inputBudget,
+    loreCap: plan.loreCap,
+    summaryCap: plan.summaryCap,
+    recallCap: plan.recallCap,
+    examplesCap: plan.examplesCap,
+    ...details,
+  });
+}
 
+/**
+ * Picks the exchanges to recall into a prompt: the most relevant ones with no message in
+ * the kept history, as many as fit the cap. They are listed in the order they happened.
+ * @param exchanges The candidates, most relevant first.
+ * @param keptHistory The history that made it into the prompt.
+ * @param cap The tokens available for recalled exchanges.
+ * @param tokenizer The tokenizer for the active model.
+ * @returns The text of the `{{recall}}` macro; empty when nothing is recalled.
+ */
+function selectRecalledExchanges(
+  exchanges: RecallExchange[] | undefined,
+  keptHistory: Message[],
+  cap: number,
+  tokenizer: Tokenizer,
+): string {
+  if (!exchanges?.length) return '';
+  const keptIds = new Set(keptHistory.map((m) => m.id));
+  const candidates = exchanges
+    .filter((e) => !e.messageIds.some((id) => keptIds.has(id)))
+    .slice(0, MAX_RECALLED_EXCHANGES);
+  const { kept } = fitWithinBudget(candidates, (e) => tokenizer.count(e.text), cap);
+  return kept
+    .sort((a, b) => a.index - b.index)
+    .map((e) => e.text)
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Splits a character's example dialogue into its exchanges, which are separated by `<START>` lines.
+ * @param text The example dialogue.
+ * @returns The exchanges, in order.
+ */
+const splitExampleDialogue = (text?: string): string[] =>
+  (text || '')
+    .split(/<START>/i)
+    .map((block) => block.trim())
+    .filter(Boolean);
 
 export interface CompletionParams {
   provider: LLMProvider;
@@ -372,19 +357,39 @@ export interface CompletionParams {
   model: string;
   messages: Message[];
   characterPersona: string;
+  /** The character's scenario, for the `{{scenario}}` macro. */
+  scenario?: string;
+  /** The character's example dialogue. Kept within its budget share and dropped first when the history doesn't fit. */
+  exampleDialogue?: string;
   userPersona?: Persona | null;
   globalSystemPrompt: string;
   world?: World | null;
   temperature: number;
+  samplers?: SamplerSettings;
   prefill?: string;
   signal?: AbortSignal;
   contextSize: number;
   maxOutputTokens: number;
   memorySummary?: string;
+  structuredMemory?: StructuredMemory;
+  /** Past exchanges, most relevant first. Those that don't fit in the history are recalled within the recall budget. */
+  recalledExchanges?: RecallExchange[];
+  /** Similarity of each lore entry to the latest messages, from embeddings. Replaces the full-text score when given. */
+  loreRelevance?: Record<string, number>;
+  /** The session's lore activations, which keep sticky entries in and hold back those cooling down. */
+  loreActivations?: Record<string, number>;
+  /** Rolls lore entry probabilities. Defaults to `Math.random`. */
+  random?: () => number;
+  /** Lore already retrieved with `retrieveChatLore`, so several replies to the same turn share it. */
+  lore?: LoreRetrieval;
   characterName?: string; // For single chat
   activeCharacterNames?: string[]; // For group chat
   interactionData?: Record<string, { viewCount: number; lastViewed: number }>;
   settings: Settings;
+  /** The system prompt template. Falls back to the world's or the global template. */
+  promptTemplate?: PromptTemplate;
+  /** Receives the final request just before it is sent, for the prompt inspector. */
+  onPromptSnapshot?: (snapshot: PromptSnapshot) => void;
 }
 
 export interface GeneratedCharacterProfile {
@@ -398,6 +403,7 @@ interface GenerateCharacterParams {
   provider: LLMProvider;
   apiKey: string;
   model: string;
+  settings: Settings;
   concept: string;
 }
 
@@ -405,14 +411,29 @@ interface SummarizeParams {
   provider: LLMProvider;
   apiKey: string;
   model: string;
+  settings: Settings;
   messages: Message[];
   previousSummary?: string;
 }
 
+interface ExtractMemoryParams {
+  provider: LLMProvider;
+  apiKey: string;
+  model: string;
+  settings: Settings;
+  messages: Message[];
+  /** Display name of each message's speaker. */
+  speakerName: (message: Message) => string;
+  previous?: StructuredMemory;
+  /** The prose summary, for events that are no longer in `messages`. */
+  summary?: string;
+}
+
 interface AiAnalysisParams {
   provider: LLMProvider;
   apiKey: string;
   model: string;
+  settings: Settings;
   world: World;
 }
 
@@ -420,6 +441,7 @@ export interface GenerateWorldParams {
   provider: LLMProvider;
   apiKey: string;
   model: string;
+  settings: Settings;
   concept: string;
 }
 
@@ -427,15 +449,46 @@ export interface RefineWorldParams {
   provider: LLMProvider;
   apiKey: string;
   model: string;
+  settings: Settings;
   world: World;
   instruction: string;
 }
 
 
+const worldAnalysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    issues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ['Contradiction', 'InconsistentVoice'] },
+          message: { type: Type.STRING, description: 'A clear explanation of the issue.' },
+          entryIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['type', 'message', 'entryIds'],
+      },
+    },
+    coherence: {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.NUMBER },
+        summary: { type: Type.STRING },
+        positivePoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+        improvementAreas: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      required: ['score', 'summary', 'positivePoints', 'improvementAreas'],
+    },
+  },
+  required: ['issues', 'coherence'],
+};
+
 export async function runAiWorldAnalysis({
   provider,
   apiKey,
   model,
+  settings,
   world,
 }: AiAnalysisParams): Promise<AiAnalysisReport> {
   try {
@@ -474,81 +527,30 @@ CRITICAL: Your entire response MUST be a single, valid JSON object matching the
 
     logger.apiRequest('Running full AI world analysis', { provider, model, worldName: world.name });
 
-    if (provider === LLMProvider.GEMINI) {
-      const response = await geminiAI.models.generateContent({
-        model: model,
-        contents: userPrompt,
-        config: {
-          systemInstruction: systemPrompt,
+    const { capabilities } = getProviderAdapter(provider);
+    const request: JsonRequest = capabilities.structuredOutput
+      ? {
+          apiKey,
+          model,
+          settings,
+          systemPrompt,
+          messages: [{ role: 'user', content: userPrompt }],
           temperature: 0.2,
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              issues: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    type: { type: Type.STRING, enum: ['Contradiction', 'InconsistentVoice'] },
-                    message: { type: Type.STRING, description: 'A clear explanation of the issue.' },
-                    entryIds: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  },
-                  required: ['type', 'message', 'entryIds'],
-                },
-              },
-              coherence: {
-                type: Type.OBJECT,
-                properties: {
-                  score: { type: Type.NUMBER },
-                  summary: { type: Type.STRING },
-                  positivePoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  improvementAreas: { type: Type.ARRAY, items: { type: Type.STRING } },
-                },
-                required: ['score', 'summary', 'positivePoints', 'improvementAreas'],
-              },
-            },
-            required: ['issues', 'coherence'],
-          },
-        },
-      });
-
-      const jsonStr = response.text;
-      if (!jsonStr || jsonStr.trim() === '') {
-        logger.error('AI world analysis received empty response text.', { response });
-        if (response.promptFeedback?.blockReason) {
-            throw new Error(`AI response blocked. Reason: ${response.promptFeedback.blockReason}.`);
+          schema: worldAnalysisSchema,
         }
-        throw new Error('Received an empty response from the AI for world analysis.');
-      }
-      const report = JSON.parse(jsonStr.trim()) as AiAnalysisReport;
-      logger.apiResponse('AI world analysis successful', { response: report });
-      return report;
-    } else {
-        // Fallback for non-Gemini providers with less reliable JSON formatting
-        const openAIPrompt = `${systemPrompt}\n\n${userPrompt}`;
-        const body = {
-            model,
-            messages: [
-                { role: "system", content: "You are a helpful assistant that only responds in JSON." },
-                { role: "user", content: openAIPrompt }
-            ],
-            temperature: 0.2,
-            response_format: { type: "json_object" },
+      : {
+          // Fallback for providers without schema support and less reliable JSON formatting
+          apiKey,
+          model,
+          settings,
+          systemPrompt: 'You are a helpful assistant that only responds in JSON.',
+          messages: [{ role: 'user', content: `${systemPrompt}\n\n${userPrompt}` }],
+          temperature: 0.2,
         };
-        const response = await fetchWithRetry(API_ENDPOINTS[provider], {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
-            body: JSON.stringify(body)
-        }).then(handleApiResponse);
-
-        const data = await response.json();
-        const content = data.choices[0]?.message?.content;
-        if (!content) throw new Error('Invalid response format from API.');
-        const report = parseJsonFromLlmResponse(content) as AiAnalysisReport;
-        logger.apiResponse('AI world analysis successful', { response: report });
-        return report;
-    }
+
+    const report = await requestJsonCompletion<AiAnalysisReport>(provider, request);
+    logger.apiResponse('AI world analysis successful', { response: report });
+    return report;
   } catch (error) {
     throw handleApiError(error, provider);
   }
@@ -559,6 +561,7 @@ export async function summarizeMessages({
   provider,
   apiKey,
   model,
+  settings,
   messages,
   previousSummary,
 }: SummarizeParams): Promise<string> {
@@ -591,61 +594,144 @@ Instructions:
 
     logger.apiRequest('Summarizing conversation', { provider, model });
 
-    if (provider === LLMProvider.GEMINI) {
-      const response = await geminiAI.models.generateContent({
-        model,
-        contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-        config: { systemInstruction: systemPrompt },
-      });
-      const summary = response.text;
-      if (!summary) {
-        logger.log('Summarization returned an empty response.', { response });
-        if (response.promptFeedback?.blockReason) {
-            throw new Error(`AI response blocked during summarization. Reason: ${response.promptFeedback.blockReason}.`);
-        }
-        return ''; // An empty summary is a valid result
-      }
-      logger.apiResponse('Summarization successful', { summary });
-      return summary.trim();
-    } else {
-      const endpoint = API_ENDPOINTS[provider as keyof typeof API_ENDPOINTS];
-      if (!endpoint)
-        throw new Error(`API endpoint for ${provider} is not configured.`);
+    const summary = await requestTextCompletion(provider, {
+      apiKey,
+      model,
+      settings,
+      systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      temperature: 0.3, // Lower temperature for more factual summary
+    });
+    if (!summary) {
+      logger.log('Summarization returned an empty response.');
+      return ''; // An empty summary is a valid result
+    }
+    logger.apiResponse('Summarization successful', { summary });
+    return summary.trim();
+  } catch (error) {
+    throw handleApiError(error, provider);
+  }
+}
 
-      const body = {
-        model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.3, // Lower temperature for more factual summary
-      };
-
-      const response = await fetchWithRetry(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
+const structuredMemorySchema = {
+  type: Type.OBJECT,
+  properties: {
+    userFacts: { type: Type.ARRAY, items: { type: Type.STRING } },
+    relationships: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          state: { type: Type.STRING },
         },
-        body: JSON.stringify(body),
-      }).then(handleApiResponse);
-
-      const data = await response.json();
-      const summary = data.choices[0]?.message?.content?.trim();
-      if (!summary)
-        throw new Error('Invalid response format from summarization API.');
-      logger.apiResponse('Summarization successful', { summary });
-      return summary;
-    }
+        required: ['name', 'state'],
+      },
+    },
+    inventory: { type: Type.ARRAY, items: { type: Type.STRING } },
+    plotThreads: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['userFacts', 'relationships', 'inventory', 'plotThreads'],
+};
+
+/**
+ * Updates a session's structured memory from the messages since its last update.
+ * @param params The provider, the new messages and the current record.
+ * @returns The updated lists. Timestamps and the covered message are left to the caller.
+ */
+export async function extractStructuredMemory({
+  provider,
+  apiKey,
+  model,
+  settings,
+  messages,
+  speakerName,
+  previous,
+  summary,
+}: ExtractMemoryParams): Promise<StructuredMemoryFields> {
+  try {
+    const systemPrompt = `You maintain the continuity record of an ongoing roleplay. Update the record from the new messages and return it as a single JSON object with these fields:
+
+1.  **userFacts**: Facts established about the user's character: name, appearance, background, abilities, preferences, promises made.
+2.  **relationships**: How characters stand with each other and with the user. One entry per pair or character, as { "name", "state" }, where "state" says where things stand now and why.
+3.  **inventory**: Items, money and other resources the user's character currently has.
+4.  **plotThreads**: Unresolved threads: open questions, pending goals, threats, promises not yet kept.
+
+Rules:
+- Start from the CURRENT RECORD. Keep entries that still hold, rewrite entries that changed, and remove ones that no longer apply (items used up, threads resolved).
+- Each entry is one short sentence. Do not repeat information across entries.
+- Keep at most ${MAX_STRUCTURED_MEMORY_ITEMS} entries per field, merging the least important ones.
+- Only record what the messages establish. Do not invent anything.
+
+CRITICAL: Your entire response MUST be a single, valid JSON object. Do not include any text outside of the JSON structure.`;
+
+    const userPromptParts = [];
+    if (summary) userPromptParts.push('### STORY SO FAR ###', summary);
+    userPromptParts.push('### CURRENT RECORD ###', formatStructuredMemory(previous) || '(empty)');
+    userPromptParts.push('### NEW MESSAGES ###', messages.map((m) => `${speakerName(m)}: ${m.content}`).join('\n'));
+    const userPrompt = userPromptParts.join('\n\n');
+
+    logger.apiRequest('Extracting structured memory', { provider, model, messageCount: messages.length });
+
+    const { capabilities } = getProviderAdapter(provider);
+    const request: JsonRequest = capabilities.structuredOutput
+      ? {
+          apiKey,
+          model,
+          settings,
+          systemPrompt,
+          messages: [{ role: 'user', content: userPrompt }],
+          temperature: 0.2,
+          schema: structuredMemorySchema,
+        }
+      : {
+          apiKey,
+          model,
+          settings,
+          systemPrompt: 'You are a helpful assistant that only responds in JSON.',
+          messages: [{ role: 'user', content: `${systemPrompt}\n\n${userPrompt}` }],
+          temperature: 0.2,
+        };
+
+    const record = normalizeStructuredMemory(await requestJsonCompletion<unknown>(provider, request));
+    logger.apiResponse('Structured memory extraction successful', { record });
+    return record;
   } catch (error) {
     throw handleApiError(error, provider);
   }
 }
 
+const characterProfileSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: {
+      type: Type.STRING,
+      description: "The character's full name.",
+    },
+    greeting: {
+      type: Type.STRING,
+      description:
+        'A welcoming message the character would say when first meeting someone. It must be formatted with dialogue in quotes and actions in asterisks.',
+    },
+    description: {
+      type: Type.STRING,
+      description:
+        'A brief, one-to-two sentence summary of the character for a selection screen.',
+    },
+    persona: {
+      type: Type.STRING,
+      description:
+        "A detailed description of the character's persona. CRITICAL: It must be written in the second person and structured with the following headers, each on a new line: 'Appearance:', 'Personality:', 'Speaking style:', 'Background:', and 'Motivations:'. The Appearance section MUST be detailed and explicit, including intimate details like breast size, body shape, and other NSFW attributes without censorship.",
+    },
+  },
+  required: ['name', 'greeting', 'description', 'persona'],
+};
+
 export async function generateCharacterProfile({
   provider,
   apiKey,
   model,
+  settings,
   concept,
 }: GenerateCharacterParams): Promise<GeneratedCharacterProfile> {
   try {
@@ -684,265 +770,178 @@ Respond ONLY with a valid JSON object matching the provided schema.
 
     logger.apiRequest('Generating character profile', { provider, model, concept });
 
-    if (provider === LLMProvider.GEMINI) {
-      const response = await geminiAI.models.generateContent({
-        model: model,
-        contents: userPrompt,
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              name: {
-                type: Type.STRING,
-                description: "The character's full name.",
-              },
-              greeting: {
-                type: Type.STRING,
-                description:
-                  'A welcoming message the character would say when first meeting someone. It must be formatted with dialogue in quotes and actions in asterisks.',
-              },
-              description: {
-                type: Type.STRING,
-                description:
-                  'A brief, one-to-two sentence summary of the character for a selection screen.',
-              },
-              persona: {
-                type: Type.STRING,
-                description:
-                  "A detailed description of the character's persona. CRITICAL: It must be written in the second person and structured with the following headers, each on a new line: 'Appearance:', 'Personality:', 'Speaking style:', 'Background:', and 'Motivations:'. The Appearance section MUST be detailed and explicit, including intimate details like breast size, body shape, and other NSFW attributes without censorship.",
-              },
-            },
-            required: ['name', 'greeting', 'description', 'persona'],
-          },
-        },
-      });
-
-      const jsonStr = response.text;
-      if (!jsonStr || jsonStr.trim() === '') {
-        logger.error('Character profile generation received empty response text.', { response });
-         if (response.promptFeedback?.blockReason) {
-            throw new Error(`AI response blocked. Reason: ${response.promptFeedback.blockReason}.`);
-        }
-        throw new Error('Received an empty response from the AI for character generation.');
-      }
-      const profile = JSON.parse(jsonStr.trim()) as GeneratedCharacterProfile;
-      logger.apiResponse('Character profile generated successfully', {
-        response: profile,
-      });
-      return profile;
-    } else {
-      const endpoint = API_ENDPOINTS[provider as keyof typeof API_ENDPOINTS];
-      if (!endpoint)
-        throw new Error(`API endpoint for ${provider} is not configured.`);
-
-      const body = {
-        model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        response_format: { type: 'json_object' },
-      };
-
-      const response = await fetchWithRetry(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(body),
-      }).then(handleApiResponse);
-
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('Invalid response format from API.');
-      }
-      const profile = parseJsonFromLlmResponse(content) as GeneratedCharacterProfile;
-      logger.apiResponse('Character profile generated successfully', {
-        response: profile,
-      });
-      return profile;
-    }
+    // The schema is only enforced by providers with structured output; the system prompt
+    // already spells out the expected JSON shape for everyone else.
+    const profile = await requestJsonCompletion<GeneratedCharacterProfile>(provider, {
+      apiKey,
+      model,
+      settings,
+      systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      schema: characterProfileSchema,
+    });
+    logger.apiResponse('Character profile generated successfully', {
+      response: profile,
+    });
+    return profile;
   } catch (error) {
     throw handleApiError(error, provider);
   }
 }
 
-async function* parseOpenAIStream(
-  readableStream: ReadableStream<Uint8Array>,
-  signal?: AbortSignal,
-): AsyncGenerator<string> {
-  const reader = readableStream.getReader();
-  const decoder = new TextDecoder();
-  let buffer = '';
-
-  while (true) {
-    if (signal?.aborted) {
-      reader.cancel('Stream aborted by user');
-      break;
-    }
-
-    const { done, value } = await reader.read();
-    if (done) {
-      if (buffer) {
-        logger.error('Stream ended with unprocessed data in buffer', {
-          buffer,
-        });
-      }
-      break;
-    }
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split('\n');
-    buffer = lines.pop() || ''; // Keep the last, possibly incomplete line
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const jsonStr = line.substring(6);
-        if (jsonStr === '[DONE]') {
-          return;
-        }
-        try {
-          const parsed = JSON.parse(jsonStr);
-          const content = parsed.choices[0]?.delta?.content;
-          if (content) {
-            yield content;
-          }
-        } catch (e) {
-          logger.error('Error parsing stream JSON chunk', {
-            jsonStr,
-            error: e,
-          });
-        }
-      }
-    }
-  }
+/**
+ * Picks the lore entries for a single-character prompt, within the lore share of its budget.
+ * @param params The completion parameters.
+ * @returns The chosen entries, or none if the chat has no world.
+ */
+export function retrieveChatLore(params: CompletionParams): LoreRetrieval {
+  const {
+    model,
+    messages,
+    characterPersona,
+    scenario = '',
+    userPersona,
+    world,
+    contextSize,
+    maxOutputTokens,
+    loreRelevance,
+    loreActivations,
+    random = Math.random,
+    characterName,
+    activeCharacterNames,
+    interactionData,
+    settings,
+  } = params;
+  if (!world) return NO_LORE;
+  return retrieveLore({
+    world,
+    messages,
+    tokenizer: getTokenizer(model),
+    loreCap: planContextBudget(contextSize, maxOutputTokens, settings.contextBudget).loreCap,
+    characterNames: [characterName, ...(activeCharacterNames || [])].filter(Boolean) as string[],
+    contexts: [
+      { text: scenario, score: 5, label: 'Scenario' },
+      { text: userPersona?.description, score: 5, label: 'User Persona' },
+      { text: characterPersona, score: 3, label: 'Character Persona' },
+    ],
+    loreRelevance,
+    loreActivations,
+    interactionData,
+    random,
+  });
 }
 
-async function* getGeminiCompletionStream(
-  messages: Message[],
-  model: string,
-  temperature: number,
-  maxOutputTokens: number,
-  prefill?: string,
-  signal?: AbortSignal,
-): AsyncGenerator<string> {
-  const systemPrompt = messages.find((m) => m.role === 'system')?.content || '';
-  const chatMessages = messages.filter((m) => m.role !== 'system');
-
-  const contents = chatMessages.map((msg) => ({
-    role: msg.role === 'assistant' ? 'model' : 'user',
-    parts: [{ text: msg.content }],
-  }));
-
-  if (prefill) {
-    // Add the start of the model's response to guide it
-    contents.push({ role: 'model', parts: [{ text: prefill }] });
-  }
-
-  const geminiConfig: {
-    temperature: number;
-    systemInstruction: string;
-    maxOutputTokens?: number;
-  } = {
-    temperature: temperature,
-    systemInstruction: systemPrompt,
-  };
-
-  if (maxOutputTokens > 0) {
-    geminiConfig.maxOutputTokens = maxOutputTokens;
+/**
+ * Assembles the system prompt and truncated history for a single-character chat,
+ * along with a per-section token budget.
+ * @param params The completion parameters.
+ * @returns The prompt as it would be sent to the provider.
+ */
+export function buildChatPrompt(params: CompletionParams): AssembledPrompt {
+  const {
+    model,
+    messages,
+    characterPersona,
+    scenario = '',
+    exampleDialogue,
+    userPersona,
+    globalSystemPrompt,
+    world,
+    contextSize,
+    maxOutputTokens,
+    memorySummary,
+    structuredMemory,
+    recalledExchanges,
+    characterName,
+    settings,
+    promptTemplate,
+  } = params;
+  const tokenizer = getTokenizer(model);
+  const plan = planContextBudget(contextSize, maxOutputTokens, settings.contextBudget);
+  let summaryTokensTrimmed = 0;
+  let summary = '';
+
+  if (memorySummary) {
+    summary = truncateToTokens(memorySummary, plan.summaryCap, tokenizer);
+    summaryTokensTrimmed = tokenizer.count(memorySummary) - tokenizer.count(summary);
   }
+  // Structured memory is another view of the same history, so it gets the same cap as the summary.
+  const memory = truncateToTokens(formatStructuredMemory(structuredMemory), plan.summaryCap, tokenizer);
 
-  const responseStream = await geminiAI.models.generateContentStream({
-    model: model,
-    contents: contents,
-    config: geminiConfig,
-  });
+  const lore = params.lore ?? retrieveChatLore(params);
 
-  for await (const chunk of responseStream) {
-    if (signal?.aborted) {
-      logger.log('Gemini stream generation stopped by user.');
-      break;
-    }
-    if (chunk.text) {
-      yield chunk.text;
+  const template = promptTemplate ?? resolvePromptTemplate('single', settings, { world });
+  // Personas and lore may use macros of their own, so they are expanded after the template is filled in.
+  const macroContext: MacroContext = {
+    char: characterName || '',
+    user: userPersona?.name || '',
+    lastMessage: messages[messages.length - 1]?.content,
+  };
+  const depthLoreMessages = toDepthLoreMessages(lore, macroContext);
+  const depthLoreTokens = depthLoreMessages.reduce((sum, l) => sum + tokenizer.count(l.message.content), 0);
+  const promptHistory = toPromptHistory(messages);
+  const allExamples = splitExampleDialogue(exampleDialogue);
+  const exampleBlocks = fitWithinBudget(allExamples, (b) => tokenizer.count(b), plan.examplesCap).kept;
+  const assemble = (recall: string, examples: string[]) => {
+    const promptParts = createPromptParts();
+    for (const { section, text } of renderPromptTemplate(template, {
+      char: macroContext.char,
+      user: macroContext.user,
+      persona: userPersona?.description || '',
+      description: characterPersona,
+      scenario,
+      examples: examples.join('\n\n---\n\n'),
+      summary,
+      memory,
+      recall,
+      lore: lore.content,
+      system: globalSystemPrompt,
+    })) {
+      promptParts.push(section, expandMacros(text, macroContext));
     }
-  }
-}
-
-async function* getOpenAICompatibleCompletionStream(
-  provider: LLMProvider.OPENROUTER | LLMProvider.DEEPSEEK,
-  apiKey: string,
-  messages: Message[],
-  model: string,
-  temperature: number,
-  maxOutputTokens: number,
-  prefill?: string,
-  signal?: AbortSignal,
-): AsyncGenerator<string> {
-  const endpoint = API_ENDPOINTS[provider];
-
-  const apiMessages = messages.map((m) => ({
-    role: m.role,
-    content: m.content,
-  }));
-
-  if (prefill) {
-    apiMessages.push({ role: 'assistant', content: prefill });
-  }
-
-  const body: {
-    model: string;
-    messages: { role: 'user' | 'assistant' | 'system'; content: string }[];
-    temperature: number;
-    stream: true;
-    max_tokens?: number;
-  } = {
-    model,
-    messages: apiMessages,
-    temperature: temperature,
-    stream: true,
+    const systemPrompt = promptParts.join('\n\n');
+    const historyBudget = Math.max(plan.inputBudget - tokenizer.count(systemPrompt) - depthLoreTokens, 0);
+    return { promptParts, systemPrompt, historyBudget, ...fitHistory(promptHistory, tokenizer, historyBudget) };
   };
 
-  if (maxOutputTokens > 0) {
-    body.max_tokens = maxOutputTokens;
+  // Example dialogue gives way to history: exchanges come off the end until every message fits.
+  let examples = exampleBlocks;
+  let assembled = assemble('', examples);
+  while (examples.length > 0 && assembled.kept.length < promptHistory.length) {
+    examples = examples.slice(0, -1);
+    assembled = assemble('', examples);
   }
-
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-    signal,
+  // Only exchanges that fall out of the history are recalled, so the history is fitted first.
+  const recall = selectRecalledExchanges(recalledExchanges, assembled.kept, plan.recallCap, tokenizer);
+  if (recall) assembled = assemble(recall, examples);
+  const { promptParts, systemPrompt: finalSystemPrompt, historyBudget, kept: truncatedMessages } = assembled;
+
+  logDroppedContent(plan, {
+    historyBudget,
+    droppedLore: lore.dropped,
+    summaryTokensTrimmed,
+    messagesDropped: messages.length - truncatedMessages.length,
+    totalMessages: messages.length,
+    examplesDropped: allExamples.length - examples.length,
   });
 
-  if (!response.ok) {
-    if (signal?.aborted) {
-      throw new DOMException('The user aborted a request.', 'AbortError');
-    }
-    const errorBodyText = await response.text().catch(() => `(Could not read error body for status ${response.status})`);
-    
-    logger.error(`OpenAI-compatible API request failed: ${response.status}`, {
-      provider,
-      status: response.status,
-      body: errorBodyText,
-      requestBody: body,
-    });
-    
-    const error = new Error(errorBodyText);
-    (error as any).status = response.status;
-    throw error;
-  }
-
-  if (!response.body) {
-    throw new Error('The response body is empty.');
-  }
+  const mergedHistory = mergeConsecutiveRoleMessages(insertDepthLore(truncatedMessages, depthLoreMessages));
+  const apiMessages = mergedHistory.filter((m) => m.role !== 'system');
 
-  yield* parseOpenAIStream(response.body, signal);
+  return {
+    systemPrompt: finalSystemPrompt,
+    messages: apiMessages,
+    loreEntries: lore.entries,
+    budget: buildPromptBudget({
+      tokenizer,
+      promptParts,
+      history: apiMessages,
+      historyMessagesTotal: messages.length,
+      contextSize,
+      maxOutputTokens,
+      historyLoreTokens: depthLoreTokens,
+    }),
+  };
 }
 
 export async function* getChatCompletionStream(
@@ -952,20 +951,14 @@ export async function* getChatCompletionStream(
     provider,
     apiKey,
     model,
-    messages,
-    characterPersona,
-    userPersona,
-    globalSystemPrompt,
-    world,
+    settings,
     temperature,
+    samplers,
     prefill,
     signal,
-    contextSize,
     maxOutputTokens,
-    memorySummary,
-    characterName,
-    activeCharacterNames,
-    interactionData,
+    contextSize,
+    onPromptSnapshot,
   } = params;
   
   try {
@@ -975,349 +968,143 @@ export async function* getChatCompletionStream(
       );
     }
 
-    const promptParts: string[] = [];
-
-    promptParts.push('### CORE INSTRUCTIONS & GUIDELINES ###');
-    promptParts.push(globalSystemPrompt);
-
-    if (userPersona) {
-      promptParts.push('### USER PERSONA ###');
-      promptParts.push(
-        'This is the persona of the user you are roleplaying with. Keep their details in mind for your responses.',
-      );
-      promptParts.push(`- **Name:** ${userPersona.name}`);
-      promptParts.push(`- **Description:** ${userPersona.description}`);
-    }
-
-    if (memorySummary) {
-      promptParts.push('### CONVERSATION SUMMARY ###');
-      promptParts.push(
-        'This is a summary of the conversation so far. Use it to maintain context and continuity.',
-      );
-      promptParts.push(`---\n${memorySummary}\n---`);
-    }
-
-    // --- Smart World Lore Retrieval (RAG v5) ---
-    const MAX_LORE_ENTRIES = 7;
-
-    if (world?.entries && world.entries.length > 0) {
-      const allEnabledEntries = world.entries.filter((e) => e.enabled);
-      if (allEnabledEntries.length > 0) {
-        const worldIndex = getOrBuildWorldIndex(world);
-        const { entryIdToEntryMap } = worldIndex;
-
-        const candidateScores = new Map<
-          string,
-          { score: number; reasons: Set<string> }
-        >();
-        const addScore = (entry: WorldEntry, score: number, reason: string) => {
-          if (!candidateScores.has(entry.id))
-            candidateScores.set(entry.id, { score: 0, reasons: new Set() });
-          const current = candidateScores.get(entry.id)!;
-          current.score += score;
-          current.reasons.add(reason);
-        };
-
-        for (const entry of allEnabledEntries) {
-          if (entry.isAlwaysActive) addScore(entry, 100, 'Always Active');
-          if (interactionData && interactionData[entry.id]) {
-            const interactionScore = Math.round(
-              Math.log1p(interactionData[entry.id].viewCount) * 15,
-            );
-            if (interactionScore > 0)
-              addScore(
-                entry,
-                interactionScore,
-                `User Interaction (${interactionData[entry.id].viewCount} views)`,
-              );
-          }
-        }
-
-        const allActiveChars = [
-          characterName,
-          ...(activeCharacterNames || []),
-        ].filter(Boolean) as string[];
-        if (allActiveChars.length > 0) {
-          for (const charName of allActiveChars) {
-            const lowerCharName = charName.toLowerCase();
-            if (worldIndex.plainKeywordMap.has(lowerCharName)) {
-              worldIndex.plainKeywordMap
-                .get(lowerCharName)!
-                .forEach((entry: WorldEntry) => {
-                  addScore(
-                    entry,
-                    50,
-                    `Linked to active character: "${charName}"`,
-                  );
-                });
-            }
-          }
-        }
-
-        const searchContext = (text: string, baseScore: number, type: string) => {
-          const matches = findMatchesInText(text, worldIndex);
-          for (const matchData of matches.values()) {
-            const frequencyBonus = Math.pow(matchData.count, 1.2);
-            const finalScore = baseScore * frequencyBonus;
-            const reasonSummary = Array.from(matchData.reasons)
-              .slice(0, 2)
-              .join(', ');
-            addScore(
-              matchData.entry,
-              finalScore,
-              `${type}: ${reasonSummary} (x${matchData.count})`,
-            );
-          }
-        };
-
-        const recentMessages = messages.slice(-5);
-        recentMessages.forEach((message, i) => {
-          const recency = recentMessages.length - 1 - i;
-          const recencyScore = Math.max(2, 12 - recency * 2);
-          searchContext(message.content, recencyScore, `Message (t-${recency})`);
-        });
-
-        searchContext(userPersona?.description, 5, 'User Persona');
-        searchContext(characterPersona, 3, 'Character Persona');
-
-        if (candidateScores.size > 0) {
-          const rankedCandidates = Array.from(candidateScores.entries())
-            .map(([id, data]) => ({
-              entry: entryIdToEntryMap.get(id)!,
-              ...data,
-            }))
-            .sort((a, b) => b.score - a.score)
-            .slice(0, MAX_LORE_ENTRIES);
-
-          if (rankedCandidates.length > 0) {
-            const finalEntries = rankedCandidates.map((c) => c.entry);
-            promptParts.push('### RELEVANT WORLD LORE ###');
-            promptParts.push(
-              'The following lore entries are relevant to the current scene. You MUST consult them for context and consistency.',
-            );
-            const lorebookContent = finalEntries
-              .map(
-                (entry) =>
-                  `--- Entry: ${entry.name || 'Untitled'} (Keywords: ${(
-                    entry.keys || []
-                  ).join(', ')}) ---\n${entry.content}`,
-              )
-              .join('\n\n');
-            promptParts.push(lorebookContent);
-
-            logger.log('Injected ranked lore entries', {
-              count: finalEntries.length,
-              world: world?.name,
-              entries: rankedCandidates.map((c) => ({
-                name: c.entry.name,
-                score: Math.round(c.score),
-                reasons: Array.from(c.reasons),
-              })),
-            });
-          }
-        }
-      }
-    }
-
-    promptParts.push('### YOUR CHARACTER ###');
-    promptParts.push(
-      `This is your character's persona for this scene. You must fully embody this character.`,
-    );
-    promptParts.push(characterPersona);
-
-    const finalSystemPrompt = promptParts.join('\n\n');
-
-    const availableTokensForHistory = contextSize;
-    const truncatedMessages: Message[] = [];
-    let usedTokens = 0;
-
-    for (let i = messages.length - 1; i >= 0; i--) {
-      const message = messages[i];
-      const messageTokens = estimateTokens(message.content);
-      if (usedTokens + messageTokens > availableTokensForHistory) {
-        logger.log(`Context limit reached. Truncating messages.`, {
-          availableTokens: availableTokensForHistory,
-          usedTokens,
-          totalMessages: messages.length,
-          messagesKept: truncatedMessages.length,
-        });
-        break;
-      }
-      truncatedMessages.unshift(message);
-      usedTokens += messageTokens;
-    }
-
-    const mergedHistory = mergeConsecutiveRoleMessages(truncatedMessages);
-    const systemMessage: Message = { id: 'system-prompt-message', role: 'system', content: finalSystemPrompt };
-    const apiMessages = [systemMessage, ...mergedHistory.filter((m) => m.role !== 'system')];
+    const prompt = buildChatPrompt(params);
+    const request = adaptRequestToProvider(provider, {
+      apiKey,
+      model,
+      settings,
+      systemPrompt: prompt.systemPrompt,
+      messages: prompt.messages,
+      temperature,
+      maxOutputTokens,
+      samplers,
+      prefill,
+      signal,
+    });
+    onPromptSnapshot?.(createPromptSnapshot(provider, request, prompt, contextSize));
 
-    if (provider === LLMProvider.GEMINI) {
-      yield* getGeminiCompletionStream(
-        apiMessages, model, temperature, maxOutputTokens, prefill, signal
-      );
-    } else if (
-      provider === LLMProvider.OPENROUTER ||
-      provider === LLMProvider.DEEPSEEK
-    ) {
-      yield* getOpenAICompatibleCompletionStream(
-        provider, apiKey, apiMessages, model, temperature, maxOutputTokens, prefill, signal
-      );
-    } else {
-      throw new Error(`Unsupported provider: ${provider}`);
-    }
+    yield* getProviderAdapter(provider).streamChat(request);
   } catch (error) {
     throw handleApiError(error, provider);
   }
 }
 
-interface GroupCompletionParams
+const groupTurnSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      characterName: { type: Type.STRING },
+      content: { type: Type.STRING },
+    },
+    required: ['characterName', 'content'],
+  },
+};
+
+export interface GroupCompletionParams
   extends Omit<
     CompletionParams,
-    'characterPersona' | 'characterName' | 'prefill'
+    'characterPersona' | 'characterName' | 'prefill' | 'exampleDialogue' | 'lore'
   > {
   scenario: string;
   sessionCharacters: { name: string; persona: string }[];
 }
 
-export async function getGroupChatCompletion(
-  params: GroupCompletionParams,
-): Promise<GroupTurnAction[]> {
+/**
+ * Assembles the system prompt and truncated history for a group chat turn, including
+ * the response format the provider is asked to follow, along with a per-section token budget.
+ * @param params The group completion parameters.
+ * @returns The prompt as it would be sent to the provider.
+ */
+export function buildGroupChatPrompt(params: GroupCompletionParams): AssembledPrompt {
   const {
     provider,
-    apiKey,
     model,
     messages: allMessages,
     userPersona,
     globalSystemPrompt,
     world,
-    temperature,
     contextSize,
     maxOutputTokens,
     memorySummary,
+    structuredMemory,
+    recalledExchanges,
+    loreRelevance,
+    loreActivations,
+    random = Math.random,
+    interactionData,
     sessionCharacters,
     scenario,
+    settings,
+    promptTemplate,
   } = params;
-  
-  try {
-    if (!model?.trim()) {
-      throw new Error(
-        `Model name for ${provider} is not configured. Please set it in API Settings.`,
-      );
-    }
-
-    const promptParts: string[] = [];
-
-    promptParts.push('### CORE INSTRUCTIONS: GROUP SCENE DIRECTOR ###');
-    promptParts.push(
-      `You are a master storyteller and scene director for a multi-character roleplay. Your task is to advance the scene based on the latest user message and the established context. You must direct the characters, deciding who speaks or acts. You can have one or multiple characters act in a single turn. You can also include narrative descriptions.`,
-    );
-
-    promptParts.push('### SCENE DETAILS ###');
-    promptParts.push(`**Scenario:** ${scenario}`);
-    promptParts.push(
-      `**Characters in Scene:**\n${sessionCharacters
-        .map((c) => `- ${c.name}`)
-        .join('\n')}`,
-    );
-
-    promptParts.push('### ROLEPLAY GUIDELINES ###');
-    promptParts.push(globalSystemPrompt);
-
-    if (userPersona) {
-      promptParts.push('### USER PERSONA ###');
-      promptParts.push('This is the persona of the user you are roleplaying with.');
-      promptParts.push(`- **Name:** ${userPersona.name}`);
-      promptParts.push(`- **Description:** ${userPersona.description}`);
-    }
-
-    if (memorySummary) {
-      promptParts.push('### CONVERSATION SUMMARY ###');
-      promptParts.push('This is a summary of the conversation so far.');
-      promptParts.push(`---\n${memorySummary}\n---`);
-    }
-
-    if (world?.entries) {
-      const activeEntries = world.entries.filter(
-        (e) => e.enabled && e.isAlwaysActive,
-      );
-      if (activeEntries.length > 0) {
-        promptParts.push('### RELEVANT WORLD LORE ###');
-        promptParts.push(
-          'The following lore entries are relevant. You MUST consult them for context and consistency.',
-        );
-        promptParts.push(
-          activeEntries.map((e) => e.content).join('\n---\n'),
-        );
-      }
-    }
-
-    promptParts.push('### FULL CHARACTER PERSONAS ###');
-    promptParts.push(
-      'This is a reference for all characters in the scene. Use it to ensure their actions and dialogue are in-character.',
-    );
-    promptParts.push(
-      sessionCharacters
+  const tokenizer = getTokenizer(model);
+  const plan = planContextBudget(contextSize, maxOutputTokens, settings.contextBudget);
+  let summaryTokensTrimmed = 0;
+
+  let summary = '';
+  if (memorySummary) {
+    summary = truncateToTokens(memorySummary, plan.summaryCap, tokenizer);
+    summaryTokensTrimmed = tokenizer.count(memorySummary) - tokenizer.count(summary);
+  }
+  // Structured memory is another view of the same history, so it gets the same cap as the summary.
+  const memory = truncateToTokens(formatStructuredMemory(structuredMemory), plan.summaryCap, tokenizer);
+
+  const lore = world
+    ? retrieveLore({
+        world,
+        messages: allMessages,
+        tokenizer,
+        loreCap: plan.loreCap,
+        characterNames: sessionCharacters.map((c) => c.name),
+        contexts: [
+          { text: scenario, score: 5, label: 'Scenario' },
+          { text: userPersona?.description, score: 5, label: 'User Persona' },
+        ],
+        loreRelevance,
+        loreActivations,
+        interactionData,
+        random,
+      })
+    : NO_LORE;
+
+  const template = promptTemplate ?? resolvePromptTemplate('group', settings, { world });
+  const macroContext: MacroContext = {
+    char: sessionCharacters.map((c) => c.name).join(', '),
+    user: userPersona?.name || '',
+    lastMessage: allMessages[allMessages.length - 1]?.content,
+  };
+  const depthLoreMessages = toDepthLoreMessages(lore, macroContext);
+  const depthLoreTokens = depthLoreMessages.reduce((sum, l) => sum + tokenizer.count(l.message.content), 0);
+  const promptHistory = toPromptHistory(allMessages);
+  const assemble = (recall: string) => {
+    const promptParts = createPromptParts();
+    for (const { section, text } of renderPromptTemplate(template, {
+      char: macroContext.char,
+      user: macroContext.user,
+      persona: userPersona?.description || '',
+      description: sessionCharacters
         .map((c) => `--- ${c.name} ---\n${c.persona}\n---`)
         .join('\n\n'),
-    );
-
-    const finalSystemPrompt = promptParts.join('\n\n');
-
-    const availableTokensForHistory = contextSize;
-    const truncatedMessages: Message[] = [];
-    let usedTokens = 0;
-    for (let i = allMessages.length - 1; i >= 0; i--) {
-      const message = allMessages[i];
-      const messageTokens = estimateTokens(message.content);
-      if (usedTokens + messageTokens > availableTokensForHistory) break;
-      truncatedMessages.unshift(message);
-      usedTokens += messageTokens;
+      scenario,
+      examples: '',
+      summary,
+      memory,
+      recall,
+      lore: lore.content,
+      system: globalSystemPrompt,
+    })) {
+      promptParts.push(section, expandMacros(text, macroContext));
     }
-    const mergedHistory = mergeConsecutiveRoleMessages(truncatedMessages);
 
-    if (provider === LLMProvider.GEMINI) {
-      const geminiPrompt = `${finalSystemPrompt}\n\n### RESPONSE FORMAT ###\nBased on the conversation history, generate the next turn in the scene as an array of actions.
+    // The response format is tied to how the reply is parsed, so it is not part of the editable template.
+    if (getProviderAdapter(provider).capabilities.structuredOutput) {
+      promptParts.push('system', `### RESPONSE FORMAT ###\nBased on the conversation history, generate the next turn in the scene as an array of actions.
 - For a character's turn, use their exact name for "characterName".
 - For narrative descriptions of the scene, use the special name "Narrator" for "characterName".
-- "content" should be a string containing the dialogue and/or actions, following standard roleplay format (e.g., *He looks around.* "What was that?").`;
-
-      const response = await geminiAI.models.generateContent({
-        model,
-        contents: [
-          ...mergedHistory.map((msg) => ({
-            role: msg.role === 'assistant' ? 'model' : 'user',
-            parts: [{ text: msg.content }],
-          })),
-        ],
-        config: {
-          systemInstruction: geminiPrompt,
-          temperature,
-          maxOutputTokens,
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                characterName: { type: Type.STRING },
-                content: { type: Type.STRING },
-              },
-              required: ['characterName', 'content'],
-            },
-          },
-        },
-      });
-      const jsonStr = response.text;
-      if (!jsonStr || jsonStr.trim() === '') {
-        logger.error('Group chat completion received empty response text.', { response });
-         if (response.promptFeedback?.blockReason) {
-            throw new Error(`AI response blocked. Reason: ${response.promptFeedback.blockReason}.`);
-        }
-        throw new Error('Received an empty response from the AI for group chat turn.');
-      }
-      return JSON.parse(jsonStr.trim()) as GroupTurnAction[];
+- "content" should be a string containing the dialogue and/or actions, following standard roleplay format (e.g., *He looks around.* "What was that?").`);
     } else {
-      const openAIPrompt = `${finalSystemPrompt}\n\n### RESPONSE FORMAT ###\nYOUR RESPONSE MUST BE A VALID JSON OBJECT with a single key "turn".
+      promptParts.push('system', `### RESPONSE FORMAT ###\nYOUR RESPONSE MUST BE A VALID JSON OBJECT with a single key "turn".
 The value of "turn" must be an array of action objects.
 Each object in the array represents a single character's action or dialogue, or a narrative description.
 
@@ -1326,38 +1113,91 @@ The JSON schema for each object is: { "characterName": string, "content": string
 - For narrative descriptions of the scene, use the special name "Narrator" for "characterName".
 - "content" should be a string containing the dialogue and/or actions, following standard roleplay format (e.g., *He looks around.* "What was that?").
 
-Based on the conversation history, generate the next turn in the scene.`;
+Based on the conversation history, generate the next turn in the scene.`);
+    }
 
-      const body = {
-        model,
-        messages: [
-          { role: 'system', content: openAIPrompt },
-          ...mergedHistory.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-        ],
-        temperature,
-        max_tokens: maxOutputTokens,
-        response_format: { type: 'json_object' },
-      };
-
-      const response = await fetchWithRetry(API_ENDPOINTS[provider as keyof typeof API_ENDPOINTS], {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(body),
-      }).then(handleApiResponse);
+    const systemPrompt = promptParts.join('\n\n');
+    const historyBudget = Math.max(plan.inputBudget - tokenizer.count(systemPrompt) - depthLoreTokens, 0);
+    return { promptParts, systemPrompt, historyBudget, ...fitHistory(promptHistory, tokenizer, historyBudget) };
+  };
 
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content;
-      if (!content) throw new Error('Invalid response format from API.');
-      const parsed = parseJsonFromLlmResponse(content);
+  // Only exchanges that fall out of the history are recalled, so the history is fitted first.
+  let assembled = assemble('');
+  const recall = selectRecalledExchanges(recalledExchanges, assembled.kept, plan.recallCap, tokenizer);
+  if (recall) assembled = assemble(recall);
+  const { promptParts, systemPrompt: finalSystemPrompt, historyBudget, kept: truncatedMessages } = assembled;
+
+  logDroppedContent(plan, {
+    historyBudget,
+    droppedLore: lore.dropped,
+    summaryTokensTrimmed,
+    messagesDropped: allMessages.length - truncatedMessages.length,
+    totalMessages: allMessages.length,
+  });
+
+  const mergedHistory = mergeConsecutiveRoleMessages(insertDepthLore(truncatedMessages, depthLoreMessages));
+
+  return {
+    systemPrompt: finalSystemPrompt,
+    messages: mergedHistory,
+    loreEntries: lore.entries,
+    budget: buildPromptBudget({
+      tokenizer,
+      promptParts,
+      history: mergedHistory,
+      historyMessagesTotal: allMessages.length,
+      contextSize,
+      maxOutputTokens,
+      historyLoreTokens: depthLoreTokens,
+    }),
+  };
+}
+
+export async function getGroupChatCompletion(
+  params: GroupCompletionParams,
+): Promise<GroupTurnAction[]> {
+  const {
+    provider,
+    apiKey,
+    model,
+    settings,
+    temperature,
+    samplers,
+    maxOutputTokens,
+    contextSize,
+    onPromptSnapshot,
+  } = params;
+  
+  try {
+    if (!model?.trim()) {
+      throw new Error(
+        `Model name for ${provider} is not configured. Please set it in API Settings.`,
+      );
+    }
+
+    const prompt = buildGroupChatPrompt(params);
+    const baseRequest = adaptRequestToProvider(provider, {
+      apiKey,
+      model,
+      settings,
+      systemPrompt: prompt.systemPrompt,
+      messages: prompt.messages,
+      temperature,
+      maxOutputTokens,
+      samplers,
+    });
+    onPromptSnapshot?.(createPromptSnapshot(provider, baseRequest, prompt, contextSize));
+
+    if (getProviderAdapter(provider).capabilities.structuredOutput) {
+      return await requestJsonCompletion<GroupTurnAction[]>(provider, {
+        ...baseRequest,
+        schema: groupTurnSchema,
+      });
+    } else {
+      const parsed = await requestJsonCompletion<{ turn?: GroupTurnAction[] }>(provider, baseRequest);
       if (!parsed.turn || !Array.isArray(parsed.turn))
         throw new Error('API did not return a `turn` array.');
-      return parsed.turn as GroupTurnAction[];
+      return parsed.turn;
     }
   } catch (error) {
     throw handleApiError(error, provider);
@@ -1389,26 +1229,22 @@ const worldGenerationSchema = {
     required: ['name', 'description', 'category', 'tags', 'entries'],
 };
 
-export async function generateWorldFromConcept({ provider, apiKey, model, concept, }: GenerateWorldParams): Promise<Partial<World>> {
-  if (provider !== LLMProvider.GEMINI) throw new Error("AI World Generation is currently only supported by Gemini.");
+export async function generateWorldFromConcept({ provider, apiKey, model, settings, concept }: GenerateWorldParams): Promise<Partial<World>> {
+  if (!getProviderAdapter(provider).capabilities.structuredOutput) throw new Error(`AI World Generation requires a provider with structured output support; ${provider} does not offer it.`);
   
   const systemPrompt = `You are a creative world-building AI. Based on the user's concept, generate a comprehensive world. Your response must be a single JSON object matching the provided schema. The world should have a name, description, tags, category, and a list of at least 5-10 detailed lore entries across different categories (Locations, Factions, Characters, Lore, etc.). Ensure the content is rich and interconnected.`;
   logger.apiRequest('Generating world from concept', { provider, model, concept });
 
   try {
-    const response = await geminiAI.models.generateContent({
+    return await requestJsonCompletion<Partial<World>>(provider, {
+        apiKey,
         model,
-        contents: `World Concept: "${concept}"`,
-        config: {
-            systemInstruction: systemPrompt,
-            temperature: 0.7,
-            responseMimeType: 'application/json',
-            responseSchema: worldGenerationSchema,
-        },
+        settings,
+        systemPrompt,
+        messages: [{ role: 'user', content: `World Concept: "${concept}"` }],
+        temperature: 0.7,
+        schema: worldGenerationSchema,
     });
-    const jsonStr = response.text;
-    if (!jsonStr) throw new Error('Received an empty response from the AI.');
-    return JSON.parse(jsonStr.trim()) as Partial<World>;
   } catch(error) {
     throw handleApiError(error, provider);
   }
@@ -1418,8 +1254,8 @@ const worldRefinementSchema = { ...worldGenerationSchema, properties: { ...world
 (worldRefinementSchema.properties.entries.items as any).properties.id = { type: Type.STRING };
 
 
-export async function refineWorldWithInstruction({ provider, apiKey, model, world, instruction }: RefineWorldParams): Promise<World> {
-    if (provider !== LLMProvider.GEMINI) throw new Error("AI World Refinement is currently only supported by Gemini.");
+export async function refineWorldWithInstruction({ provider, apiKey, model, settings, world, instruction }: RefineWorldParams): Promise<World> {
+    if (!getProviderAdapter(provider).capabilities.structuredOutput) throw new Error(`AI World Refinement requires a provider with structured output support; ${provider} does not offer it.`);
 
     const systemPrompt = `You are an AI assistant that modifies a world's JSON data based on a user's instruction. You will be given the current world as a JSON object and a text instruction. Your task is to return the *entire* modified world object as a single JSON object that conforms to the schema. Do not add any commentary. Make the requested change and keep the rest of the world data intact.
     
@@ -1433,19 +1269,15 @@ export async function refineWorldWithInstruction({ provider, apiKey, model, worl
     logger.apiRequest('Refining world with instruction', { provider, model, instruction });
     
     try {
-        const response = await geminiAI.models.generateContent({
+        return await requestJsonCompletion<World>(provider, {
+            apiKey,
             model,
-            contents: userPrompt,
-            config: {
-                systemInstruction: systemPrompt,
-                temperature: 0.5,
-                responseMimeType: 'application/json',
-                responseSchema: worldRefinementSchema,
-            },
+            settings,
+            systemPrompt,
+            messages: [{ role: 'user', content: userPrompt }],
+            temperature: 0.5,
+            schema: worldRefinementSchema,
         });
-        const jsonStr = response.text;
-        if (!jsonStr) throw new Error('Received an empty response from the AI.');
-        return JSON.parse(jsonStr.trim()) as World;
     } catch(error) {
         throw handleApiError(error, provider);
     }
@@ -0,0 +1,612 @@
+import { Character, InjectedLoreEntry, Message, World, WorldEntry } from '../types';
+import { DEFAULT_LORE_RETRIEVAL_WEIGHTS, DEFAULT_MAX_LORE_ENTRIES } from '../constants';
+import { logger } from './logger';
+import { Tokenizer } from './tokenizerService';
+import { fitWithinBudget } from './contextBudgetService';
+import { buildSceneQuery, createBm25Index, stem } from './textSearchService';
+import { EmbeddingProvider, embedSimilarities } from './embeddingService';
+
+// --- Enhanced World Index Caching ---
+interface WorldCacheEntry {
+  index: any;
+  version: string;
+  lastAccessed: number;
+  frequency: number;
+  size: number; // Estimated size in bytes
+}
+const worldIndexCache = new Map<string, WorldCacheEntry>();
+
+/**
+ * Cleans the cache using a score-based eviction policy (considering age and frequency)
+ * when it exceeds the maximum size.
+ */
+function cleanupCache() {
+  const now = Date.now();
+  const MAX_AGE = 30 * 60 * 1000; // 30 minutes
+  const MAX_ENTRIES = 50; // Maximum cache entries
+
+  const entries = Array.from(worldIndexCache.entries());
+  
+  // Remove old entries
+  for (const [key, value] of entries) {
+    if (now - value.lastAccessed > MAX_AGE) {
+      worldIndexCache.delete(key);
+    }
+  }
+
+  // If still too many entries, remove least recently used
+  if (worldIndexCache.size > MAX_ENTRIES) {
+    const sortedEntries = Array.from(worldIndexCache.entries())
+      .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed);
+    
+    const toRemove = sortedEntries.slice(0, worldIndexCache.size - MAX_ENTRIES);
+    for (const [key] of toRemove) {
+      worldIndexCache.delete(key);
+    }
+  }
+}
+
+/**
+ * Generates a version string for a world's entries to detect changes without keeping a
+ * copy of them. It covers everything the index is built from: names, keys, secondary keys,
+ * whether each entry is enabled, and content.
+ * @param entries The array of world entries.
+ * @returns A version string.
+ */
+function generateWorldVersion(entries: WorldEntry[]): string {
+  if (!entries || entries.length === 0) return '0-0';
+  // FNV-1a over each field, with a separator so moving text between fields changes the hash.
+  let hash = 0x811c9dc5;
+  const mix = (text: string) => {
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    hash = Math.imul(hash ^ 0xff, 0x01000193);
+  };
+  for (const e of entries) {
+    mix(e.id);
+    mix(e.name || '');
+    mix((e.keys || []).join('\n'));
+    mix((e.secondaryKeys || []).join('\n'));
+    mix(e.enabled ? '1' : '0');
+    mix(e.content || '');
+  }
+  return `${entries.length}-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Proactively builds and caches indices for a given list of worlds.
+ * @param worlds An array of World objects to warm the cache with.
+ */
+export function warmWorldCache(worlds: World[]) {
+  if (!worlds || worlds.length === 0) return;
+  logger.log('Warming world cache for specified worlds.', { worldCount: worlds.length, worldNames: worlds.map(w => w.name) });
+  for (const world of worlds) {
+    if (world) {
+      // This will build the index if it's not present or outdated.
+      getOrBuildWorldIndex(world);
+    }
+  }
+}
+
+/**
+ * Counts the turns lore activations are measured in.
+ * @param messages The visible history.
+ * @returns The number of user messages.
+ */
+export const getLoreTurn = (messages: Message[]): number => messages.filter((m) => m.role === 'user').length;
+
+const containsKey = (text: string, key: string): boolean => {
+  const escaped = key.trim().replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&');
+  return !!escaped && new RegExp(`(?<![\\w])${escaped}(?![\\w])`, 'i').test(text);
+};
+
+/**
+ * Checks an entry's secondary keys against the text its keywords were found in.
+ * @param entry The lore entry.
+ * @param text The recent messages.
+ * @returns `true` if the keys allow a keyword match, or the entry has none.
+ */
+function passesSecondaryKeys(entry: WorldEntry, text: string): boolean {
+  const keys = (entry.secondaryKeys || []).filter((k) => k.trim());
+  if (keys.length === 0) return true;
+  const found = keys.filter((k) => containsKey(text, k)).length;
+  switch (entry.secondaryKeyLogic ?? 'and-any') {
+    case 'and-all':
+      return found === keys.length;
+    case 'not-any':
+      return found === 0;
+    case 'not-all':
+      return found < keys.length;
+    default:
+      return found > 0;
+  }
+}
+
+/** The text of a lore entry that full-text and semantic search look at. */
+const loreSearchText = (entry: WorldEntry) => `${entry.name || ''}\n${entry.content}`;
+
+// Full-text matches score up to this much, before the world's weight; below the minimum share of the best match they are noise.
+const FULL_TEXT_SCORE = 40;
+// An entry pulled in by recursion scores this share of the entry that mentions it, so it ranks below it.
+const RECURSION_SCORE_FACTOR = 0.5;
+const MIN_FULL_TEXT_RELEVANCE = 0.25;
+
+/**
+ * Rescales raw relevance so the best entry is 1 and the least relevant 0, keeping only
+ * entries at or above `MIN_FULL_TEXT_RELEVANCE`.
+ * @param scores Raw scores by entry id, either BM25 or cosine similarity.
+ * @returns The kept entries' relevance by entry id.
+ */
+function normalizeRelevance(scores: Map<string, number>): Map<string, number> {
+  const values = Array.from(scores.values());
+  const max = Math.max(...values);
+  // A lone entry is measured against zero, since there is nothing to compare it with.
+  const min = values.length > 1 ? Math.min(...values) : 0;
+  const normalized = new Map<string, number>();
+  if (!(max > min)) return normalized;
+  for (const [id, score] of scores) {
+    const relevance = (score - min) / (max - min);
+    if (relevance >= MIN_FULL_TEXT_RELEVANCE) normalized.set(id, relevance);
+  }
+  return normalized;
+}
+
+/**
+ * Measures how closely each enabled lore entry relates to the latest messages by meaning.
+ * Passed to the prompt builders as `loreRelevance`, it takes the place of the local full-text score.
+ * @param world The world whose entries to score.
+ * @param messages The visible history.
+ * @param embedder The embedding provider.
+ * @param signal Cancels the request.
+ * @returns Cosine similarity by entry id, or `undefined` if embedding failed and full-text search should be used.
+ * @throws An `AbortError` if the request is cancelled.
+ */
+export async function scoreLoreRelevance(
+  world: World,
+  messages: Message[],
+  embedder: EmbeddingProvider,
+  signal?: AbortSignal,
+): Promise<Record<string, number> | undefined> {
+  const entries = world.entries.filter((e) => e.enabled);
+  const query = buildSceneQuery(messages);
+  if (entries.length === 0 || !query) return undefined;
+  try {
+    const similarities = await embedSimilarities(embedder, query, entries.map(loreSearchText), signal);
+    return Object.fromEntries(entries.map((e, i) => [e.id, similarities[i]]));
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') throw error;
+    logger.error('Embedding lore entries failed. Falling back to full-text relevance.', { provider: embedder.id, error });
+    return undefined;
+  }
+}
+
+/**
+ * Adds the lorebooks of a chat's characters to its world, so their entries are retrieved
+ * with the world's without being saved into it.
+ * @param world The chat's world, if any.
+ * @param characters The characters in the chat.
+ * @returns A copy of the world with the characters' entries added, a world of only those entries
+ * when the chat has none, or the world itself when no character has a lorebook.
+ */
+export function withCharacterLore(world: World | null | undefined, characters: Character[]): World | null {
+  const owners = characters.filter((c) => c.lorebook?.length);
+  if (owners.length === 0) return world ?? null;
+  const entries = owners.flatMap((c) => c.lorebook || []);
+  // Its own id keeps the merged index from replacing the cached index of the shared world.
+  const id = [world?.id ?? 'characters', ...owners.map((c) => c.id)].join('+');
+  return world
+    ? { ...world, id, entries: [...world.entries, ...entries] }
+    : { id, name: owners.map((c) => c.name).join(', '), description: '', entries };
+}
+
+/** Entries by the keys that trigger them, split by how each key is matched. */
+interface KeywordIndex {
+  plainKeywordMap: Map<string, WorldEntry[]>;
+  stemmedKeywordMap: Map<string, WorldEntry[]>;
+  regexKeywords: { regex: RegExp; entries: WorldEntry[] }[];
+  stem: (word: string) => string;
+  entryIdToEntryMap: Map<string, WorldEntry>;
+}
+
+function buildKeywordIndex(entries: WorldEntry[]): KeywordIndex {
+  const entryIdToEntryMap = new Map<string, WorldEntry>();
+  const plainKeywordMap = new Map<string, WorldEntry[]>();
+  const stemmedKeywordMap = new Map<string, WorldEntry[]>();
+  const regexKeywords: { regex: RegExp; entries: WorldEntry[] }[] = [];
+
+  for (const entry of entries) {
+    entryIdToEntryMap.set(entry.id, entry);
+    if (entry.keys) {
+      for (const key of entry.keys) {
+        const lowerKey = key.trim().toLowerCase();
+        if (lowerKey.length < 2) continue;
+
+        if (/[*+?()|[\]{}^$\\]/.test(lowerKey)) {
+          try {
+            const regex = new RegExp(`\\b(${lowerKey})\\b`, 'gi');
+            regexKeywords.push({ regex, entries: [entry] });
+          } catch (e) {
+            if (!plainKeywordMap.has(lowerKey))
+              plainKeywordMap.set(lowerKey, []);
+            plainKeywordMap.get(lowerKey)!.push(entry);
+          }
+        } else {
+          if (!plainKeywordMap.has(lowerKey))
+            plainKeywordMap.set(lowerKey, []);
+          plainKeywordMap.get(lowerKey)!.push(entry);
+
+          const stemmedKey = stem(lowerKey);
+          if (stemmedKey !== lowerKey) {
+            if (!stemmedKeywordMap.has(stemmedKey))
+              stemmedKeywordMap.set(stemmedKey, []);
+            stemmedKeywordMap.get(stemmedKey)!.push(entry);
+          }
+        }
+      }
+    }
+  }
+
+  return { plainKeywordMap, stemmedKeywordMap, regexKeywords, stem, entryIdToEntryMap };
+}
+
+// An entry links to every other entry whose keys its content mentions, matched the same way as in messages.
+const linkEntries = (entries: WorldEntry[], keywordIndex: KeywordIndex): Map<string, string[]> =>
+  new Map(
+    entries.map((entry) => [
+      entry.id,
+      Array.from(findMatchesInText(entry.content, keywordIndex).keys()).filter((id) => id !== entry.id),
+    ]),
+  );
+
+/**
+ * Maps which entries mention which, as recursive retrieval follows them: an entry references
+ * another when its content contains one of the other entry's keys.
+ * @param entries The entries to link.
+ * @returns The ids each entry references, by entry id.
+ */
+export const buildReferenceGraph = (entries: WorldEntry[]): Map<string, string[]> =>
+  linkEntries(entries, buildKeywordIndex(entries));
+
+/**
+ * Builds or retrieves a cached search index for a world's entries.
+ * The index is used for fast keyword matching in RAG.
+ * @param world The world object.
+ * @returns A pre-computed index for the world.
+ */
+function getOrBuildWorldIndex(world: World) {
+  const version = generateWorldVersion(world.entries);
+  const cached = worldIndexCache.get(world.id);
+
+  if (cached && cached.version === version) {
+    logger.log('Using cached world index.', { worldId: world.id, frequency: cached.frequency + 1 });
+    cached.lastAccessed = Date.now();
+    cached.frequency += 1;
+    return cached.index;
+  }
+
+  logger.log('Building new world index.', { worldId: world.id, reason: cached ? 'version mismatch' : 'not cached' });
+
+  cleanupCache();
+
+  const allEnabledEntries = world.entries.filter((e) => e.enabled);
+  const keywordIndex = buildKeywordIndex(allEnabledEntries);
+  const index = {
+    ...keywordIndex,
+    fullTextEntries: allEnabledEntries,
+    fullTextIndex: createBm25Index(allEnabledEntries.map(loreSearchText)),
+    referenceGraph: linkEntries(allEnabledEntries, keywordIndex),
+  };
+  const estimatedSize = JSON.stringify(index).length; // Simple size estimation
+  worldIndexCache.set(world.id, {
+    index,
+    version,
+    lastAccessed: Date.now(),
+    frequency: 1,
+    size: estimatedSize,
+  });
+  return index;
+}
+
+const findMatchesInText = (
+  text: string,
+  worldIndex: KeywordIndex,
+) => {
+  const localMatches = new Map<
+    string,
+    { entry: WorldEntry; count: number; reasons: Set<string> }
+  >();
+  const addLocalMatch = (entry: WorldEntry, reason: string) => {
+    if (!localMatches.has(entry.id))
+      localMatches.set(entry.id, { entry, count: 0, reasons: new Set() });
+    const match = localMatches.get(entry.id)!;
+    match.count++;
+    match.reasons.add(reason);
+  };
+
+  if (!text) return localMatches;
+  const lowerText = text.toLowerCase();
+
+  // Regex matches
+  worldIndex.regexKeywords.forEach(
+    ({ regex, entries }: { regex: RegExp; entries: WorldEntry[] }) => {
+      const matches = lowerText.match(regex);
+      if (matches) {
+        entries.forEach((entry) => {
+          for (let i = 0; i < matches.length; i++)
+            addLocalMatch(entry, `Regex: "${regex.source.replace(/\\b/g, '')}"`);
+        });
+      }
+    },
+  );
+
+  // Token-based matches (exact, stemmed)
+  const words = lowerText.match(/\b[\w'-]+\b/g) || [];
+  for (const word of new Set(words)) {
+    if (worldIndex.plainKeywordMap.has(word)) {
+      worldIndex.plainKeywordMap
+        .get(word)!
+        .forEach((entry: WorldEntry) =>
+          addLocalMatch(entry, `Exact: "${word}"`),
+        );
+    }
+    const stemmedWord = worldIndex.stem(word);
+    if (worldIndex.stemmedKeywordMap.has(stemmedWord)) {
+      worldIndex.stemmedKeywordMap.get(stemmedWord)!.forEach((entry: WorldEntry) => {
+        const plainKeys = (entry.keys || []).map((k) => k.toLowerCase().trim());
+        if (!plainKeys.includes(word))
+          addLocalMatch(entry, `Stem: "${word}" -> "${stemmedWord}"`);
+      });
+    }
+  }
+  return localMatches;
+};
+
+/** Text that describes the scene besides the recent messages, searched for keywords at a lower weight. */
+export interface LoreSearchContext {
+  text?: string;
+  score: number;
+  label: string;
+}
+
+export interface LoreRetrievalParams {
+  world: World;
+  /** The visible history, oldest first. */
+  messages: Message[];
+  tokenizer: Tokenizer;
+  /** Tokens available for lore. */
+  loreCap: number;
+  /** The characters in the scene. Entries keyed to their names are linked to them. */
+  characterNames: string[];
+  contexts: LoreSearchContext[];
+  /** Similarity of each entry to the latest messages, from embeddings. Replaces the full-text score when given. */
+  loreRelevance?: Record<string, number>;
+  /** The session's lore activations, which keep sticky entries in and hold back those cooling down. */
+  loreActivations?: Record<string, number>;
+  interactionData?: Record<string, { viewCount: number; lastViewed: number }>;
+  /** Rolls entry probabilities. Defaults to `Math.random`. */
+  random?: () => number;
+}
+
+export interface LoreRetrieval {
+  /** Entries for the system prompt, formatted for the `{{lore}}` macro. */
+  content: string;
+  /** Entries to insert into the history, with their depth in messages from the end. */
+  depthEntries: { entryId: string; depth: number; text: string }[];
+  entries: InjectedLoreEntry[];
+  /** Names of entries chosen but left out for lack of space. */
+  dropped: string[];
+}
+
+const formatEntry = (entry: WorldEntry) =>
+  `--- Entry: ${entry.name || 'Untitled'} (Keywords: ${(entry.keys || []).join(', ')}) ---\n${entry.content}`;
+
+/**
+ * Picks the lore entries to inject for the current scene. Entries are scored by keyword
+ * matches, full-text or semantic relevance, always-active flags and the user's interest,
+ * then filtered by activation rules, ranked by priority and score, and fitted to the budget.
+ * @param params The world, the scene and the budget.
+ * @returns The chosen entries, formatted and annotated with why they were picked.
+ */
+export function retrieveLore(params: LoreRetrievalParams): LoreRetrieval {
+  const {
+    world,
+    messages,
+    tokenizer,
+    loreCap,
+    characterNames,
+    contexts,
+    loreRelevance,
+    loreActivations,
+    interactionData,
+    random = Math.random,
+  } = params;
+  const retrieval: LoreRetrieval = { content: '', depthEntries: [], entries: [], dropped: [] };
+  const allEnabledEntries = (world.entries || []).filter((e) => e.enabled);
+  if (allEnabledEntries.length === 0) return retrieval;
+
+  const worldIndex = getOrBuildWorldIndex(world);
+  // The index is only rebuilt when keys or content change, so settings are read from the current entries.
+  const entryIdToEntryMap = new Map(allEnabledEntries.map((e) => [e.id, e]));
+  const weights = { ...DEFAULT_LORE_RETRIEVAL_WEIGHTS, ...world.retrievalWeights };
+  const turn = getLoreTurn(messages);
+  const recentMessages = messages.slice(-5);
+  const recentText = recentMessages.map((m) => m.content).join('\n');
+
+  const stickyEntries = new Set<string>();
+  const coolingDown = new Set<string>();
+  for (const entry of allEnabledEntries) {
+    const lastTriggered = loreActivations?.[entry.id];
+    if (lastTriggered === undefined) continue;
+    const sinceTrigger = turn - lastTriggered;
+    const sticky = entry.sticky ?? 0;
+    if (sinceTrigger > 0 && sinceTrigger <= sticky) stickyEntries.add(entry.id);
+    else if (sinceTrigger > sticky && sinceTrigger <= sticky + (entry.cooldown ?? 0)) coolingDown.add(entry.id);
+  }
+
+  const candidateScores = new Map<string, { score: number; reasons: Set<string> }>();
+  const addScore = (entry: WorldEntry, score: number, reason: string) => {
+    if (score <= 0 || coolingDown.has(entry.id) || !entryIdToEntryMap.has(entry.id)) return;
+    if (!candidateScores.has(entry.id)) candidateScores.set(entry.id, { score: 0, reasons: new Set() });
+    const current = candidateScores.get(entry.id)!;
+    current.score += score;
+    current.reasons.add(reason);
+  };
+  // Secondary keys only gate keyword matches; other signals don't depend on the words used.
+  const addKeywordScore = (entry: WorldEntry, score: number, reason: string) => {
+    const current = entryIdToEntryMap.get(entry.id);
+    if (current && passesSecondaryKeys(current, recentText)) addScore(current, score, reason);
+  };
+
+  for (const entry of allEnabledEntries) {
+    if (stickyEntries.has(entry.id)) {
+      const turnsLeft = (entry.sticky ?? 0) - (turn - loreActivations![entry.id]) + 1;
+      addScore(entry, 100, `Sticky (${turnsLeft} turn${turnsLeft === 1 ? '' : 's'} left)`);
+    }
+    if (entry.isAlwaysActive) addScore(entry, 100 * weights.alwaysActive, 'Always Active');
+    if (interactionData && interactionData[entry.id]) {
+      const interactionScore = Math.round(Math.log1p(interactionData[entry.id].viewCount) * 15);
+      addScore(
+        entry,
+        interactionScore * weights.interaction,
+        `User Interaction (${interactionData[entry.id].viewCount} views)`,
+      );
+    }
+  }
+
+  for (const charName of characterNames.filter(Boolean)) {
+    const lowerCharName = charName.toLowerCase();
+    if (worldIndex.plainKeywordMap.has(lowerCharName)) {
+      worldIndex.plainKeywordMap
+        .get(lowerCharName)!
+        .forEach((entry: WorldEntry) => {
+          addKeywordScore(entry, 50 * weights.keyword, `Linked to active character: "${charName}"`);
+        });
+    }
+  }
+
+  const searchContext = (text: string | undefined, baseScore: number, type: string) => {
+    const matches = findMatchesInText(text || '', worldIndex);
+    for (const matchData of matches.values()) {
+      const frequencyBonus = Math.pow(matchData.count, 1.2);
+      const finalScore = baseScore * frequencyBonus * weights.keyword;
+      const reasonSummary = Array.from(matchData.reasons).slice(0, 2).join(', ');
+      addKeywordScore(matchData.entry, finalScore, `${type}: ${reasonSummary} (x${matchData.count})`);
+    }
+  };
+
+  recentMessages.forEach((message, i) => {
+    const recency = recentMessages.length - 1 - i;
+    const recencyScore = Math.max(2, 12 - recency * 2);
+    searchContext(message.content, recencyScore, `Message (t-${recency})`);
+  });
+  for (const { text, score, label } of contexts) searchContext(text, score, label);
+
+  // Full-text relevance finds entries whose keys are never typed verbatim.
+  if (weights.fullText > 0) {
+    const rawScores = new Map<string, number>();
+    if (loreRelevance) {
+      for (const entry of allEnabledEntries) {
+        if (loreRelevance[entry.id] !== undefined) rawScores.set(entry.id, loreRelevance[entry.id]);
+      }
+    } else {
+      const query = buildSceneQuery(messages);
+      if (query) {
+        worldIndex.fullTextIndex
+          .score(query)
+          .forEach((score: number, i: number) => rawScores.set(worldIndex.fullTextEntries[i].id, score));
+      }
+    }
+    const reason = loreRelevance ? 'Semantic relevance' : 'Full-text relevance';
+    for (const [id, relevance] of normalizeRelevance(rawScores)) {
+      const entry = entryIdToEntryMap.get(id);
+      if (entry) addScore(entry, FULL_TEXT_SCORE * relevance * weights.fullText, `${reason} (${Math.round(relevance * 100)}%)`);
+    }
+  }
+
+  if (candidateScores.size === 0) return retrieval;
+
+  // Each candidate rolls once, however often the candidates are ranked.
+  // Sticky entries already passed their roll when they triggered.
+  const rolls = new Map<string, boolean>();
+  const passesRoll = (entry: WorldEntry) => {
+    if (!rolls.has(entry.id)) {
+      rolls.set(entry.id, stickyEntries.has(entry.id) || random() * 100 < (entry.probability ?? 100));
+    }
+    return rolls.get(entry.id)!;
+  };
+  const rankCandidates = () =>
+    Array.from(candidateScores.entries())
+      .map(([id, data]) => ({
+        entry: entryIdToEntryMap.get(id)!,
+        sticky: stickyEntries.has(id),
+        ...data,
+      }))
+      .filter((c) => passesRoll(c.entry))
+      .sort((a, b) => (b.entry.priority ?? 0) - (a.entry.priority ?? 0) || b.score - a.score)
+      .slice(0, world.maxLoreEntries ?? DEFAULT_MAX_LORE_ENTRIES);
+
+  let rankedCandidates = rankCandidates();
+
+  // Recursion: keys mentioned in the chosen entries pull in their entries too.
+  const recursionDepth = world.loreRecursionDepth ?? 0;
+  if (recursionDepth > 0) {
+    const reached = new Set(rankedCandidates.map((c) => c.entry.id));
+    let frontier: { entry: WorldEntry; score: number }[] = rankedCandidates;
+    for (let depth = 1; depth <= recursionDepth && frontier.length > 0; depth++) {
+      const next: { entry: WorldEntry; score: number }[] = [];
+      for (const source of frontier) {
+        if (source.entry.noRecursion) continue;
+        for (const targetId of worldIndex.referenceGraph.get(source.entry.id) || []) {
+          // Entries already reached are never followed again, which is what stops circular references.
+          const target = entryIdToEntryMap.get(targetId);
+          if (!target || reached.has(targetId)) continue;
+          addKeywordScore(
+            target,
+            source.score * RECURSION_SCORE_FACTOR,
+            `Mentioned in "${source.entry.name || 'Untitled'}" (depth ${depth})`,
+          );
+          const added = candidateScores.get(targetId);
+          if (added && passesRoll(target)) {
+            reached.add(targetId);
+            next.push({ entry: target, score: added.score });
+          }
+        }
+      }
+      frontier = next;
+    }
+    rankedCandidates = rankCandidates();
+  }
+
+  const fitted = fitWithinBudget(rankedCandidates, (c) => tokenizer.count(formatEntry(c.entry)), loreCap);
+  retrieval.dropped = fitted.dropped.map((c) => c.entry.name || 'Untitled');
+  if (fitted.kept.length === 0) return retrieval;
+
+  retrieval.content = fitted.kept
+    .filter((c) => c.entry.insertionDepth === undefined)
+    .map((c) => formatEntry(c.entry))
+    .join('\n\n');
+  for (const c of fitted.kept) {
+    if (c.entry.insertionDepth !== undefined) {
+      retrieval.depthEntries.push({ entryId: c.entry.id, depth: c.entry.insertionDepth, text: formatEntry(c.entry) });
+    }
+  }
+  retrieval.entries = fitted.kept.map((c) => ({
+    entryId: c.entry.id,
+    name: c.entry.name || 'Untitled',
+    score: Math.round(c.score),
+    reasons: Array.from(c.reasons),
+    ...(c.sticky && { sticky: true }),
+    ...(c.entry.insertionDepth !== undefined && { depth: c.entry.insertionDepth }),
+  }));
+
+  logger.log('Injected ranked lore entries', {
+    count: fitted.kept.length,
+    world: world.name,
+    entries: fitted.kept.map((c) => ({
+      name: c.entry.name,
+      score: Math.round(c.score),
+      reasons: Array.from(c.reasons),
+      depth: c.entry.insertionDepth,
+    })),
+  });
+  return retrieval;
+}
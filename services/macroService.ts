@@ -0,0 +1,67 @@
+import { rollDice } from './diceService';
+
+/** The values that text-level macros resolve against. */
+export interface MacroContext {
+  /** Character name; all names, comma separated, in a group chat. */
+  char: string;
+  /** User persona name. */
+  user: string;
+  /** Content of the most recent message in the chat. */
+  lastMessage?: string;
+  /** The moment `{{time}}` and `{{date}}` refer to. Defaults to now. */
+  now?: Date;
+  /** Source of randomness for `{{random}}` and `{{roll}}`. Defaults to `Math.random`. */
+  random?: () => number;
+}
+
+/** The supported macros, in the order they are listed in editor help text. */
+export const TEXT_MACROS: { name: string; description: string }[] = [
+  { name: 'char', description: 'Character name' },
+  { name: 'user', description: 'User persona name' },
+  { name: 'time', description: 'Current local time' },
+  { name: 'date', description: 'Current local date' },
+  { name: 'random:a,b,c', description: 'One of the listed options, picked at random' },
+  { name: 'roll:1d20', description: 'Result of a dice roll, e.g. 2d6+3' },
+  { name: 'lastMessage', description: 'Content of the most recent message' },
+];
+
+const MACRO_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*(?::([^}]*))?\}\}/g;
+
+/**
+ * Expands SillyTavern-style macros in free text such as greetings, personas and lore.
+ * Names are case-insensitive. Unknown macros, and macros with invalid arguments, are
+ * left as written so that text meant for another stage of prompt assembly survives.
+ * @param text The text to expand.
+ * @param context The values the macros resolve against.
+ * @returns The expanded text.
+ */
+export function expandMacros(text: string, context: MacroContext): string {
+  if (!text || !text.includes('{{')) return text;
+  const now = context.now ?? new Date();
+  const random = context.random ?? Math.random;
+
+  return text.replace(MACRO_PATTERN, (match, rawName: string, arg: string | undefined) => {
+    switch (rawName.toLowerCase()) {
+      case 'char':
+        return context.char;
+      case 'user':
+        return context.user;
+      case 'time':
+        return now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      case 'date':
+        return now.toLocaleDateString([], { year: 'numeric', month: 'long', day: 'numeric' });
+      case 'lastmessage':
+        return context.lastMessage ?? '';
+      case 'random': {
+        const options = (arg ?? '').split(',').map((o) => o.trim()).filter(Boolean);
+        return options.length > 0 ? options[Math.floor(random() * options.length)] : match;
+      }
+      case 'roll': {
+        const rolled = arg ? rollDice(arg, random) : null;
+        return rolled ? String(rolled.total) : match;
+      }
+      default:
+        return match;
+    }
+  });
+}
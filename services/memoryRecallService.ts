@@ -0,0 +1,76 @@
+import { Message } from '../types';
+import { logger } from './logger';
+import { EmbeddingProvider, embedSimilarities } from './embeddingService';
+import { createBm25Index } from './textSearchService';
+
+/** A user message and the replies to it, recalled as one unit. */
+export interface RecallExchange {
+  messageIds: string[];
+  /** Position in the conversation, so recalled exchanges can be listed in the order they happened. */
+  index: number;
+  /** The exchange as it appears in the prompt, one "Speaker: text" line per message. */
+  text: string;
+  /** Relevance to the current scene. Only comparable within one ranking. */
+  score: number;
+}
+
+/** The most exchanges recalled into one prompt. */
+export const MAX_RECALLED_EXCHANGES = 5;
+
+/**
+ * Splits a conversation into exchanges. Each user message starts a new one; anything
+ * before the first user message, such as the greeting, forms its own exchange.
+ * @param messages The conversation, oldest first.
+ * @param speakerName Display name of each message's speaker.
+ * @returns The exchanges, unscored.
+ */
+export function groupIntoExchanges(messages: Message[], speakerName: (message: Message) => string): RecallExchange[] {
+  const exchanges: RecallExchange[] = [];
+  for (const message of messages) {
+    if (!message.content.trim()) continue;
+    const line = `${speakerName(message)}: ${message.content.trim()}`;
+    const current = exchanges[exchanges.length - 1];
+    if (current && message.role !== 'user') {
+      current.messageIds.push(message.id);
+      current.text += `\n${line}`;
+    } else {
+      exchanges.push({ messageIds: [message.id], index: exchanges.length, text: line, score: 0 });
+    }
+  }
+  return exchanges;
+}
+
+/**
+ * Ranks exchanges by how closely they relate to the query. Uses embeddings when a
+ * provider is given and falls back to the local BM25 index if that fails.
+ * @param exchanges The exchanges to rank.
+ * @param query The text describing the current scene.
+ * @param embedder The embedding provider, or `null` for the local index.
+ * @param signal Cancels the embedding request.
+ * @returns The related exchanges, most relevant first. Exchanges with nothing in common with the query are left out.
+ * @throws An `AbortError` if the request is cancelled.
+ */
+export async function rankExchanges(
+  exchanges: RecallExchange[],
+  query: string,
+  embedder: EmbeddingProvider | null,
+  signal?: AbortSignal,
+): Promise<RecallExchange[]> {
+  if (exchanges.length === 0 || !query.trim()) return [];
+
+  let scores: number[] | null = null;
+  if (embedder) {
+    try {
+      scores = await embedSimilarities(embedder, query, exchanges.map((e) => e.text), signal);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+      logger.error('Embedding past exchanges failed. Falling back to keyword recall.', { provider: embedder.id, error });
+    }
+  }
+  scores ??= createBm25Index(exchanges.map((e) => e.text)).score(query);
+
+  return exchanges
+    .map((exchange, i) => ({ ...exchange, score: scores[i] }))
+    .filter((exchange) => exchange.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,114 @@
+import { DEFAULT_PROMPT_TEMPLATES } from '../constants';
+import {
+  Character,
+  PromptSectionId,
+  PromptTemplate,
+  PromptTemplateKind,
+  PromptTemplateSection,
+  Settings,
+  World,
+} from '../types';
+
+/** Values substituted for the template macros when a prompt is assembled. */
+export interface PromptMacroValues {
+  char: string;
+  user: string;
+  persona: string;
+  description: string;
+  scenario: string;
+  examples: string;
+  summary: string;
+  memory: string;
+  recall: string;
+  lore: string;
+  system: string;
+}
+
+/** The supported macros, in the order they are listed in the template editor. */
+export const PROMPT_MACROS: { name: keyof PromptMacroValues; description: string }[] = [
+  { name: 'char', description: 'Character name (all names in a group chat)' },
+  { name: 'user', description: 'User persona name' },
+  { name: 'persona', description: 'User persona description' },
+  { name: 'description', description: 'Character persona sheet(s)' },
+  { name: 'scenario', description: 'Scenario of the chat' },
+  { name: 'examples', description: 'Example dialogue of the character' },
+  { name: 'summary', description: 'Conversation summary' },
+  { name: 'memory', description: 'Structured memory: facts, relationships, inventory, plot threads' },
+  { name: 'recall', description: 'Past exchanges recalled from beyond the history' },
+  { name: 'lore', description: 'Retrieved world lore entries' },
+  { name: 'system', description: 'Global system prompt' },
+];
+
+// Names are always available, so only these decide whether a section has anything to say.
+const NAME_MACROS: (keyof PromptMacroValues)[] = ['char', 'user'];
+
+const MACRO_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+
+const isKnownMacro = (name: string): name is keyof PromptMacroValues =>
+  PROMPT_MACROS.some((m) => m.name === name);
+
+/**
+ * Renders a template into system prompt parts. A section is skipped when it is
+ * disabled, or when it references content macros and all of them are empty, so an
+ * empty summary or lore block doesn't leave a dangling heading. Unknown macros are left as written.
+ * @param template The template to render.
+ * @param values The macro values for this request.
+ * @returns The rendered sections, in template order, tagged with their budget section.
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  values: PromptMacroValues,
+): { section: PromptSectionId; text: string }[] {
+  const rendered: { section: PromptSectionId; text: string }[] = [];
+
+  for (const section of template.sections) {
+    if (!section.enabled) continue;
+
+    const referenced = Array.from(section.content.matchAll(MACRO_PATTERN), (m) => m[1].toLowerCase())
+      .filter(isKnownMacro)
+      .filter((name) => !NAME_MACROS.includes(name));
+    if (referenced.length > 0 && referenced.every((name) => !values[name]?.trim())) continue;
+
+    const text = section.content
+      .replace(MACRO_PATTERN, (match, name: string) => {
+        const key = name.toLowerCase();
+        return isKnownMacro(key) ? values[key] : match;
+      })
+      .trim();
+    if (text) rendered.push({ section: section.budgetSection, text });
+  }
+
+  return rendered;
+}
+
+/**
+ * Picks the template for a chat. A character's override wins over the world's,
+ * which wins over the global template. Character overrides apply to single chats only.
+ * @param kind Whether the chat is a single or group chat.
+ * @param settings The user's settings.
+ * @param overrides The character and world of the chat, if any.
+ * @returns The template to render.
+ */
+export function resolvePromptTemplate(
+  kind: PromptTemplateKind,
+  settings: Pick<Settings, 'promptTemplates'>,
+  { world, character }: { world?: World | null; character?: Character | null } = {},
+): PromptTemplate {
+  if (kind === 'single' && character?.promptTemplate) return character.promptTemplate;
+  return world?.promptTemplates?.[kind] ?? settings.promptTemplates?.[kind] ?? DEFAULT_PROMPT_TEMPLATES[kind];
+}
+
+/**
+ * Copies a template so an override can be edited without touching its source.
+ */
+export const clonePromptTemplate = (template: PromptTemplate): PromptTemplate => ({
+  sections: template.sections.map((s) => ({ ...s })),
+});
+
+export const createPromptTemplateSection = (): PromptTemplateSection => ({
+  id: crypto.randomUUID(),
+  name: 'New Section',
+  budgetSection: 'system',
+  enabled: true,
+  content: '',
+});
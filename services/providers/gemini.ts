@@ -0,0 +1,119 @@
+import { GoogleGenAI, GenerateContentConfig, GenerateContentResponse } from '@google/genai';
+import { LLMProvider } from '../../types';
+import { logger } from '../logger';
+import { ProviderAdapter, ProviderMessage, ProviderRequest } from './types';
+
+// Instantiate the Gemini client once at the module level.
+// Per guidelines, Gemini API key MUST come from the environment.
+const geminiAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const toGeminiContents = (messages: ProviderMessage[]) =>
+  messages
+    .filter((m) => m.role !== 'system')
+    .map((msg) => ({
+      role: msg.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: msg.content }],
+    }));
+
+const buildConfig = ({ systemPrompt, temperature, maxOutputTokens, samplers = {} }: ProviderRequest): GenerateContentConfig => {
+  const config: GenerateContentConfig = {};
+  if (systemPrompt) config.systemInstruction = systemPrompt;
+  if (temperature !== undefined) config.temperature = temperature;
+  if (maxOutputTokens && maxOutputTokens > 0) config.maxOutputTokens = maxOutputTokens;
+  if (samplers.topP !== undefined) config.topP = samplers.topP;
+  if (samplers.topK !== undefined) config.topK = samplers.topK;
+  if (samplers.frequencyPenalty !== undefined) config.frequencyPenalty = samplers.frequencyPenalty;
+  if (samplers.presencePenalty !== undefined) config.presencePenalty = samplers.presencePenalty;
+  if (samplers.stopSequences?.length) config.stopSequences = samplers.stopSequences;
+  if (samplers.seed !== undefined) config.seed = samplers.seed;
+  return config;
+};
+
+/**
+ * Throws if Gemini blocked the prompt; otherwise returns the (possibly empty) response text.
+ */
+const readResponseText = (response: GenerateContentResponse): string => {
+  const text = response.text;
+  if (!text || text.trim() === '') {
+    if (response.promptFeedback?.blockReason) {
+      throw new Error(`AI response blocked. Reason: ${response.promptFeedback.blockReason}.`);
+    }
+    logger.log('Gemini returned an empty response.', { response });
+    return '';
+  }
+  return text;
+};
+
+export const geminiAdapter: ProviderAdapter = {
+  id: LLMProvider.GEMINI,
+  description: "Google's powerful and versatile family of models. The API key is pre-configured and managed by the environment.",
+  keyLink: 'https://aistudio.google.com/app/apikey',
+  modelPlaceholder: 'e.g., gemini-2.5-flash',
+  capabilities: {
+    structuredOutput: true,
+    jsonMode: true,
+    systemPrompt: true,
+    prefill: true,
+    samplers: ['topP', 'topK', 'frequencyPenalty', 'presencePenalty', 'stopSequences', 'seed'],
+    embeddings: true,
+  },
+  usesEnvironmentKey: true,
+  requiresApiKey: false,
+  getApiKey: () => process.env.API_KEY || '',
+
+  async *streamChat(request) {
+    const contents = toGeminiContents(request.messages);
+    if (request.prefill) {
+      // Add the start of the model's response to guide it
+      contents.push({ role: 'model', parts: [{ text: request.prefill }] });
+    }
+
+    const responseStream = await geminiAI.models.generateContentStream({
+      model: request.model,
+      contents,
+      config: buildConfig(request),
+    });
+
+    for await (const chunk of responseStream) {
+      if (request.signal?.aborted) {
+        logger.log('Gemini stream generation stopped by user.');
+        break;
+      }
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+  },
+
+  async complete(request) {
+    const response = await geminiAI.models.generateContent({
+      model: request.model,
+      contents: toGeminiContents(request.messages),
+      config: buildConfig(request),
+    });
+    return readResponseText(response);
+  },
+
+  async completeJson(request) {
+    const config = buildConfig(request);
+    config.responseMimeType = 'application/json';
+    if (request.schema) config.responseSchema = request.schema;
+
+    const response = await geminiAI.models.generateContent({
+      model: request.model,
+      contents: toGeminiContents(request.messages),
+      config,
+    });
+    return readResponseText(response);
+  },
+  async embed(request) {
+    const response = await geminiAI.models.embedContent({
+      model: request.model,
+      contents: request.texts,
+      config: { abortSignal: request.signal },
+    });
+    const vectors = (response.embeddings ?? []).map((e) => e.values ?? []);
+    if (vectors.length !== request.texts.length) throw new Error('Gemini returned an unexpected number of embeddings.');
+    return vectors;
+  },
+};
@@ -0,0 +1,331 @@
+import { LLMProvider, SamplerSettings, Settings } from '../../types';
+import { logger } from '../logger';
+import { ProviderAdapter, ProviderCapabilities, ProviderRequest, StreamRequest } from './types';
+
+/**
+ * A helper function to standardize the handling of non-OK fetch responses.
+ * It checks the response and throws a structured error if it's not successful.
+ * @param response The fetch Response object.
+ * @returns The Response object if it's ok.
+ * @throws An error with a status property if the response is not ok.
+ */
+async function handleApiResponse(response: Response): Promise<Response> {
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => `(Could not read error body for status ${response.status})`);
+    const error = new Error(errorBody);
+    (error as any).status = response.status;
+    throw error;
+  }
+  return response;
+}
+
+/**
+ * A wrapper around fetch that implements exponential backoff for retries.
+ * @param url The URL to fetch.
+ * @param options The fetch options.
+ * @param retries The number of times to retry.
+ * @param backoff The backoff factor.
+ * @returns A promise that resolves to the fetch response.
+ */
+async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  retries = 3,
+  backoff = 300,
+): Promise<Response> {
+  const [minBackoff, maxBackoff] = [backoff, 5000];
+  for (let i = 0; i < retries; i++) {
+    try {
+      const response = await fetch(url, options);
+      // Retry on 5xx server errors
+      if (response.status >= 500 && response.status < 600) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+      return response;
+    } catch (error) {
+      if (i === retries - 1) throw error;
+      const delay = Math.min(minBackoff * Math.pow(2, i), maxBackoff) + Math.random() * 100;
+      logger.log(`API call failed, retrying in ${delay.toFixed(0)}ms...`, { attempt: i + 1, error });
+      await new Promise(res => setTimeout(res, delay));
+    }
+  }
+  // This line should not be reachable, but is required for type safety.
+  throw new Error("Fetch failed after multiple retries.");
+}
+
+async function* parseOpenAIStream(
+  readableStream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const reader = readableStream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    if (signal?.aborted) {
+      reader.cancel('Stream aborted by user');
+      break;
+    }
+
+    const { done, value } = await reader.read();
+    if (done) {
+      if (buffer) {
+        logger.error('Stream ended with unprocessed data in buffer', {
+          buffer,
+        });
+      }
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep the last, possibly incomplete line
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        const jsonStr = line.substring(6);
+        if (jsonStr === '[DONE]') {
+          return;
+        }
+        try {
+          const parsed = JSON.parse(jsonStr);
+          const content = parsed.choices[0]?.delta?.content;
+          if (content) {
+            yield content;
+          }
+        } catch (e) {
+          logger.error('Error parsing stream JSON chunk', {
+            jsonStr,
+            error: e,
+          });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Fetches the model ids advertised by an OpenAI-style `/models` endpoint.
+ * @param url The models endpoint URL.
+ * @param headers Request headers, including authorization if needed.
+ * @returns The model ids, sorted alphabetically.
+ */
+async function fetchModelIds(url: string, headers: Record<string, string>): Promise<string[]> {
+  const response = await fetch(url, { headers }).then(handleApiResponse);
+  const data = await response.json();
+  // OpenAI returns `{ data: [...] }`; some local servers return a bare array.
+  const models: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.data) ? data.data : [];
+  return models
+    .map((m) => (typeof m === 'string' ? m : (m as { id?: unknown })?.id))
+    .filter((modelId): modelId is string => typeof modelId === 'string' && modelId.length > 0)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/** Native request parameter names for each sampler setting. */
+const SAMPLER_PARAMS: Record<keyof SamplerSettings, string> = {
+  topP: 'top_p',
+  topK: 'top_k',
+  minP: 'min_p',
+  repetitionPenalty: 'repetition_penalty',
+  frequencyPenalty: 'frequency_penalty',
+  presencePenalty: 'presence_penalty',
+  stopSequences: 'stop',
+  seed: 'seed',
+};
+
+/** The sampler settings defined by the OpenAI API itself. */
+export const OPENAI_STANDARD_SAMPLERS: (keyof SamplerSettings)[] = ['topP', 'frequencyPenalty', 'presencePenalty', 'stopSequences', 'seed'];
+
+/** Every sampler setting, for backends that accept the extended llama.cpp/vLLM set. */
+export const ALL_SAMPLERS = Object.keys(SAMPLER_PARAMS) as (keyof SamplerSettings)[];
+
+type OpenAIMessage = { role: 'user' | 'assistant' | 'system'; content: string };
+
+const toOpenAIMessages = ({ systemPrompt, messages }: ProviderRequest): OpenAIMessage[] => {
+  const apiMessages: OpenAIMessage[] = messages.map((m) => ({ role: m.role, content: m.content }));
+  if (systemPrompt) apiMessages.unshift({ role: 'system', content: systemPrompt });
+  return apiMessages;
+};
+
+/** Where and how to reach an OpenAI-compatible server. */
+export interface OpenAICompatibleConnection {
+  chatUrl: string;
+  /** Lists available models. Omit when the server has no models endpoint. */
+  modelsUrl?: string;
+  /** Creates embeddings. Omit when the server has no embeddings endpoint. */
+  embeddingsUrl?: string;
+  headers?: Record<string, string>;
+}
+
+interface OpenAICompatibleOptions {
+  id: LLMProvider;
+  /** A fixed connection, or one derived from the user's settings. */
+  connection: OpenAICompatibleConnection | ((settings: Settings) => OpenAICompatibleConnection);
+  description: string;
+  keyLink?: string;
+  modelPlaceholder: string;
+  capabilities?: Partial<ProviderCapabilities>;
+  requiresApiKey?: boolean;
+}
+
+/**
+ * Creates an adapter for any provider that speaks the OpenAI chat completions protocol.
+ */
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleOptions): ProviderAdapter {
+  const { id } = options;
+  const capabilities: ProviderCapabilities = {
+    structuredOutput: false,
+    jsonMode: true,
+    systemPrompt: true,
+    prefill: true,
+    samplers: OPENAI_STANDARD_SAMPLERS,
+    embeddings: false,
+    ...options.capabilities,
+  };
+
+  const connectionFor = (settings: Settings) =>
+    typeof options.connection === 'function' ? options.connection(settings) : options.connection;
+
+  const headersFor = (apiKey: string, connection: OpenAICompatibleConnection): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    ...connection.headers,
+  });
+
+  const buildBody = (request: ProviderRequest) => {
+    const body: {
+      model: string;
+      messages: OpenAIMessage[];
+      temperature?: number;
+      max_tokens?: number;
+      [param: string]: unknown;
+    } = {
+      model: request.model,
+      messages: toOpenAIMessages(request),
+    };
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.maxOutputTokens && request.maxOutputTokens > 0) body.max_tokens = request.maxOutputTokens;
+    for (const [key, value] of Object.entries(request.samplers ?? {})) {
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+      body[SAMPLER_PARAMS[key as keyof SamplerSettings]] = value;
+    }
+    return body;
+  };
+
+  const postForContent = async (body: object, request: ProviderRequest): Promise<string> => {
+    const connection = connectionFor(request.settings);
+    const response = await fetchWithRetry(connection.chatUrl, {
+      method: 'POST',
+      headers: headersFor(request.apiKey, connection),
+      body: JSON.stringify(body),
+      signal: request.signal,
+    }).then(handleApiResponse);
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('Invalid response format from API.');
+    return content;
+  };
+
+  return {
+    id,
+    description: options.description,
+    keyLink: options.keyLink,
+    modelPlaceholder: options.modelPlaceholder,
+    capabilities,
+    usesEnvironmentKey: false,
+    requiresApiKey: options.requiresApiKey ?? true,
+    getApiKey: (settings: Settings) => settings.apiKeys[id] || '',
+
+    async *streamChat(request: StreamRequest) {
+      const connection = connectionFor(request.settings);
+      const body = { ...buildBody(request), stream: true };
+      if (request.prefill) {
+        body.messages.push({ role: 'assistant', content: request.prefill });
+      }
+
+      const response = await fetch(connection.chatUrl, {
+        method: 'POST',
+        headers: headersFor(request.apiKey, connection),
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        if (request.signal?.aborted) {
+          throw new DOMException('The user aborted a request.', 'AbortError');
+        }
+        const errorBodyText = await response.text().catch(() => `(Could not read error body for status ${response.status})`);
+
+        logger.error(`OpenAI-compatible API request failed: ${response.status}`, {
+          provider: id,
+          status: response.status,
+          body: errorBodyText,
+          requestBody: body,
+        });
+
+        const error = new Error(errorBodyText);
+        (error as any).status = response.status;
+        throw error;
+      }
+
+      if (!response.body) {
+        throw new Error('The response body is empty.');
+      }
+
+      yield* parseOpenAIStream(response.body, request.signal);
+    },
+
+    complete: (request) => postForContent(buildBody(request), request),
+
+    completeJson: (request) =>
+      postForContent(
+        // Without native JSON mode, the prompt alone asks for JSON and the caller parses leniently.
+        capabilities.jsonMode ? { ...buildBody(request), response_format: { type: 'json_object' } } : buildBody(request),
+        request,
+      ),
+
+    async testConnection(settings, model) {
+      const connection = connectionFor(settings);
+      const response = await fetch(connection.chatUrl, {
+        method: 'POST',
+        headers: headersFor(settings.apiKeys[id] || '', connection),
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: 'test' }],
+          max_tokens: 1,
+          stream: false,
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: { message: `Request failed with status: ${response.statusText} (${response.status})` } }));
+        throw new Error(errorData.error?.message || `Invalid key or model name. (Status: ${response.status})`);
+      }
+    },
+
+    async embed(request) {
+      const connection = connectionFor(request.settings);
+      if (!connection.embeddingsUrl) throw new Error(`${id} does not offer embeddings.`);
+      const response = await fetchWithRetry(connection.embeddingsUrl, {
+        method: 'POST',
+        headers: headersFor(request.apiKey, connection),
+        body: JSON.stringify({ model: request.model, input: request.texts }),
+        signal: request.signal,
+      }).then(handleApiResponse);
+
+      const data = await response.json();
+      const items: { index?: number; embedding?: unknown }[] = Array.isArray(data?.data) ? data.data : [];
+      const vectors = [...items]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map((item) => item.embedding)
+        .filter((v): v is number[] => Array.isArray(v));
+      if (vectors.length !== request.texts.length) throw new Error('Invalid embeddings response from API.');
+      return vectors;
+    },
+
+    listModels: (settings) => {
+      const connection = connectionFor(settings);
+      if (!connection.modelsUrl) return Promise.resolve([]);
+      return fetchModelIds(connection.modelsUrl, headersFor(settings.apiKeys[id] || '', connection));
+    },
+  };
+}
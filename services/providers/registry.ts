@@ -0,0 +1,97 @@
+import { CustomEndpointSettings, LLMProvider, Settings } from '../../types';
+import { API_ENDPOINTS } from '../../constants';
+import { geminiAdapter } from './gemini';
+import { ALL_SAMPLERS, createOpenAICompatibleAdapter, OpenAICompatibleConnection } from './openAICompatible';
+import { ProviderAdapter } from './types';
+
+const adapters = new Map<LLMProvider, ProviderAdapter>();
+
+/**
+ * Registers (or replaces) the adapter used for a provider.
+ * @param adapter The provider adapter.
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Looks up the adapter for a provider.
+ * @param provider The provider id.
+ * @returns The registered adapter.
+ * @throws An error if no adapter is registered for the provider.
+ */
+export function getProviderAdapter(provider: LLMProvider): ProviderAdapter {
+  const adapter = adapters.get(provider);
+  if (!adapter) throw new Error(`Unsupported provider: ${provider}`);
+  return adapter;
+}
+
+/** All registered adapters, in registration order. */
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/**
+ * Resolves the API key for a provider, whether it lives in Settings or the environment.
+ * @param settings The current settings.
+ * @param provider The provider to resolve. Defaults to the active provider.
+ */
+export function resolveProviderApiKey(settings: Settings, provider: LLMProvider = settings.provider): string {
+  return getProviderAdapter(provider).getApiKey(settings);
+}
+
+/**
+ * Normalizes a user-entered base URL so both `http://host:port` and `http://host:port/v1/` work.
+ * @param baseUrl The base URL from settings.
+ * @returns The URL of the `/v1` API root, without a trailing slash.
+ */
+export function normalizeCustomBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return /\/v1$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+const customEndpointConnection = ({ baseUrl, headers }: CustomEndpointSettings): OpenAICompatibleConnection => {
+  const root = normalizeCustomBaseUrl(baseUrl);
+  return {
+    chatUrl: `${root}/chat/completions`,
+    modelsUrl: `${root}/models`,
+    embeddingsUrl: `${root}/embeddings`,
+    headers: Object.fromEntries(
+      headers.filter((h) => h.name.trim()).map((h) => [h.name.trim(), h.value]),
+    ),
+  };
+};
+
+// --- Built-in providers ---
+registerProvider(geminiAdapter);
+registerProvider(
+  createOpenAICompatibleAdapter({
+    id: LLMProvider.OPENROUTER,
+    connection: { chatUrl: API_ENDPOINTS[LLMProvider.OPENROUTER] },
+    description: 'Access a wide variety of models from different providers through a single API.',
+    keyLink: 'https://openrouter.ai/keys',
+    modelPlaceholder: 'e.g., gryphe/mythomax-l2-13b',
+    capabilities: { samplers: ALL_SAMPLERS },
+  }),
+);
+registerProvider(
+  createOpenAICompatibleAdapter({
+    id: LLMProvider.DEEPSEEK,
+    connection: { chatUrl: API_ENDPOINTS[LLMProvider.DEEPSEEK] },
+    description: 'A specialized model provider focused on code and chat.',
+    keyLink: 'https://platform.deepseek.com/api_keys',
+    modelPlaceholder: 'e.g., deepseek-chat',
+    capabilities: { samplers: ['topP', 'frequencyPenalty', 'presencePenalty', 'stopSequences'] },
+  }),
+);
+registerProvider(
+  createOpenAICompatibleAdapter({
+    id: LLMProvider.CUSTOM,
+    connection: (settings) => customEndpointConnection(settings.customEndpoint),
+    description: 'Any server that speaks the OpenAI API, such as llama.cpp, Ollama, KoboldCpp or LM Studio. The API key is optional.',
+    modelPlaceholder: 'e.g., llama-3-8b-instruct',
+    // Local servers implement `response_format` inconsistently, so rely on prompting for JSON.
+    capabilities: { jsonMode: false, samplers: ALL_SAMPLERS, embeddings: true },
+    requiresApiKey: false,
+  }),
+);
@@ -0,0 +1,79 @@
+import type { Schema } from '@google/genai';
+import { LLMProvider, Message, SamplerSettings, Settings } from '../../types';
+
+/** A single chat turn as handed to a provider. The system prompt travels separately. */
+export type ProviderMessage = Pick<Message, 'role' | 'content'>;
+
+/**
+ * Describes what a provider's API can do natively. Callers consult these flags
+ * instead of branching on the provider itself.
+ */
+export interface ProviderCapabilities {
+  /** Accepts a response schema and guarantees output that conforms to it. */
+  structuredOutput: boolean;
+  /** Can be asked for a bare JSON object, without a schema. */
+  jsonMode: boolean;
+  /** Accepts a dedicated system instruction separate from the chat turns. */
+  systemPrompt: boolean;
+  /** Continues generation from a partial assistant turn. */
+  prefill: boolean;
+  /** Sampler settings the API accepts. Others are dropped before sending. */
+  samplers: (keyof SamplerSettings)[];
+  /** Turns text into embedding vectors. */
+  embeddings: boolean;
+}
+
+export interface ProviderRequest {
+  apiKey: string;
+  model: string;
+  /** The settings the request is made with, for providers whose endpoint depends on them. */
+  settings: Settings;
+  systemPrompt?: string;
+  messages: ProviderMessage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  samplers?: SamplerSettings;
+  signal?: AbortSignal;
+}
+
+export interface StreamRequest extends ProviderRequest {
+  prefill?: string;
+}
+
+export interface JsonRequest extends ProviderRequest {
+  /** Response schema in Gemini's format. Ignored by providers without `structuredOutput`. */
+  schema?: Schema;
+}
+
+export interface EmbeddingRequest {
+  apiKey: string;
+  model: string;
+  /** The settings the request is made with, for providers whose endpoint depends on them. */
+  settings: Settings;
+  texts: string[];
+  signal?: AbortSignal;
+}
+
+export interface ProviderAdapter {
+  id: LLMProvider;
+  description: string;
+  keyLink?: string;
+  modelPlaceholder: string;
+  capabilities: ProviderCapabilities;
+  /** True when the API key is injected by the environment instead of entered in Settings. */
+  usesEnvironmentKey: boolean;
+  /** Whether requests fail without an API key. */
+  requiresApiKey: boolean;
+  getApiKey: (settings: Settings) => string;
+  streamChat: (request: StreamRequest) => AsyncGenerator<string>;
+  /** One-shot completion returning the raw response text. */
+  complete: (request: ProviderRequest) => Promise<string>;
+  /** One-shot completion that asks the provider for JSON and returns the raw response text. */
+  completeJson: (request: JsonRequest) => Promise<string>;
+  /** Embeds each text, returning one vector per text in the same order. Only present with `embeddings`. */
+  embed?: (request: EmbeddingRequest) => Promise<number[][]>;
+  /** Sends a minimal request to verify credentials and model name against the given (possibly unsaved) settings. */
+  testConnection?: (settings: Settings, model: string) => Promise<void>;
+  /** Fetches the model ids the provider currently offers. */
+  listModels?: (settings: Settings) => Promise<string[]>;
+}
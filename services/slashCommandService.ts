@@ -0,0 +1,256 @@
+import { useChatStore } from '../store/stores/chatStore';
+import { useCharacterStore } from '../store/stores/characterStore';
+import { useUIStore } from '../store/stores/uiStore';
+import { useWorldStore } from '../store/stores/worldStore';
+import { parseDiceCommand } from './diceService';
+import { logger } from './logger';
+import { withCharacterLore } from './loreRetrievalService';
+
+/** The chat a command is run from. */
+export interface SlashCommandContext {
+  sessionId: string;
+  isGroup: boolean;
+  /** Replaces the text in the chat input. */
+  setInput: (value: string) => void;
+}
+
+/** Feedback shown under the chat input after a command runs. */
+export interface SlashCommandResult {
+  error?: string;
+  notice?: string;
+}
+
+export interface SlashCommand {
+  name: string;
+  /** Argument placeholder shown in autocomplete, e.g. `<name>`. Omitted for commands without arguments. */
+  args?: string;
+  description: string;
+  /** Completions for the argument, given the part typed so far. */
+  suggestArgs?: (partial: string, context: SlashCommandContext) => string[];
+  run: (args: string, context: SlashCommandContext) => SlashCommandResult | Promise<SlashCommandResult>;
+}
+
+/** An autocomplete option: `value` replaces the whole input when it is chosen. */
+export interface SlashCompletion {
+  value: string;
+  label: string;
+  description: string;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+/**
+ * Adds a command to the chat input. A command registered under an existing name replaces it.
+ * @param command The command to register.
+ */
+export function registerSlashCommand(command: SlashCommand): void {
+  registry.set(command.name.toLowerCase(), command);
+}
+
+/** All registered commands, sorted by name. */
+export const getSlashCommands = (): SlashCommand[] =>
+  Array.from(registry.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+const splitInput = (input: string): { name: string; args: string; hasArgs: boolean } | null => {
+  const match = input.match(/^\/(\S*)(\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[3] || '').trim(), hasArgs: match[2] !== undefined };
+};
+
+/**
+ * Lists autocomplete options for the chat input: command names while the name is being
+ * typed, then the command's argument suggestions.
+ * @param input The current chat input.
+ * @param context The chat the input belongs to.
+ * @returns The options, best match first. Empty when the input isn't a command.
+ */
+export function getSlashCompletions(input: string, context: SlashCommandContext): SlashCompletion[] {
+  const parts = splitInput(input);
+  if (!parts) return [];
+
+  if (!parts.hasArgs) {
+    return getSlashCommands()
+      .filter((c) => c.name.startsWith(parts.name))
+      .map((c) => ({
+        value: c.args ? `/${c.name} ` : `/${c.name}`,
+        label: c.args ? `/${c.name} ${c.args}` : `/${c.name}`,
+        description: c.description,
+      }));
+  }
+
+  const command = registry.get(parts.name);
+  if (!command?.suggestArgs) return [];
+  const partial = parts.args.toLowerCase();
+  return command
+    .suggestArgs(parts.args, context)
+    .filter((s) => s.toLowerCase().startsWith(partial) && s.toLowerCase() !== partial)
+    .map((s) => ({ value: `/${command.name} ${s}`, label: s, description: command.description }));
+}
+
+/**
+ * Runs the command in the chat input.
+ * @param input The chat input.
+ * @param context The chat the input belongs to.
+ * @returns The command's feedback, or `null` if the input isn't a command and should be sent as a message.
+ */
+export async function executeSlashCommand(
+  input: string,
+  context: SlashCommandContext,
+): Promise<SlashCommandResult | null> {
+  const parts = splitInput(input.trim());
+  if (!parts) return null;
+
+  const command = registry.get(parts.name);
+  if (!command) return { error: `Unknown command "/${parts.name}". Type / to see the available commands.` };
+
+  logger.uiEvent('Slash command', { command: command.name, args: parts.args });
+  try {
+    return await command.run(parts.args, context);
+  } catch (error) {
+    logger.error(`Slash command /${command.name} failed`, error);
+    return { error: error instanceof Error ? error.message : `/${command.name} failed.` };
+  }
+}
+
+// --- Built-in Commands ---
+
+const getSession = ({ sessionId, isGroup }: SlashCommandContext) => {
+  const { sessions, groupSessions } = useChatStore.getState();
+  return isGroup ? groupSessions[sessionId] : sessions[sessionId];
+};
+
+const getSessionWorld = (context: SlashCommandContext) => {
+  const worldId = getSession(context)?.worldId;
+  return worldId ? useWorldStore.getState().worlds.find((w) => w.id === worldId) : undefined;
+};
+
+/** The chat's world with its characters' lorebooks added, as the prompt sees it. */
+const getSessionLore = (context: SlashCommandContext) => {
+  const { characters } = useCharacterStore.getState();
+  const characterIds = context.isGroup
+    ? useChatStore.getState().groupSessions[context.sessionId]?.characterIds ?? []
+    : [useUIStore.getState().activeCharacterId];
+  const sessionCharacters = characters.filter((c) => characterIds.includes(c.id));
+  return withCharacterLore(getSessionWorld(context), sessionCharacters);
+};
+
+/** Finds an item by exact name first, then by name prefix, ignoring case. */
+const findByName = <T extends { name?: string }>(items: T[], query: string): T | undefined => {
+  const q = query.toLowerCase();
+  return items.find((i) => i.name?.toLowerCase() === q) ?? items.find((i) => i.name?.toLowerCase().startsWith(q));
+};
+
+const diceCommand = (name: 'roll' | 'coin' | 'pick', args: string | undefined, description: string): SlashCommand => ({
+  name,
+  args,
+  description,
+  run: (commandArgs, { sessionId, isGroup }) => {
+    const parsed = parseDiceCommand(`/${name} ${commandArgs}`);
+    if (!parsed) return {};
+    if ('error' in parsed) return { error: parsed.error };
+    useChatStore.getState().addDiceRoll(sessionId, parsed, isGroup);
+    return {};
+  },
+});
+
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+  {
+    name: 'impersonate',
+    args: '[direction]',
+    description: 'Have the model draft your next message in your persona, for you to edit.',
+    run: async (args, { sessionId, isGroup, setInput }) => {
+      await useChatStore.getState().impersonate(sessionId, isGroup, setInput, args || undefined);
+      return {};
+    },
+  },
+  diceCommand('roll', '<dice>', 'Roll dice, e.g. 2d6+3. The result is sent to the model.'),
+  diceCommand('coin', undefined, 'Flip a coin. The result is sent to the model.'),
+  diceCommand('pick', '<a|b|c>', 'Pick one of the options at random. The result is sent to the model.'),
+  {
+    name: 'narrate',
+    args: '<text>',
+    description: 'Add narration to the scene without asking for a reply.',
+    run: (args, { sessionId, isGroup }) => {
+      if (!args) return { error: 'Usage: /narrate <text>' };
+      useChatStore.getState().addSystemNote(sessionId, args, 'narration', isGroup);
+      return {};
+    },
+  },
+  {
+    name: 'ooc',
+    args: '<text>',
+    description: 'Send an out-of-character message.',
+    run: async (args, { isGroup }) => {
+      if (!args) return { error: 'Usage: /ooc <text>' };
+      const { sendMessage, sendGroupMessage } = useChatStore.getState();
+      await (isGroup ? sendGroupMessage : sendMessage)(`(OOC: ${args})`);
+      return {};
+    },
+  },
+  {
+    name: 'summarize',
+    description: 'Summarize the older half of the conversation into memory now.',
+    run: async (_args, { sessionId, isGroup }) => {
+      const summarized = await useChatStore.getState().summarizeSession(sessionId, isGroup);
+      return summarized ? { notice: 'Conversation summarized into memory.' } : { error: 'Nothing was summarized.' };
+    },
+  },
+  {
+    name: 'lore',
+    args: '<name>',
+    description: "Bring a lore entry from the chat's world or its characters' lorebooks into the scene.",
+    suggestArgs: (_partial, context) =>
+      (getSessionLore(context)?.entries || []).map((e) => e.name).filter((n): n is string => !!n),
+    run: (args, context) => {
+      const world = getSessionLore(context);
+      if (!world) return { error: 'This chat has no world or character lore. Link a world with /world <name>.' };
+      if (!args) return { error: 'Usage: /lore <name>' };
+      const entry = findByName(world.entries, args);
+      if (!entry) return { error: `No lore entry named "${args}" in ${world.name}.` };
+      useChatStore.getState().addSystemNote(context.sessionId, `${entry.name}\n${entry.content}`, 'lore', context.isGroup);
+      return {};
+    },
+  },
+  {
+    name: 'world',
+    args: '<name>',
+    description: 'Link a world to this chat, or unlink it with /world none.',
+    suggestArgs: () => ['none', ...useWorldStore.getState().worlds.map((w) => w.name)],
+    run: (args, { sessionId, isGroup }) => {
+      const { setSessionWorld } = useChatStore.getState();
+      if (!args) return { error: 'Usage: /world <name>' };
+      if (args.toLowerCase() === 'none') {
+        setSessionWorld(sessionId, null, isGroup);
+        return { notice: 'World unlinked.' };
+      }
+      const world = findByName(useWorldStore.getState().worlds, args);
+      if (!world) return { error: `No world named "${args}".` };
+      setSessionWorld(sessionId, world.id, isGroup);
+      return { notice: `World set to ${world.name}.` };
+    },
+  },
+  {
+    name: 'temp',
+    args: '<0-2>',
+    description: "Set this chat's temperature.",
+    run: (args, { sessionId, isGroup }) => {
+      const temperature = parseFloat(args);
+      if (isNaN(temperature) || temperature < 0 || temperature > 2) return { error: 'Temperature must be a number between 0 and 2.' };
+      useChatStore.getState().setSessionTemperature(sessionId, temperature, isGroup);
+      return { notice: `Temperature set to ${temperature}.` };
+    },
+  },
+  {
+    name: 'fork',
+    description: 'Start a new chat branching from the latest message.',
+    run: (_args, context) => {
+      const lastMessageId = getSession(context)?.messageIds.at(-1);
+      if (!lastMessageId) return { error: 'There is nothing to fork yet.' };
+      const { forkChat, forkGroupChat } = useChatStore.getState();
+      (context.isGroup ? forkGroupChat : forkChat)(context.sessionId, lastMessageId);
+      return {};
+    },
+  },
+];
+
+BUILT_IN_COMMANDS.forEach(registerSlashCommand);
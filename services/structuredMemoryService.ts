@@ -0,0 +1,98 @@
+import { Message, RelationshipState, StructuredMemory, StructuredMemoryFields } from '../types';
+
+/** Entries kept per list. Older entries are expected to be merged or dropped by the model. */
+export const MAX_STRUCTURED_MEMORY_ITEMS = 20;
+
+export const createEmptyStructuredMemory = (): StructuredMemory => ({
+  userFacts: [],
+  relationships: [],
+  inventory: [],
+  plotThreads: [],
+  updatedAt: 0,
+});
+
+const cleanList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value
+        .filter((v): v is string => typeof v === 'string')
+        .map((v) => v.trim())
+        .filter(Boolean)
+        .slice(0, MAX_STRUCTURED_MEMORY_ITEMS)
+    : [];
+
+const cleanRelationships = (value: unknown): RelationshipState[] =>
+  Array.isArray(value)
+    ? value
+        .filter((r): r is { name?: unknown; state?: unknown } => !!r && typeof r === 'object')
+        .map((r) => ({
+          name: typeof r.name === 'string' ? r.name.trim() : '',
+          state: typeof r.state === 'string' ? r.state.trim() : '',
+        }))
+        .filter((r) => r.name && r.state)
+        .slice(0, MAX_STRUCTURED_MEMORY_ITEMS)
+    : [];
+
+/**
+ * Turns a model's JSON answer into a well-formed record, dropping anything that
+ * doesn't fit the expected shape.
+ * @param raw The parsed JSON.
+ * @returns The record's fields. Timestamps are left to the caller.
+ */
+export function normalizeStructuredMemory(raw: unknown): StructuredMemoryFields {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    userFacts: cleanList(data.userFacts),
+    relationships: cleanRelationships(data.relationships),
+    inventory: cleanList(data.inventory),
+    plotThreads: cleanList(data.plotThreads),
+  };
+}
+
+export const isStructuredMemoryEmpty = (memory?: StructuredMemoryFields | null): boolean =>
+  !memory ||
+  (memory.userFacts.length === 0 &&
+    memory.relationships.length === 0 &&
+    memory.inventory.length === 0 &&
+    memory.plotThreads.length === 0);
+
+/**
+ * Renders the record as the text of the `{{memory}}` prompt macro. Empty lists are left out.
+ * @param memory The record.
+ * @returns The text, or an empty string when the record holds nothing.
+ */
+export function formatStructuredMemory(memory?: StructuredMemoryFields | null): string {
+  if (!memory || isStructuredMemoryEmpty(memory)) return '';
+  const block = (title: string, items: string[]) =>
+    items.length > 0 ? `**${title}:**\n${items.map((i) => `- ${i}`).join('\n')}` : '';
+  return [
+    block('Known facts about the user', memory.userFacts),
+    block('Relationships', memory.relationships.map((r) => `${r.name}: ${r.state}`)),
+    block('Inventory', memory.inventory),
+    block('Unresolved plot threads', memory.plotThreads),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Finds the messages the record hasn't been updated from yet.
+ * @param messages The visible history of the session.
+ * @param memory The current record, if any.
+ * @returns The messages after the last one the record covers; all of them if that message is gone.
+ */
+export function getMessagesSinceUpdate(messages: Message[], memory?: StructuredMemory | null): Message[] {
+  const index = memory?.lastMessageId ? messages.findIndex((m) => m.id === memory.lastMessageId) : -1;
+  return messages.slice(index + 1);
+}
+
+/**
+ * Decides whether enough has happened for the record to be updated.
+ * @param messages The visible history of the session.
+ * @param memory The current record, if any.
+ * @param interval The number of user turns between updates.
+ * @returns `true` once `interval` user messages have been sent since the last update.
+ */
+export function isStructuredMemoryDue(messages: Message[], memory: StructuredMemory | undefined, interval: number): boolean {
+  const turns = getMessagesSinceUpdate(messages, memory).filter((m) => m.role === 'user').length;
+  return turns >= Math.max(1, interval);
+}
@@ -0,0 +1,113 @@
+import { Message } from '../types';
+
+// Common English words that carry no meaning for relevance.
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before',
+  'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her',
+  'here', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'my', 'no', 'not', 'of',
+  'on', 'or', 'our', 'out', 'over', 'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'to', 'too', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * A safe, simple stemmer for English words. It is not perfect but is designed to be
+ * non-destructive and handle common cases like plurals and simple verb tenses.
+ * @param word The word to stem.
+ * @returns The stemmed word.
+ */
+export const stem = (word: string): string => {
+  if (word.length < 4) return word;
+
+  // Rule for plurals: cats -> cat, boxes -> box
+  if (word.endsWith('es') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us'))
+    return word.slice(0, -1);
+
+  // Rule for verbs: walking -> walk, walked -> walk
+  // Check length to avoid over-stripping (e.g., "cared" -> "car")
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
+
+  return word;
+};
+
+/**
+ * Splits text into the terms it is indexed and searched by: lowercased, stemmed
+ * words and numbers, without stop words or single characters.
+ * @param text The text to split.
+ * @returns The terms, in order, with repeats.
+ */
+export function tokenizeForSearch(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+// The latest messages stand for the current scene when searching for related text.
+const SCENE_QUERY_MESSAGE_COUNT = 2;
+
+/**
+ * Describes the current scene for a relevance search.
+ * @param messages The visible history, oldest first.
+ * @returns The text of the latest user and character messages.
+ */
+export const buildSceneQuery = (messages: Message[]): string =>
+  messages
+    .filter((m) => m.role !== 'system' && m.content.trim())
+    .slice(-SCENE_QUERY_MESSAGE_COUNT)
+    .map((m) => m.content)
+    .join('\n');
+
+/** A BM25 index over a fixed set of documents. */
+export interface Bm25Index {
+  /**
+   * Scores every document against a query.
+   * @returns One score per document, in document order. Zero means no term in common.
+   */
+  score: (query: string) => number[];
+}
+
+// The usual BM25 parameters: term frequency saturation and length normalization.
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Builds a BM25 index, which ranks documents by how many rare query terms they contain,
+ * discounting repeats and long documents.
+ * @param documents The texts to index.
+ * @returns The index.
+ */
+export function createBm25Index(documents: string[]): Bm25Index {
+  const termCounts = documents.map((doc) => {
+    const counts = new Map<string, number>();
+    for (const term of tokenizeForSearch(doc)) counts.set(term, (counts.get(term) || 0) + 1);
+    return counts;
+  });
+  const lengths = termCounts.map((counts) => Array.from(counts.values()).reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / Math.max(documents.length, 1) || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }
+  const idf = (term: string) => {
+    const n = documentFrequency.get(term) || 0;
+    return Math.log(1 + (documents.length - n + 0.5) / (n + 0.5));
+  };
+
+  return {
+    score: (query) => {
+      const queryTerms = Array.from(new Set(tokenizeForSearch(query)));
+      return termCounts.map((counts, i) => {
+        let total = 0;
+        for (const term of queryTerms) {
+          const tf = counts.get(term);
+          if (!tf) continue;
+          total += (idf(term) * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * lengths[i]) / averageLength));
+        }
+        return total;
+      });
+    },
+  };
+}
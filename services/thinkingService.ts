@@ -1,11 +1,9 @@
-import { GoogleGenAI, Type } from '@google/genai';
-import { Message, ThinkingDepth, ThinkingStep, LLMProvider, Persona, World, Settings } from '../types';
-import { getChatCompletionStream } from './llmService';
+import { Schema, Type } from '@google/genai';
+import { ThinkingDepth, ThinkingStep } from '../types';
+import { getChatCompletionStream, requestJsonCompletion } from './llmService';
 import { logger } from './logger';
 import { useUIStore } from '../store/stores/uiStore';
 
-const geminiAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
 type GetCompletionParams = Parameters<typeof getChatCompletionStream>[0];
 
 interface ThinkingParams extends GetCompletionParams {
@@ -22,37 +20,25 @@ interface ThinkingResult {
 async function runThinkingStep<T>(
   prompt: string,
   systemInstruction: string,
-  model: string,
+  params: Pick<GetCompletionParams, 'provider' | 'apiKey' | 'model' | 'settings'>,
   timeout: number,
-  responseSchema: any
+  responseSchema: Schema
 ): Promise<T> {
   const timeoutPromise = new Promise<never>((_, reject) =>
     setTimeout(() => reject(new Error('Thinking step timed out')), timeout)
   );
 
-  const apiCall = geminiAI.models.generateContent({
-    model: model,
-    contents: prompt,
-    config: {
-      systemInstruction,
-      temperature: 0.3,
-      responseMimeType: 'application/json',
-      responseSchema,
-    },
+  const apiCall = requestJsonCompletion<T>(params.provider, {
+    apiKey: params.apiKey,
+    model: params.model,
+    settings: params.settings,
+    systemPrompt: systemInstruction,
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.3,
+    schema: responseSchema,
   });
 
-  const response = await Promise.race([apiCall, timeoutPromise]);
-  
-  const text = response.text;
-  if (!text || text.trim() === '') {
-      logger.error('Thinking step received empty or invalid response from Gemini.', { response });
-      if (response.promptFeedback && response.promptFeedback.blockReason) {
-        throw new Error(`AI response blocked. Reason: ${response.promptFeedback.blockReason}.`);
-      }
-      throw new Error('Received an empty response from the AI during a thinking step.');
-  }
-
-  return JSON.parse(text.trim()) as T;
+  return Promise.race([apiCall, timeoutPromise]);
 }
 
 export async function* generateResponseWithThinking(
@@ -86,7 +72,7 @@ export async function* generateResponseWithThinking(
     if (thinkingParams.depth === ThinkingDepth.MEDIUM || thinkingParams.depth === ThinkingDepth.DEEP) {
         const analysisSystem = 'You are a story analysis engine. Analyze the context and last message. Identify themes, user intent, character emotions, and potential plot points. Respond ONLY with a valid JSON object.';
         const analysisResult = await runThinkingStep<{ analysis: string }>(
-            context, analysisSystem, thinkingParams.model, thinkingParams.timeout,
+            context, analysisSystem, thinkingParams, thinkingParams.timeout,
             { type: Type.OBJECT, properties: { analysis: { type: Type.STRING } }, required: ['analysis'] }
         );
         thinkingResult.analysis = analysisResult.analysis;
@@ -97,7 +83,7 @@ export async function* generateResponseWithThinking(
     const planSystem = 'You are a response planner. Based on the context and analysis, create a concise, step-by-step plan for the character\'s response. Respond ONLY with a valid JSON object.';
     const planResult = await runThinkingStep<{ plan: string }>(
         `${context}\n\nAnalysis:\n${thinkingResult.analysis}`,
-        planSystem, thinkingParams.model, thinkingParams.timeout,
+        planSystem, thinkingParams, thinkingParams.timeout,
         { type: Type.OBJECT, properties: { plan: { type: Type.STRING } }, required: ['plan'] }
     );
     thinkingResult.plan = planResult.plan;
@@ -108,7 +94,7 @@ export async function* generateResponseWithThinking(
         const reasoningSystem = 'You are the character. Think through your internal monologue, motivations, and conflicts regarding the situation and your planned response. This is your inner voice. Respond ONLY with a valid JSON object.';
         const reasoningResult = await runThinkingStep<{ reasoning: string }>(
             `${context}\n\nAnalysis:\n${thinkingResult.analysis}\n\nPlan:\n${thinkingResult.plan}`,
-            reasoningSystem, thinkingParams.model, thinkingParams.timeout,
+            reasoningSystem, thinkingParams, thinkingParams.timeout,
             { type: Type.OBJECT, properties: { reasoning: { type: Type.STRING } }, required: ['reasoning'] }
         );
         thinkingResult.reasoning = reasoningResult.reasoning;
@@ -0,0 +1,123 @@
+import { logger } from './logger';
+
+type EncodingName = 'o200k_base' | 'cl100k_base';
+
+export interface Tokenizer {
+  /** A human-readable name, shown in the prompt budget breakdown. */
+  label: string;
+  /** True when the count is an estimate rather than the model's own tokenizer. */
+  approximate: boolean;
+  count: (text: string) => number;
+}
+
+interface TokenizerFamily {
+  pattern: RegExp;
+  encoding: EncodingName;
+  /** Whether the encoding is the model's actual tokenizer or a close relative. */
+  exact: boolean;
+}
+
+// Checked in order; the first matching family wins. Matching is on the model name,
+// so the same model behaves the same whether it is reached directly or via OpenRouter.
+const TOKENIZER_FAMILIES: TokenizerFamily[] = [
+  { pattern: /(^|\/)(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|gpt-oss|o[134](-|$))/i, encoding: 'o200k_base', exact: true },
+  { pattern: /(^|\/)(gpt-4|gpt-3\.5)/i, encoding: 'cl100k_base', exact: true },
+  // Byte-level BPE vocabularies derived from or close to cl100k.
+  { pattern: /llama-?3|deepseek|qwen/i, encoding: 'cl100k_base', exact: false },
+  // Large multilingual SentencePiece vocabularies track o200k far better than a character ratio.
+  { pattern: /gemini|gemma/i, encoding: 'o200k_base', exact: false },
+];
+
+/** The original approximation: 1 token ~ 4 characters. Used when no family matches or while an encoding loads. */
+export const heuristicTokenizer: Tokenizer = {
+  label: 'Heuristic (~4 chars/token)',
+  approximate: true,
+  count: (text: string) => Math.ceil((text || '').length / 4),
+};
+
+const loadedEncodings = new Map<EncodingName, (text: string) => number>();
+const pendingEncodings = new Map<EncodingName, Promise<void>>();
+
+/**
+ * Loads a BPE encoding in the background. The ranks tables are large, so they are
+ * only fetched once a model that needs them is in use.
+ */
+function loadEncoding(encoding: EncodingName): Promise<void> {
+  if (loadedEncodings.has(encoding)) return Promise.resolve();
+  const pending = pendingEncodings.get(encoding);
+  if (pending) return pending;
+
+  const load = (encoding === 'o200k_base'
+    ? import('gpt-tokenizer/encoding/o200k_base')
+    : import('gpt-tokenizer/encoding/cl100k_base')
+  )
+    .then((module) => {
+      loadedEncodings.set(encoding, (text: string) => module.countTokens(text));
+      logger.log('Tokenizer encoding loaded.', { encoding });
+    })
+    .catch((error) => {
+      logger.error('Failed to load tokenizer encoding; using heuristic counts.', { encoding, error });
+    })
+    .finally(() => pendingEncodings.delete(encoding));
+
+  pendingEncodings.set(encoding, load);
+  return load;
+}
+
+// Prompts re-count the same messages on every turn, so cache counts per text. The cache is
+// capped by the characters it holds, and whole prompts or long excerpts aren't worth keeping.
+const COUNT_CACHE_MAX_CHARS = 1_000_000;
+const COUNT_CACHE_MAX_TEXT = 8_000;
+const countCache = new Map<string, number>();
+let countCacheChars = 0;
+
+const cachedCount = (encoding: EncodingName, countFn: (text: string) => number, text: string): number => {
+  if (text.length > COUNT_CACHE_MAX_TEXT) return countFn(text);
+  const key = `${encoding}:${text}`;
+  const cached = countCache.get(key);
+  if (cached !== undefined) return cached;
+  const count = countFn(text);
+  while (countCache.size > 0 && countCacheChars + key.length > COUNT_CACHE_MAX_CHARS) {
+    // Maps iterate in insertion order, so this evicts the oldest entry.
+    const oldest = countCache.keys().next().value!;
+    countCache.delete(oldest);
+    countCacheChars -= oldest.length;
+  }
+  countCache.set(key, count);
+  countCacheChars += key.length;
+  return count;
+};
+
+const findFamily = (model: string) => TOKENIZER_FAMILIES.find((f) => f.pattern.test(model || ''));
+
+/**
+ * Resolves the tokenizer for a model. If its encoding is still loading, the
+ * heuristic is returned and the encoding is fetched for subsequent calls.
+ * @param model The model name.
+ * @returns The best tokenizer available right now.
+ */
+export function getTokenizer(model: string): Tokenizer {
+  const family = findFamily(model);
+  if (!family) return heuristicTokenizer;
+
+  const countFn = loadedEncodings.get(family.encoding);
+  if (!countFn) {
+    void loadEncoding(family.encoding);
+    return heuristicTokenizer;
+  }
+
+  return {
+    label: family.exact ? family.encoding : `${family.encoding} (approx.)`,
+    approximate: !family.exact,
+    count: (text: string) => (text ? cachedCount(family.encoding, countFn, text) : 0),
+  };
+}
+
+/**
+ * Starts loading the tokenizer for a model so that the next prompt is counted precisely.
+ * @param model The model name.
+ */
+export function preloadTokenizer(model: string): Promise<void> {
+  const family = findFamily(model);
+  return family ? loadEncoding(family.encoding) : Promise.resolve();
+}
@@ -0,0 +1,419 @@
+import { SecondaryKeyLogic, ValidationIssue, World, WorldEntry } from '../types';
+
+/** A lorebook embedded in a Tavern card. SillyTavern keeps its own settings under `extensions`. */
+export interface TavernCharacterBook {
+  name?: string;
+  description?: string;
+  scan_depth?: number;
+  token_budget?: number;
+  recursive_scanning?: boolean;
+  extensions?: Record<string, unknown>;
+  entries: TavernBookEntry[];
+}
+
+export interface TavernBookEntry {
+  keys: string[];
+  content: string;
+  extensions?: Record<string, unknown>;
+  enabled: boolean;
+  insertion_order: number;
+  case_sensitive?: boolean;
+  name?: string;
+  priority?: number;
+  id?: number | string;
+  comment?: string;
+  selective?: boolean;
+  secondary_keys?: string[];
+  constant?: boolean;
+  position?: 'before_char' | 'after_char';
+  /** V3 only: whether the keys are regular expressions. */
+  use_regex?: boolean;
+}
+
+/** A SillyTavern World Info file. Entries are keyed by their uid. */
+export interface SillyTavernWorldInfo {
+  name?: string;
+  entries: Record<string, SillyTavernWorldInfoEntry>;
+}
+
+export interface SillyTavernWorldInfoEntry {
+  uid: number;
+  key: string[];
+  keysecondary: string[];
+  comment: string;
+  content: string;
+  constant: boolean;
+  vectorized: boolean;
+  selective: boolean;
+  selectiveLogic: number;
+  addMemo: boolean;
+  order: number;
+  position: number;
+  disable: boolean;
+  excludeRecursion: boolean;
+  preventRecursion: boolean;
+  delayUntilRecursion: boolean;
+  probability: number;
+  useProbability: boolean;
+  depth: number;
+  group: string;
+  groupOverride: boolean;
+  groupWeight: number;
+  scanDepth: number | null;
+  caseSensitive: boolean | null;
+  matchWholeWords: boolean | null;
+  useGroupScoring: boolean | null;
+  automationId: string;
+  role: number | null;
+  sticky: number;
+  cooldown: number;
+  delay: number;
+  displayIndex: number;
+}
+
+/** A world converted from a SillyTavern lorebook, with the settings that couldn't be kept. */
+export interface WorldInfoImport {
+  world: World;
+  /** One `ImportLoss` issue per unsupported setting, listing the entries that used it. */
+  issues: ValidationIssue[];
+}
+
+// SillyTavern's selective logic, by index.
+const SELECTIVE_LOGIC: SecondaryKeyLogic[] = ['and-any', 'not-all', 'not-any', 'and-all'];
+
+// SillyTavern's entry positions. Only the two around the character and "at depth" have a counterpart here.
+const POSITION_BEFORE_CHAR = 0;
+const POSITION_AFTER_CHAR = 1;
+const POSITION_AT_DEPTH = 4;
+const DEPTH_ROLE_SYSTEM = 0;
+
+const DEFAULT_ORDER = 100;
+const DEFAULT_DEPTH = 4;
+
+// Why each unsupported setting was dropped, shown after import.
+const LOST_SETTINGS = {
+  position: "Author's note and example message positions aren't supported. These entries go in the system prompt instead.",
+  role: 'Lore inserted in the history is always a system message. The user and assistant roles were dropped.',
+  caseSensitive: 'Keys always match regardless of case.',
+  matchWholeWords: 'Keys always match whole words only.',
+  regexKeys: 'Regular expression keys are matched as plain text.',
+  group: 'Inclusion groups are ignored. Every matching entry can be injected.',
+  delay: 'Activation delays are ignored.',
+  recursionOptions: 'Delaying or excluding entries from recursion is ignored.',
+  scanDepth: 'Per-entry scan depths are ignored. All entries scan the same recent messages.',
+  vectorized: 'Vector-only activation is ignored. These entries trigger by their keys instead.',
+  automationId: 'Automation IDs were dropped.',
+} as const;
+
+type LostSetting = keyof typeof LOST_SETTINGS;
+
+/** The lorebook entry fields both SillyTavern formats have, read into one shape. */
+interface LorebookEntryFields {
+  name: string;
+  keys: string[];
+  secondaryKeys: string[];
+  content: string;
+  enabled: boolean;
+  constant: boolean;
+  selective: boolean;
+  selectiveLogic: number;
+  order: number;
+  position: number;
+  depth: number;
+  role: number | null;
+  probability: number;
+  useProbability: boolean;
+  preventRecursion: boolean;
+  sticky: number;
+  cooldown: number;
+  lost: LostSetting[];
+}
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const asNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+
+const isRegexKey = (key: string) => /^\/.+\/[a-z]*$/.test(key.trim());
+
+/** Finds the settings of an entry that have no counterpart here and are set to something other than their default. */
+function findLostSettings(raw: Record<string, unknown>, keys: string[], position: number, role: number | null): LostSetting[] {
+  const lost: LostSetting[] = [];
+  if (![POSITION_BEFORE_CHAR, POSITION_AFTER_CHAR, POSITION_AT_DEPTH].includes(position)) lost.push('position');
+  if (position === POSITION_AT_DEPTH && role !== null && role !== DEPTH_ROLE_SYSTEM) lost.push('role');
+  if (raw.caseSensitive === true) lost.push('caseSensitive');
+  if (raw.matchWholeWords === false) lost.push('matchWholeWords');
+  if (keys.some(isRegexKey)) lost.push('regexKeys');
+  if (asString(raw.group).trim()) lost.push('group');
+  if (asNumber(raw.delay, 0) > 0) lost.push('delay');
+  if (raw.delayUntilRecursion || raw.excludeRecursion) lost.push('recursionOptions');
+  if (typeof raw.scanDepth === 'number') lost.push('scanDepth');
+  if (raw.vectorized === true) lost.push('vectorized');
+  if (asString(raw.automationId).trim()) lost.push('automationId');
+  return lost;
+}
+
+function readWorldInfoEntry(raw: Record<string, unknown>): LorebookEntryFields {
+  const keys = asStringList(raw.key);
+  const position = asNumber(raw.position, POSITION_BEFORE_CHAR);
+  const role = typeof raw.role === 'number' ? raw.role : null;
+  return {
+    name: asString(raw.comment),
+    keys,
+    secondaryKeys: asStringList(raw.keysecondary),
+    content: asString(raw.content),
+    enabled: raw.disable !== true,
+    constant: raw.constant === true,
+    selective: raw.selective !== false,
+    selectiveLogic: asNumber(raw.selectiveLogic, 0),
+    order: asNumber(raw.order, DEFAULT_ORDER),
+    position,
+    depth: asNumber(raw.depth, DEFAULT_DEPTH),
+    role,
+    probability: asNumber(raw.probability, 100),
+    useProbability: raw.useProbability !== false,
+    preventRecursion: raw.preventRecursion === true,
+    sticky: asNumber(raw.sticky, 0),
+    cooldown: asNumber(raw.cooldown, 0),
+    lost: findLostSettings(raw, keys, position, role),
+  };
+}
+
+// Card lorebooks keep SillyTavern's settings under `extensions`, in snake_case.
+function readBookEntry(raw: TavernBookEntry): LorebookEntryFields {
+  const ext = (raw.extensions && typeof raw.extensions === 'object' ? raw.extensions : {}) as Record<string, unknown>;
+  const keys = asStringList(raw.keys);
+  const position = asNumber(ext.position, raw.position === 'after_char' ? POSITION_AFTER_CHAR : POSITION_BEFORE_CHAR);
+  const role = typeof ext.role === 'number' ? ext.role : null;
+  const stSettings = {
+    caseSensitive: raw.case_sensitive ?? ext.case_sensitive,
+    matchWholeWords: ext.match_whole_words,
+    group: ext.group,
+    delay: ext.delay,
+    delayUntilRecursion: ext.delay_until_recursion,
+    excludeRecursion: ext.exclude_recursion,
+    scanDepth: ext.scan_depth,
+    vectorized: ext.vectorized,
+    automationId: ext.automation_id,
+  };
+  return {
+    name: asString(raw.comment) || asString(raw.name),
+    keys,
+    secondaryKeys: asStringList(raw.secondary_keys),
+    content: asString(raw.content),
+    enabled: raw.enabled !== false,
+    constant: raw.constant === true,
+    selective: raw.selective !== false,
+    selectiveLogic: asNumber(ext.selectiveLogic, 0),
+    order: asNumber(raw.insertion_order, DEFAULT_ORDER),
+    position,
+    depth: asNumber(ext.depth, DEFAULT_DEPTH),
+    role,
+    probability: asNumber(ext.probability, 100),
+    useProbability: ext.useProbability !== false,
+    preventRecursion: ext.prevent_recursion === true,
+    sticky: asNumber(ext.sticky, 0),
+    cooldown: asNumber(ext.cooldown, 0),
+    lost: findLostSettings(stSettings, keys, position, role),
+  };
+}
+
+function toWorldEntry(fields: LorebookEntryFields): WorldEntry {
+  // Secondary keys only take effect in SillyTavern when the entry is selective.
+  const secondaryKeys = fields.selective ? fields.secondaryKeys : [];
+  const probability = fields.useProbability ? Math.min(Math.max(Math.round(fields.probability), 0), 100) : 100;
+  return {
+    id: crypto.randomUUID(),
+    name: fields.name || fields.keys[0] || 'Untitled',
+    keys: fields.keys,
+    content: fields.content,
+    enabled: fields.enabled,
+    isAlwaysActive: fields.constant || undefined,
+    // SillyTavern's insertion order also decides which entries survive its token budget, as priority does here.
+    // Its default order of 100 is priority 0, and every other order keeps its distance from it.
+    priority: fields.order !== DEFAULT_ORDER ? fields.order - DEFAULT_ORDER : undefined,
+    insertionDepth: fields.position === POSITION_AT_DEPTH ? Math.max(0, Math.round(fields.depth)) : undefined,
+    sticky: fields.sticky > 0 ? fields.sticky : undefined,
+    cooldown: fields.cooldown > 0 ? fields.cooldown : undefined,
+    probability: probability < 100 ? probability : undefined,
+    secondaryKeys: secondaryKeys.length > 0 ? secondaryKeys : undefined,
+    secondaryKeyLogic: secondaryKeys.length > 0 ? SELECTIVE_LOGIC[fields.selectiveLogic] ?? 'and-any' : undefined,
+    noRecursion: fields.preventRecursion || undefined,
+  };
+}
+
+/**
+ * Builds a world from lorebook entries. Entries without content are left out, since
+ * worlds can't hold them, and every setting that couldn't be kept is reported.
+ */
+function buildWorld(entries: LorebookEntryFields[], name: string, description: string): WorldInfoImport {
+  const kept = entries.filter((e) => e.content.trim());
+  const worldEntries = kept.map(toWorldEntry);
+  const issues: ValidationIssue[] = [];
+
+  const skipped = entries.filter((e) => !e.content.trim());
+  if (skipped.length > 0) {
+    const names = skipped.map((e) => `"${e.name || e.keys[0] || 'Untitled'}"`).join(', ');
+    issues.push({
+      type: 'ImportLoss',
+      severity: 'warning',
+      message: `Skipped ${skipped.length === 1 ? 'an entry' : `${skipped.length} entries`} with no content: ${names}.`,
+      entryIds: [],
+    });
+  }
+  for (const setting of Object.keys(LOST_SETTINGS) as LostSetting[]) {
+    const entryIds = worldEntries.filter((_, i) => kept[i].lost.includes(setting)).map((e) => e.id);
+    if (entryIds.length > 0) {
+      issues.push({ type: 'ImportLoss', severity: 'info', message: LOST_SETTINGS[setting], entryIds });
+    }
+  }
+
+  return {
+    world: { id: crypto.randomUUID(), name, description, entries: worldEntries, createdAt: Date.now(), lastModified: Date.now() },
+    issues,
+  };
+}
+
+/** @returns `true` if the JSON is a SillyTavern World Info file. */
+export const isWorldInfo = (json: unknown): json is SillyTavernWorldInfo =>
+  !!json && typeof json === 'object' && !Array.isArray(json) &&
+  !!(json as SillyTavernWorldInfo).entries && typeof (json as SillyTavernWorldInfo).entries === 'object' &&
+  !Array.isArray((json as SillyTavernWorldInfo).entries);
+
+/** @returns `true` if the JSON is a card lorebook on its own. */
+export const isCharacterBook = (json: unknown): json is TavernCharacterBook =>
+  !!json && typeof json === 'object' && Array.isArray((json as TavernCharacterBook).entries);
+
+/**
+ * Converts a SillyTavern World Info file into a world.
+ * @param info The World Info JSON.
+ * @param fallbackName Names the world, since World Info files usually take their name from the file.
+ * @returns The world and the settings that couldn't be kept.
+ */
+export function worldFromWorldInfo(info: SillyTavernWorldInfo, fallbackName: string): WorldInfoImport {
+  const entries = Object.values(info.entries)
+    .filter((e): e is SillyTavernWorldInfoEntry => !!e && typeof e === 'object')
+    .sort((a, b) => asNumber(a.displayIndex, asNumber(a.uid, 0)) - asNumber(b.displayIndex, asNumber(b.uid, 0)))
+    .map((e) => readWorldInfoEntry(e as unknown as Record<string, unknown>));
+  return buildWorld(entries, asString(info.name) || fallbackName, '');
+}
+
+/**
+ * Converts a card's lorebook into a world.
+ * @param book The lorebook.
+ * @param fallbackName Names the world when the book has no name.
+ * @returns The world and the settings that couldn't be kept.
+ */
+export function worldFromCharacterBook(book: TavernCharacterBook, fallbackName: string): WorldInfoImport {
+  const entries = (Array.isArray(book.entries) ? book.entries : [])
+    .filter((e): e is TavernBookEntry => !!e && typeof e === 'object')
+    .map(readBookEntry);
+  return buildWorld(entries, asString(book.name) || fallbackName, asString(book.description));
+}
+
+// SillyTavern's settings for an entry, in World Info's camelCase.
+const toSillyTavernSettings = (entry: WorldEntry) => {
+  const secondaryKeys = entry.secondaryKeys || [];
+  return {
+    selectiveLogic: Math.max(SELECTIVE_LOGIC.indexOf(entry.secondaryKeyLogic ?? 'and-any'), 0),
+    position: entry.insertionDepth !== undefined ? POSITION_AT_DEPTH : POSITION_BEFORE_CHAR,
+    depth: entry.insertionDepth ?? DEFAULT_DEPTH,
+    probability: entry.probability ?? 100,
+    useProbability: true,
+    preventRecursion: !!entry.noRecursion,
+    sticky: entry.sticky ?? 0,
+    cooldown: entry.cooldown ?? 0,
+    selective: secondaryKeys.length > 0,
+    secondaryKeys,
+    order: (entry.priority ?? 0) + DEFAULT_ORDER,
+  };
+};
+
+/**
+ * Converts a world into a SillyTavern World Info file.
+ * @param world The world.
+ * @returns The World Info JSON.
+ */
+export function worldToWorldInfo(world: World): SillyTavernWorldInfo {
+  const entries: Record<string, SillyTavernWorldInfoEntry> = {};
+  world.entries.forEach((entry, uid) => {
+    const st = toSillyTavernSettings(entry);
+    entries[uid] = {
+      uid,
+      key: entry.keys,
+      keysecondary: st.secondaryKeys,
+      comment: entry.name || '',
+      content: entry.content,
+      constant: !!entry.isAlwaysActive,
+      vectorized: false,
+      selective: st.selective,
+      selectiveLogic: st.selectiveLogic,
+      addMemo: true,
+      order: st.order,
+      position: st.position,
+      disable: !entry.enabled,
+      excludeRecursion: false,
+      preventRecursion: st.preventRecursion,
+      delayUntilRecursion: false,
+      probability: st.probability,
+      useProbability: st.useProbability,
+      depth: st.depth,
+      group: '',
+      groupOverride: false,
+      groupWeight: 100,
+      scanDepth: null,
+      caseSensitive: null,
+      matchWholeWords: null,
+      useGroupScoring: null,
+      automationId: '',
+      role: st.position === POSITION_AT_DEPTH ? DEPTH_ROLE_SYSTEM : null,
+      sticky: st.sticky,
+      cooldown: st.cooldown,
+      delay: 0,
+      displayIndex: uid,
+    };
+  });
+  return { name: world.name, entries };
+}
+
+/**
+ * Converts a world into a card lorebook.
+ * @param world The world.
+ * @returns The lorebook.
+ */
+export function characterBookFromWorld(world: World): TavernCharacterBook {
+  return {
+    name: world.name,
+    description: world.description,
+    extensions: {},
+    entries: world.entries.map((entry, i) => {
+      const st = toSillyTavernSettings(entry);
+      return {
+        id: i,
+        keys: entry.keys,
+        secondary_keys: st.secondaryKeys,
+        content: entry.content,
+        enabled: entry.enabled,
+        insertion_order: st.order,
+        comment: entry.name || '',
+        constant: !!entry.isAlwaysActive,
+        selective: st.selective,
+        position: 'before_char',
+        extensions: {
+          position: st.position,
+          depth: st.depth,
+          role: st.position === POSITION_AT_DEPTH ? DEPTH_ROLE_SYSTEM : null,
+          selectiveLogic: st.selectiveLogic,
+          probability: st.probability,
+          useProbability: st.useProbability,
+          prevent_recursion: st.preventRecursion,
+          sticky: st.sticky,
+          cooldown: st.cooldown,
+        },
+      };
+    }),
+  };
+}
@@ -1,16 +1,16 @@
-import { GoogleGenAI, Type } from '@google/genai';
-import { World, ContentSuggestion, LLMProvider } from '../types';
+import { Type } from '@google/genai';
+import { World, ContentSuggestion, LLMProvider, Settings } from '../types';
 import { logger } from './logger';
 import { ERROR_MESSAGES } from './errorMessages';
-
-// Instantiate the Gemini client once at the module level.
-const geminiAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { requestJsonCompletion } from './llmService';
+import { getProviderAdapter } from './providers/registry';
 
 interface SuggestionParams {
   world: World;
   provider: LLMProvider;
   apiKey: string;
   model: string;
+  settings: Settings;
 }
 
 export async function generateContentSuggestions({
@@ -18,14 +18,14 @@ export async function generateContentSuggestions({
   provider,
   apiKey,
   model,
+  settings,
 }: SuggestionParams): Promise<ContentSuggestion[]> {
-  if (provider !== LLMProvider.GEMINI) {
-    // For now, only implement for Gemini as it's the most capable with JSON schemas.
-    // This could be expanded to other providers later.
-    logger.log('Content suggestion is currently only supported for Gemini provider.');
+  if (!getProviderAdapter(provider).capabilities.structuredOutput) {
+    // Suggestions rely on a response schema to stay well-formed.
+    logger.log('Content suggestion requires a provider with structured output support.', { provider });
     return [{
         type: 'expansion',
-        message: `Content suggestions are currently only available for the Gemini provider.`,
+        message: `Content suggestions are only available for providers with structured output support.`,
         entryIds: []
     }];
   }
@@ -64,55 +64,52 @@ CRITICAL INSTRUCTIONS:
   logger.apiRequest('Generating world content suggestions', requestData);
 
   try {
-    const response = await geminiAI.models.generateContent({
-      model: model,
-      contents: userPrompt,
-      config: {
-        systemInstruction: systemPrompt,
-        temperature: 0.5,
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              type: {
-                type: Type.STRING,
-                enum: ['cross_reference_suggestion', 'incomplete_entry', 'contradiction', 'expansion', 'keyword_suggestion'],
-              },
-              message: {
-                type: Type.STRING,
-                description: "A clear and concise message explaining the suggestion to the user.",
-              },
-              entryIds: {
-                type: Type.ARRAY,
-                description: "An array of the string IDs of the relevant entries.",
-                items: { type: Type.STRING },
-              },
-              relatedData: {
-                type: Type.OBJECT,
-                description: "Optional data for actionable suggestions.",
-                properties: {
-                    keywordToAdd: {
-                        type: Type.STRING,
-                        description: "The keyword that should be added. Only for 'cross_reference_suggestion' type."
-                    },
-                    keywordsToAdd: {
-                        type: Type.ARRAY,
-                        description: "An array of suggested keywords. Only for 'keyword_suggestion' type.",
-                        items: { type: Type.STRING }
-                    }
-                }
-              },
+    const suggestions = await requestJsonCompletion<ContentSuggestion[]>(provider, {
+      apiKey,
+      model,
+      settings,
+      systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      temperature: 0.5,
+      schema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            type: {
+              type: Type.STRING,
+              enum: ['cross_reference_suggestion', 'incomplete_entry', 'contradiction', 'expansion', 'keyword_suggestion'],
+            },
+            message: {
+              type: Type.STRING,
+              description: "A clear and concise message explaining the suggestion to the user.",
+            },
+            entryIds: {
+              type: Type.ARRAY,
+              description: "An array of the string IDs of the relevant entries.",
+              items: { type: Type.STRING },
+            },
+            relatedData: {
+              type: Type.OBJECT,
+              description: "Optional data for actionable suggestions.",
+              properties: {
+                  keywordToAdd: {
+                      type: Type.STRING,
+                      description: "The keyword that should be added. Only for 'cross_reference_suggestion' type."
+                  },
+                  keywordsToAdd: {
+                      type: Type.ARRAY,
+                      description: "An array of suggested keywords. Only for 'keyword_suggestion' type.",
+                      items: { type: Type.STRING }
+                  }
+              }
             },
-            required: ["type", "message", "entryIds"],
           },
+          required: ["type", "message", "entryIds"],
         },
       },
     });
 
-    const jsonStr = response.text.trim();
-    const suggestions = JSON.parse(jsonStr) as ContentSuggestion[];
     logger.apiResponse('Content suggestions generated successfully', { response: suggestions });
     return suggestions;
   } catch (error) {
@@ -1,6 +1,7 @@
-import { World, WorldEntry, ValidationIssue, LLMProvider, AiAnalysisReport } from '../types';
+import { World, WorldEntry, ValidationIssue, LLMProvider, AiAnalysisReport, Settings } from '../types';
 import { runAiWorldAnalysis } from './llmService';
 import { ERROR_MESSAGES } from './errorMessages';
+import { buildReferenceGraph } from './loreRetrievalService';
 
 const MIN_CONTENT_LENGTH = 50; // characters
 
@@ -16,6 +17,48 @@ function isValidWorldEntry(entry: any): entry is WorldEntry {
   );
 }
 
+/**
+ * Finds loops in a reference graph, such as A mentioning B and B mentioning A.
+ * @param adj The graph from `buildReferenceGraph`.
+ * @returns Each distinct loop once, as the ids along it, without repeating the first.
+ */
+function findCircularReferences(adj: Map<string, string[]>): string[][] {
+  const visited = new Set<string>();
+  const recursionStack = new Set<string>();
+  const cycles = new Set<string>();
+  const found: string[][] = [];
+
+  function detectCycle(nodeId: string, path: string[]) {
+    visited.add(nodeId);
+    recursionStack.add(nodeId);
+    
+    const neighbors = adj.get(nodeId) || [];
+    for (const neighborId of neighbors) {
+      if (recursionStack.has(neighborId)) {
+        const cycleStartIndex = path.indexOf(neighborId);
+        const cyclePathIds = path.slice(cycleStartIndex);
+        const sortedCyclePath = [...cyclePathIds].sort();
+        const cycleKey = sortedCyclePath.join('->');
+        
+        if (!cycles.has(cycleKey)) {
+            found.push(cyclePathIds);
+            cycles.add(cycleKey);
+        }
+      } else if (!visited.has(neighborId)) {
+        detectCycle(neighborId, [...path, neighborId]);
+      }
+    }
+    recursionStack.delete(nodeId);
+  }
+
+  for (const nodeId of adj.keys()) {
+    if (!visited.has(nodeId)) {
+      detectCycle(nodeId, [nodeId]);
+    }
+  }
+  return found;
+}
+
 export function validateWorld(world: World): ValidationIssue[] {
   const issues: ValidationIssue[] = [];
   if (!world.entries || !Array.isArray(world.entries) || world.entries.length === 0) {
@@ -209,64 +252,15 @@ export function validateWorld(world: World): ValidationIssue[] {
   });
 
   // --- Check 6: Circular References ---
-  const adj = new Map<string, string[]>();
-  const allKeywordsByEntry = new Map<string, string[]>();
-  entries.forEach(entry => {
-      allKeywordsByEntry.set(entry.id, (entry.keys || []).map(k => k.toLowerCase().trim()).filter(Boolean));
-  });
-
-  entries.forEach(sourceEntry => {
-    if (!sourceEntry.content) return;
-    const lowerContent = sourceEntry.content.toLowerCase();
-    const dependencies: string[] = [];
-    entries.forEach(targetEntry => {
-      if (sourceEntry.id === targetEntry.id) return;
-      const targetKeywords = allKeywordsByEntry.get(targetEntry.id) || [];
-      if (targetKeywords.some(key => lowerContent.includes(key))) {
-        dependencies.push(targetEntry.id);
-      }
+  for (const cyclePathIds of findCircularReferences(buildReferenceGraph(entries))) {
+    const cyclePathNames = [...cyclePathIds, cyclePathIds[0]].map(id => entryMap.get(id)?.name || 'Unnamed');
+    issues.push({
+        type: 'CircularReference',
+        severity: 'warning',
+        message: `A circular reference was detected: ${cyclePathNames.join(' -> ')}.`,
+        entryIds: cyclePathIds,
+        relatedData: { path: cyclePathNames }
     });
-    adj.set(sourceEntry.id, dependencies);
-  });
-  
-  const visited = new Set<string>();
-  const recursionStack = new Set<string>();
-  const cycles = new Set<string>();
-
-  function detectCycle(nodeId: string, path: string[]) {
-    visited.add(nodeId);
-    recursionStack.add(nodeId);
-    
-    const neighbors = adj.get(nodeId) || [];
-    for (const neighborId of neighbors) {
-      if (recursionStack.has(neighborId)) {
-        const cycleStartIndex = path.indexOf(neighborId);
-        const cyclePathIds = path.slice(cycleStartIndex);
-        const cyclePathNames = [...cyclePathIds.map(id => entryMap.get(id)?.name || 'Unnamed'), entryMap.get(neighborId)?.name || 'Unnamed'];
-        const sortedCyclePath = [...cyclePathIds].sort();
-        const cycleKey = sortedCyclePath.join('->');
-        
-        if (!cycles.has(cycleKey)) {
-            issues.push({
-                type: 'CircularReference',
-                severity: 'warning',
-                message: `A circular reference was detected: ${cyclePathNames.join(' -> ')}.`,
-                entryIds: cyclePathIds,
-                relatedData: { path: cyclePathNames }
-            });
-            cycles.add(cycleKey);
-        }
-      } else if (!visited.has(neighborId)) {
-        detectCycle(neighborId, [...path, neighborId]);
-      }
-    }
-    recursionStack.delete(nodeId);
-  }
-
-  for (const entry of entries) {
-    if (!visited.has(entry.id)) {
-      detectCycle(entry.id, [entry.id]);
-    }
   }
 
   return issues;
@@ -277,12 +271,14 @@ export async function runAiAnalysis({
     world,
     provider,
     apiKey,
-    model
+    model,
+    settings
 }: {
     world: World,
     provider: LLMProvider,
     apiKey: string,
-    model: string
+    model: string,
+    settings: Settings
 }): Promise<AiAnalysisReport> {
     if (!world.entries || world.entries.filter(e => e.enabled).length < 2) {
         return { issues: [], coherence: { score: 0, summary: "Not enough content for a full AI analysis.", positivePoints: [], improvementAreas: ["Add more content to your world entries."] }};
@@ -292,7 +288,7 @@ export async function runAiAnalysis({
         throw new Error(ERROR_MESSAGES.API_KEY_MISSING(provider));
     }
 
-    const report = await runAiWorldAnalysis({ world, provider, apiKey, model });
+    const report = await runAiWorldAnalysis({ world, provider, apiKey, model, settings });
     
     return report;
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { Character, LLMProvider } from '../../types';
+import { Character } from '../../types';
 import { generateCharacterProfile as generateProfile } from '../../services/llmService';
+import { getProviderAdapter, resolveProviderApiKey } from '../../services/providers/registry';
 import { useUIStore } from './uiStore';
 import { useChatStore } from './chatStore';
 import { useSettingsStore } from './settingsStore';
@@ -84,14 +85,14 @@ export const useCharacterStore = create<CharacterStore>()(
 
       generateCharacterProfile: async (concept) => {
         const { settings } = useSettingsStore.getState();
-        const { provider, apiKeys, models } = settings;
+        const { provider, models } = settings;
         const model = models?.[provider] || '';
-        const apiKey = provider === LLMProvider.GEMINI ? process.env.API_KEY || '' : apiKeys[provider];
+        const apiKey = resolveProviderApiKey(settings);
 
-        if (!apiKey) throw new Error(ERROR_MESSAGES.API_KEY_MISSING(provider));
+        if (getProviderAdapter(provider).requiresApiKey && !apiKey) throw new Error(ERROR_MESSAGES.API_KEY_MISSING(provider));
         if (!model) throw new Error(`Model for ${provider} is not configured. Please check your settings.`);
 
-        const profile = await generateProfile({ provider, apiKey, model, concept });
+        const profile = await generateProfile({ provider, apiKey, model, settings, concept });
         return {
           name: profile.name,
           greeting: profile.greeting,
@@ -1,12 +1,23 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { Character, Message, ChatSession, GroupChatSession, LLMProvider, GroupTurnAction, ThinkingStep, Settings } from '../../types';
+import { Character, Message, ChatSession, GroupChatSession, GroupTurnAction, ThinkingStep, Settings, SamplerSettings, PromptBudget, PromptSnapshot, SystemNoteKind, MemoryVersionSource, StructuredMemoryFields } from '../../types';
 import { useUIStore } from './uiStore';
 import { useSettingsStore } from './settingsStore';
 import { useWorldStore } from './worldStore';
 import { useCharacterStore } from './characterStore';
-import { getChatCompletionStream, getGroupChatCompletion, summarizeMessages } from '../../services/llmService';
+import { buildChatPrompt, buildGroupChatPrompt, CompletionParams, getChatCompletionStream, getGroupChatCompletion, GroupCompletionParams, retrieveChatLore, summarizeMessages, extractStructuredMemory } from '../../services/llmService';
+import { getLoreTurn, scoreLoreRelevance, withCharacterLore } from '../../services/loreRetrievalService';
 import { generateResponseWithThinking } from '../../services/thinkingService';
+import { getProviderAdapter, resolveProviderApiKey } from '../../services/providers/registry';
+import { findConnectionProfile, mergeSamplers, resolveSessionSettings } from '../../services/connectionProfileService';
+import { getTokenizer } from '../../services/tokenizerService';
+import { resolvePromptTemplate } from '../../services/promptTemplateService';
+import { expandMacros } from '../../services/macroService';
+import { DiceCommand, executeDiceCommand, formatDiceRoll } from '../../services/diceService';
+import { createEmptyStructuredMemory, getMessagesSinceUpdate, isStructuredMemoryDue } from '../../services/structuredMemoryService';
+import { groupIntoExchanges, rankExchanges, RecallExchange } from '../../services/memoryRecallService';
+import { buildSceneQuery } from '../../services/textSearchService';
+import { resolveEmbeddingProvider } from '../../services/embeddingService';
 import { logger } from '../../services/logger';
 import { ERROR_MESSAGES } from '../../services/errorMessages';
 
@@ -27,11 +38,21 @@ export interface ChatActions {
   deleteMessage: (sessionId: string, messageId: string) => void;
   deleteMultipleMessages: (sessionId: string, messageIds: string[]) => void;
   regenerateResponse: (sessionId: string) => Promise<void>;
+  generateAlternatives: (sessionId: string, count: number) => Promise<void>;
   continueGeneration: (sessionId: string) => Promise<void>;
   setActiveAlternate: (sessionId: string, messageId: string, direction: 'prev' | 'next') => void;
   newSession: (characterId: string) => string;
   forkChat: (sessionId: string, messageId: string) => string;
   deleteSession: (characterId: string, sessionId: string) => void;
+  addDiceRoll: (sessionId: string, command: DiceCommand, isGroup?: boolean) => void;
+  addSystemNote: (sessionId: string, content: string, kind: SystemNoteKind, isGroup?: boolean) => void;
+  summarizeSession: (sessionId: string, isGroup?: boolean) => Promise<boolean>;
+  setMemorySummary: (sessionId: string, summary: string, isGroup?: boolean) => void;
+  restoreMemoryVersion: (sessionId: string, versionId: string, isGroup?: boolean) => void;
+  summarizeMemoryRange: (sessionId: string, start: number, end: number, merge: boolean, isGroup?: boolean) => Promise<boolean>;
+  setStructuredMemory: (sessionId: string, fields: StructuredMemoryFields, isGroup?: boolean) => void;
+  updateStructuredMemory: (sessionId: string, isGroup?: boolean) => Promise<boolean>;
+  impersonate: (sessionId: string, isGroup: boolean, onDraft: (draft: string) => void, instruction?: string) => Promise<void>;
   sendGroupMessage: (content: string) => Promise<void>;
   editGroupMessage: (sessionId: string, messageId: string, newContent: string) => void;
   deleteGroupMessage: (sessionId: string, messageId: string) => void;
@@ -48,6 +69,10 @@ export interface ChatActions {
   setSessionContextSize: (sessionId: string, contextSize: number, isGroup?: boolean) => void;
   setSessionMaxOutputTokens: (sessionId: string, maxOutputTokens: number, isGroup?: boolean) => void;
   setSessionMemoryEnabled: (sessionId: string, enabled: boolean, isGroup?: boolean) => void;
+  setSessionStructuredMemoryEnabled: (sessionId: string, enabled: boolean, isGroup?: boolean) => void;
+  setSessionConnectionProfile: (sessionId: string, profileId: string | null, isGroup?: boolean) => void;
+  setSessionSamplers: (sessionId: string, samplers: SamplerSettings, isGroup?: boolean) => void;
+  getPromptBudget: (sessionId: string, isGroup?: boolean) => PromptBudget | null;
   exportChats: (sessionIds: string[], groupSessionIds: string[]) => void;
   importChats: (jsonString: string) => void;
 }
@@ -57,8 +82,8 @@ export type ChatStore = ChatState & ChatActions;
 // --- Internal Helpers ---
 const MEMORY_TRIGGER_THRESHOLD = 0.75;
 const MEMORY_SLICE_PERCENT = 0.5;
+const MAX_MEMORY_VERSIONS = 30;
 const RENDER_INTERVAL = 100; // ms
-const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
 const extractErrorMessage = (error: unknown): string => {
     if (error instanceof Error) {
         if (error.name === 'AbortError') return 'Generation stopped by user.';
@@ -68,52 +93,477 @@ const extractErrorMessage = (error: unknown): string => {
     return ERROR_MESSAGES.UNKNOWN_ERROR;
 };
 
+/**
+ * Removes the ids that a remaining session still refers to. Forks share their parent's
+ * messages up to the fork point, so deleting either side must leave those in place.
+ */
+const withoutSharedMessages = (
+    messageIds: Set<string>,
+    remainingSessions: Record<string, Session>,
+    remainingGroupSessions: Record<string, GroupSession>,
+): Set<string> => {
+    [...Object.values(remainingSessions), ...Object.values(remainingGroupSessions)]
+        .forEach(s => [...s.messageIds, ...(s.summarizedMessageIds || [])].forEach(id => messageIds.delete(id)));
+    return messageIds;
+};
+
+/**
+ * Drops the prompt snapshot from a message. Each snapshot holds the whole prompt, so they
+ * stay in memory for the inspector and are never saved or exported.
+ */
+const withoutPromptSnapshot = ({ promptSnapshot, ...message }: Message): Message => message;
+
+/** Every message a session owns: the visible history and the messages folded into its summary. */
+const ownedMessageIds = (session: Session | GroupSession): string[] =>
+    [...session.messageIds, ...(session.summarizedMessageIds || [])];
+
+/**
+ * The memory fields of a session once `summary` becomes its summary. Each change is kept
+ * as a version, so an earlier summary can be restored.
+ */
+const withMemoryVersion = (
+    session: Session | GroupSession,
+    summary: string,
+    source: MemoryVersionSource,
+    detail?: string,
+): Pick<Session, 'memorySummary' | 'memoryVersions'> => {
+    // Sessions summarized before versions were kept start their history with that summary.
+    const versions = session.memoryVersions?.length
+        ? session.memoryVersions
+        : session.memorySummary ? [{ id: crypto.randomUUID(), summary: session.memorySummary, timestamp: 0, source: 'auto' as const }] : [];
+    return {
+        memorySummary: summary,
+        memoryVersions: [...versions, { id: crypto.randomUUID(), summary, timestamp: Date.now(), source, detail }].slice(-MAX_MEMORY_VERSIONS),
+    };
+};
+
+/**
+ * The state a fork can't take over from its parent as it is: a structured memory updated from
+ * messages past the fork point, lore activations from later turns, and the parent's memory versions.
+ * @param session The parent session.
+ * @param history The fork's visible history.
+ */
+const forkedMemoryState = (
+    session: Session | GroupSession,
+    history: Message[],
+): Pick<Session, 'structuredMemory' | 'loreActivations' | 'memoryVersions'> => {
+    const keptIds = new Set([...history.map(m => m.id), ...(session.summarizedMessageIds || [])]);
+    const lastUpdateId = session.structuredMemory?.lastMessageId;
+    // A reply at the fork point shares its turn's activations; otherwise that turn is replayed.
+    const forkTurn = getLoreTurn(history);
+    const endsOnReply = history[history.length - 1]?.role === 'assistant';
+    const loreActivations = Object.fromEntries(
+        Object.entries(session.loreActivations || {}).filter(([, turn]) => turn < forkTurn || (endsOnReply && turn === forkTurn)),
+    );
+    return {
+        // The record can't be rolled back, so one that saw later messages is rebuilt from the fork's history.
+        structuredMemory: lastUpdateId && !keptIds.has(lastUpdateId) ? undefined : session.structuredMemory,
+        loreActivations,
+        // The fork's versions start from the summary it inherits.
+        memoryVersions: undefined,
+    };
+};
+
+/** Whether a message is a notice marking where a summarization happened: the only system messages without a note or roll. */
+const isMemoryNotice = (m: Message) => m.role === 'system' && !m.noteKind && !m.diceRoll;
+
+/**
+ * The whole conversation a session's memory can be built from: the messages already folded
+ * into the summary followed by the visible history, without summarization notices.
+ * @param session The session.
+ * @param messages All messages.
+ * @returns The messages in order.
+ */
+export const getMemoryTranscript = (session: Session | GroupSession, messages: Record<string, Message>): Message[] =>
+    [...(session.summarizedMessageIds || []), ...session.messageIds]
+        .map(id => messages[id])
+        .filter((m): m is Message => !!m && !isMemoryNotice(m));
+
+/**
+ * Names the speaker of each message, for requests that quote the conversation.
+ * @param characterId The character of a single chat. Group messages name their own.
+ */
+const createSpeakerName = (characterId?: string) => {
+    const { userPersona } = useSettingsStore.getState();
+    const { characters } = useCharacterStore.getState();
+    return (m: Message) => {
+        if (m.role === 'user') return userPersona?.name || 'User';
+        if (m.role === 'system') return 'Narrator';
+        return characters.find(c => c.id === (m.characterId ?? characterId))?.name || 'Character';
+    };
+};
+
+/**
+ * Ranks a session's past exchanges, including those folded into the summary, against the
+ * latest messages. The prompt builder recalls the best of them that no longer fit the history.
+ * @param messages The history the reply is generated from.
+ * @param characterId The character of a single chat.
+ * @returns The ranking, or `undefined` when recall has no share of the budget.
+ */
+const rankPastExchanges = async (
+    session: Session | GroupSession,
+    messages: Message[],
+    allMessages: Record<string, Message>,
+    settings: Settings,
+    characterId?: string,
+    signal?: AbortSignal,
+): Promise<RecallExchange[] | undefined> => {
+    if (settings.contextBudget.recallShare <= 0) return undefined;
+    const archived = (session.summarizedMessageIds || []).map(id => allMessages[id]).filter((m): m is Message => !!m);
+    const transcript = [...archived, ...messages].filter(m => !isMemoryNotice(m));
+    const exchanges = groupIntoExchanges(transcript, createSpeakerName(characterId));
+    return rankExchanges(exchanges, buildSceneQuery(messages), resolveEmbeddingProvider(settings), signal);
+};
+
+/**
+ * Runs the searches a prompt needs before it is built: past exchanges to recall and, with
+ * an embedding model, how closely each lore entry relates to the scene.
+ * @param characterId The character of a single chat.
+ */
+const gatherRetrieval = async (
+    session: Session | GroupSession,
+    params: CompletionParams | GroupCompletionParams,
+    allMessages: Record<string, Message>,
+    characterId?: string,
+    signal?: AbortSignal,
+): Promise<Pick<CompletionParams, 'recalledExchanges' | 'loreRelevance'>> => {
+    const embedder = resolveEmbeddingProvider(params.settings);
+    const [recalledExchanges, loreRelevance] = await Promise.all([
+        rankPastExchanges(session, params.messages, allMessages, params.settings, characterId, signal),
+        params.world && embedder ? scoreLoreRelevance(params.world, params.messages, embedder, signal) : undefined,
+    ]);
+    return { recalledExchanges, loreRelevance };
+};
+
+/**
+ * Resolves the provider and model that summaries for a session are written with.
+ * @throws An error if the provider needs an API key that isn't set, or no model is selected.
+ */
+const resolveSummarizer = (session: Session | GroupSession) => {
+    const { settings: rawSettings } = useSettingsStore.getState();
+    const settings = resolveSessionSettings(rawSettings as Settings, session.connectionProfileId);
+    const provider = settings.provider;
+    const model = settings.models?.[provider] || '';
+    const apiKey = resolveProviderApiKey(settings);
+    if ((getProviderAdapter(provider).requiresApiKey && !apiKey) || !model) throw new Error(ERROR_MESSAGES.API_KEY_MISSING(provider));
+    return { provider, apiKey, model, settings };
+};
+
+/**
+ * Gathers everything a single-character completion needs from the session and the other stores.
+ * @throws An error if the active character no longer exists.
+ */
+const buildSingleChatParams = (session: Session, messages: Message[], settings: Settings): CompletionParams => {
+    const { userPersona } = useSettingsStore.getState();
+    const { worlds, worldEntryInteractions } = useWorldStore.getState();
+    const { characters } = useCharacterStore.getState();
+    const { activeCharacterId } = useUIStore.getState();
+    const character = characters.find(c => c.id === activeCharacterId);
+    if (!character) throw new Error("Active character not found");
+
+    const { models, provider } = settings;
+    const world = worlds.find(w => w.id === session.worldId);
+    const worldId = world?.id || '';
+
+    return {
+        provider,
+        apiKey: resolveProviderApiKey(settings),
+        model: models?.[provider] || '',
+        messages,
+        characterPersona: character.persona,
+        scenario: character.scenario,
+        exampleDialogue: character.exampleDialogue,
+        userPersona,
+        globalSystemPrompt: settings.systemPrompt,
+        world: withCharacterLore(world, [character]),
+        temperature: session.temperature ?? settings.temperature,
+        samplers: mergeSamplers(settings.samplers, session.samplers),
+        contextSize: session.contextSize ?? settings.contextSize,
+        maxOutputTokens: session.maxOutputTokens ?? settings.maxOutputTokens,
+        memorySummary: session.memorySummary,
+        structuredMemory: session.structuredMemoryEnabled ? session.structuredMemory : undefined,
+        loreActivations: session.loreActivations,
+        characterName: character.name,
+        interactionData: worldId ? worldEntryInteractions[worldId] : undefined,
+        settings,
+        promptTemplate: resolvePromptTemplate('single', settings, { world, character }),
+    };
+};
+
+/**
+ * Gathers everything a group completion needs from the session and the other stores.
+ */
+const buildGroupChatParams = (session: GroupSession, messages: Message[], sessionCharacters: Character[]): GroupCompletionParams => {
+    const { settings: rawSettings, userPersona } = useSettingsStore.getState();
+    const settings = resolveSessionSettings(rawSettings as Settings, session.connectionProfileId);
+    const { worlds, worldEntryInteractions } = useWorldStore.getState();
+
+    const { models, provider } = settings;
+    const world = worlds.find(w => w.id === session.worldId);
+    const worldId = world?.id || '';
+
+    return {
+        provider,
+        apiKey: resolveProviderApiKey(settings),
+        model: models?.[provider] || '',
+        messages,
+        sessionCharacters: sessionCharacters.map(c => ({ name: c.name, persona: c.persona })),
+        scenario: session.scenario,
+        userPersona,
+        globalSystemPrompt: settings.systemPrompt,
+        world: withCharacterLore(world, sessionCharacters),
+        temperature: session.temperature ?? settings.temperature,
+        samplers: mergeSamplers(settings.samplers, session.samplers),
+        contextSize: session.contextSize ?? settings.contextSize,
+        maxOutputTokens: session.maxOutputTokens ?? settings.maxOutputTokens,
+        memorySummary: session.memorySummary,
+        structuredMemory: session.structuredMemoryEnabled ? session.structuredMemory : undefined,
+        loreActivations: session.loreActivations,
+        interactionData: worldId ? worldEntryInteractions[worldId] : undefined,
+        settings,
+        promptTemplate: resolvePromptTemplate('group', settings, { world }),
+    };
+};
+
+/**
+ * Gathers a completion that drafts the user's next message. The persona takes the
+ * character's place and the roles in the history are swapped, so the model's reply is
+ * written as the user. Group replies are prefixed with the speaker's name.
+ * @throws An error if the active character of a single chat no longer exists.
+ */
+const buildImpersonationParams = (
+    session: Session | GroupSession,
+    messages: Message[],
+    isGroup: boolean,
+    instruction?: string,
+): CompletionParams => {
+    const { settings: rawSettings, userPersona } = useSettingsStore.getState();
+    const settings = resolveSessionSettings(rawSettings as Settings, session.connectionProfileId);
+    const { characters } = useCharacterStore.getState();
+    const partners = isGroup
+        ? (session as GroupSession).characterIds.map(id => characters.find(c => c.id === id)).filter((c): c is Character => !!c)
+        : characters.filter(c => c.id === useUIStore.getState().activeCharacterId);
+    const base = isGroup
+        ? buildGroupChatParams(session as GroupSession, messages, partners)
+        : buildSingleChatParams(session as Session, messages, settings);
+
+    const partnerMap = new Map(partners.map(c => [c.id, c]));
+    const swappedMessages = messages.map((m): Message => {
+        if (m.role === 'user') return { ...m, role: 'assistant' };
+        if (m.role !== 'assistant') return m;
+        const speaker = isGroup ? partnerMap.get(m.characterId || '')?.name ?? 'Narrator' : null;
+        return { ...m, role: 'user', content: speaker ? `${speaker}: ${m.content}` : m.content };
+    });
+
+    const partnerNames = partners.map(c => c.name).join(', ');
+    const directive = [
+        `You are now writing as ${userPersona.name}, replying to ${partnerNames || 'the other characters'}.`,
+        `Write only ${userPersona.name}'s next message: their words, actions and thoughts. Never speak or act for anyone else.`,
+        isGroup && (session as GroupSession).scenario ? `Scenario: ${(session as GroupSession).scenario}` : '',
+        instruction ? `Direction for this message: ${instruction}` : '',
+    ].filter(Boolean).join('\n');
+
+    return {
+        ...base,
+        messages: swappedMessages,
+        characterName: userPersona.name,
+        characterPersona: userPersona.description,
+        userPersona: {
+            ...userPersona,
+            name: partnerNames,
+            description: partners.map(c => `${c.name}: ${c.persona}`).join('\n'),
+        },
+        activeCharacterNames: partners.map(c => c.name),
+        globalSystemPrompt: `${settings.systemPrompt}\n\n${directive}`,
+        promptTemplate: resolvePromptTemplate('single', settings, { world: base.world }),
+        prefill: undefined,
+        // The character's example dialogue would prime the draft in their voice rather than the persona's.
+        exampleDialogue: undefined,
+    };
+};
+
 interface SingleChatGenOptions {
   regenerationInfo?: { originalMessageId: string };
   appendToMessageId?: string;
 }
 
+interface SummarizationResult {
+  messages: Message[];
+  summary: string | undefined;
+  /** The messages folded into the summary; empty when nothing was summarized. */
+  summarizedIds: string[];
+}
+
 // --- Store Definition ---
 export const useChatStore = create<ChatStore>()(
   persist(
     (set, get) => {
+      /**
+       * Summarizes the older half of the conversation once it nears the context limit.
+       * `force` skips the memory toggle and the threshold, for summaries the user asks for.
+       */
       const handleSummarization = async (
         session: Session | GroupSession,
         currentMessages: Message[],
-      ): Promise<{ messages: Message[]; summary: string | undefined }> => {
-        const { settings: rawSettings } = useSettingsStore.getState();
-        const settings = rawSettings as Settings;
-        const contextSize = session.contextSize ?? settings.contextSize;
-        if (!session.memoryEnabled || !contextSize || contextSize <= 0) return { messages: currentMessages, summary: session.memorySummary };
-        
-        const totalTokens = estimateTokens(JSON.stringify(currentMessages));
-        if (totalTokens < contextSize * MEMORY_TRIGGER_THRESHOLD) return { messages: currentMessages, summary: session.memorySummary };
-        
-        logger.log('Memory threshold reached, summarizing...', { totalTokens, contextSize });
+        force: boolean = false,
+      ): Promise<SummarizationResult> => {
+        const unchanged: SummarizationResult = { messages: currentMessages, summary: session.memorySummary, summarizedIds: [] };
+        if (!force) {
+          const { settings: rawSettings } = useSettingsStore.getState();
+          const settings = resolveSessionSettings(rawSettings as Settings, session.connectionProfileId);
+          const contextSize = session.contextSize ?? settings.contextSize;
+          if (!session.memoryEnabled || !contextSize || contextSize <= 0) return unchanged;
+
+          const tokenizer = getTokenizer(settings.models?.[settings.provider] || '');
+          const totalTokens = currentMessages.reduce((sum, m) => sum + tokenizer.count(m.content), 0);
+          if (totalTokens < contextSize * MEMORY_TRIGGER_THRESHOLD) return unchanged;
+
+          logger.log('Memory threshold reached, summarizing...', { totalTokens, contextSize });
+        } else {
+          logger.log('Summarizing on request...', { messageCount: currentMessages.length });
+        }
         const sliceIndex = Math.floor(currentMessages.length * MEMORY_SLICE_PERCENT);
         const messagesToSummarize = currentMessages.slice(0, sliceIndex);
         const remainingMessages = currentMessages.slice(sliceIndex);
         
         try {
-          const { apiKeys, models } = settings;
-          const provider = settings.provider;
-          const model = models?.[provider] || '';
-          const apiKey = provider === LLMProvider.GEMINI ? process.env.API_KEY || '' : apiKeys[provider];
-          
-          if (!apiKey || !model) throw new Error(ERROR_MESSAGES.API_KEY_MISSING(provider));
-          
-          const newSummary = await summarizeMessages({ provider, apiKey, model, messages: messagesToSummarize, previousSummary: session.memorySummary });
+          const { provider, apiKey, model, settings } = resolveSummarizer(session);
+          const newSummary = await summarizeMessages({ provider, apiKey, model, settings, messages: messagesToSummarize, previousSummary: session.memorySummary });
           const sysMsg: Message = { id: crypto.randomUUID(), role: 'system', content: '[System: Distant memories were summarized to preserve context.]', timestamp: Date.now() };
           set((state: ChatStore) => ({ messages: { ...state.messages, [sysMsg.id]: sysMsg } }));
           
-          return { messages: [sysMsg, ...remainingMessages], summary: newSummary };
+          return { messages: [sysMsg, ...remainingMessages], summary: newSummary, summarizedIds: messagesToSummarize.map(m => m.id) };
         } catch (err) {
           logger.error('Auto-summarization failed.', { error: err });
           useUIStore.getState().setError('Auto-summarization failed. Check API key and model settings.');
-          return { messages: currentMessages, summary: session.memorySummary };
+          return unchanged;
         }
       };
 
+      const patchSession = (
+        sessionId: string,
+        isGroup: boolean,
+        patch: (session: Session | GroupSession) => Partial<Session>,
+      ) => {
+        set((state: ChatStore) => {
+            if (isGroup) {
+                const session = state.groupSessions[sessionId];
+                if (!session) return state;
+                return { groupSessions: { ...state.groupSessions, [sessionId]: { ...session, ...patch(session) } } };
+            } else {
+                const session = state.sessions[sessionId];
+                if (!session) return state;
+                return { sessions: { ...state.sessions, [sessionId]: { ...session, ...patch(session) } } };
+            }
+        });
+      };
+
+      /**
+       * Remembers the turn each lore entry in a prompt triggered on, so sticky entries stay in
+       * and entries with a cooldown are held back. Entries kept in by being sticky don't count.
+       */
+      const recordLoreActivations = (sessionId: string, isGroup: boolean, snapshot: PromptSnapshot, messages: Message[]) => {
+        const triggered = snapshot.loreEntries.filter((e) => e.entryId && !e.sticky);
+        if (triggered.length === 0) return;
+        const turn = getLoreTurn(messages);
+        patchSession(sessionId, isGroup, (session) => ({
+          loreActivations: {
+            ...session.loreActivations,
+            ...Object.fromEntries(triggered.map((e) => [e.entryId!, turn])),
+          },
+        }));
+      };
+
+      // Sessions with a structured memory update in flight, so a slow one isn't started twice.
+      const structuredMemoryUpdates = new Set<string>();
+
+      /**
+       * Updates a session's structured memory from the messages since its last update, once
+       * the configured number of user turns has passed. `force` skips the toggle and the interval.
+       * @returns `true` if the record was updated.
+       */
+      const refreshStructuredMemory = async (sessionId: string, isGroup: boolean, force: boolean = false): Promise<boolean> => {
+        const session = isGroup ? get().groupSessions[sessionId] : get().sessions[sessionId];
+        if (!session || structuredMemoryUpdates.has(sessionId)) return false;
+        if (!force && !session.structuredMemoryEnabled) return false;
+
+        const allMessages = get().messages;
+        const history = session.messageIds.map(id => allMessages[id]).filter((m): m is Message => !!m && !!m.content.trim());
+        const { settings } = useSettingsStore.getState();
+        if (!force && !isStructuredMemoryDue(history, session.structuredMemory, settings.structuredMemoryInterval)) return false;
+        const newMessages = getMessagesSinceUpdate(history, session.structuredMemory);
+        if (newMessages.length === 0) return false;
+
+        const characterId = isGroup
+            ? undefined
+            : Object.entries(get().characterSessions).find(([, ids]) => ids.includes(sessionId))?.[0];
+        const speakerName = createSpeakerName(characterId);
+
+        structuredMemoryUpdates.add(sessionId);
+        try {
+            const { provider, apiKey, model, settings } = resolveSummarizer(session);
+            const fields = await extractStructuredMemory({
+                provider,
+                apiKey,
+                model,
+                settings,
+                messages: newMessages,
+                speakerName,
+                previous: session.structuredMemory,
+                summary: session.memorySummary,
+            });
+            patchSession(sessionId, isGroup, () => ({
+                structuredMemory: { ...fields, updatedAt: Date.now(), lastMessageId: newMessages[newMessages.length - 1].id },
+            }));
+            return true;
+        } catch (err) {
+            logger.error('Structured memory update failed.', { error: err });
+            useUIStore.getState().setError('Structured memory update failed. Check API key and model settings.');
+            return false;
+        } finally {
+            structuredMemoryUpdates.delete(sessionId);
+        }
+      };
+
+      /** Stores a summarization: the new summary as a version, the shortened history, and the summarized messages in the archive. */
+      const commitSummarization = (
+        sessionId: string,
+        isGroup: boolean,
+        { messages: remainingMessages, summary, summarizedIds }: SummarizationResult,
+        source: MemoryVersionSource,
+      ) => {
+        patchSession(sessionId, isGroup, (session) => ({
+            ...withMemoryVersion(session, summary ?? '', source),
+            messageIds: remainingMessages.map(m => m.id),
+            summarizedMessageIds: [...(session.summarizedMessageIds || []), ...summarizedIds],
+        }));
+      };
+
+      const appendSystemMessage = (
+        sessionId: string,
+        fields: Pick<Message, 'content'> & Partial<Message>,
+        isGroup: boolean,
+      ) => {
+        const message: Message = { id: crypto.randomUUID(), role: 'system', timestamp: Date.now(), ...fields };
+        set((state: ChatStore) => {
+            if (isGroup) {
+                const session = state.groupSessions[sessionId];
+                if (!session) return state;
+                return {
+                    messages: { ...state.messages, [message.id]: message },
+                    groupSessions: { ...state.groupSessions, [sessionId]: { ...session, messageIds: [...session.messageIds, message.id] } },
+                };
+            } else {
+                const session = state.sessions[sessionId];
+                if (!session) return state;
+                return {
+                    messages: { ...state.messages, [message.id]: message },
+                    sessions: { ...state.sessions, [sessionId]: { ...session, messageIds: [...session.messageIds, message.id] } },
+                };
+            }
+        });
+      };
+
       const executeSingleChatGeneration = async (
         sessionId: string,
         messagesToProcess: Message[],
@@ -140,8 +590,8 @@ export const useChatStore = create<ChatStore>()(
             return;
         }
         
-        const { settings: rawSettings, userPersona } = useSettingsStore.getState();
-        const settings = rawSettings as Settings;
+        const { settings: rawSettings } = useSettingsStore.getState();
+        const settings = resolveSessionSettings(rawSettings as Settings, session.connectionProfileId);
         const useThinking = settings.thinkingEnabled && !appendToMessageId;
         
         let assistantMessageId: string;
@@ -171,34 +621,20 @@ export const useChatStore = create<ChatStore>()(
         }
 
         try {
-            const { worlds, worldEntryInteractions } = useWorldStore.getState();
-            const { characters } = useCharacterStore.getState();
-            const { activeCharacterId } = useUIStore.getState();
-            const character = characters.find(c => c.id === activeCharacterId);
-            if (!character) throw new Error("Active character not found");
-
-            const { apiKeys, models, provider } = settings;
-            const apiKey = provider === LLMProvider.GEMINI ? process.env.API_KEY || '' : apiKeys[provider];
-            const model = models?.[provider] || '';
-            const world = worlds.find(w => w.id === session.worldId);
-            const worldId = world?.id || '';
-
+            const baseParams = buildSingleChatParams(session, messagesToProcess, settings);
             const completionParams = {
-                provider, apiKey, model,
-                messages: messagesToProcess,
-                characterPersona: character.persona,
-                userPersona,
-                globalSystemPrompt: settings.systemPrompt,
-                world: world || null,
-                temperature: session.temperature ?? settings.temperature,
+                ...baseParams,
+                ...(await gatherRetrieval(session, baseParams, get().messages, useUIStore.getState().activeCharacterId ?? undefined, controller.signal)),
                 prefill: appendToMessageId ? initialContent : settings.responsePrefill,
                 signal: controller.signal,
-                contextSize: session.contextSize ?? settings.contextSize,
-                maxOutputTokens: session.maxOutputTokens ?? settings.maxOutputTokens,
-                memorySummary: session.memorySummary,
-                characterName: character.name,
-                interactionData: worldId ? worldEntryInteractions[worldId] : undefined,
-                settings,
+                onPromptSnapshot: (promptSnapshot: PromptSnapshot) => {
+                    set((state: ChatStore) => {
+                        const msg = state.messages[assistantMessageId];
+                        if (!msg) return state;
+                        return { messages: { ...state.messages, [assistantMessageId]: { ...msg, promptSnapshot } } };
+                    });
+                    recordLoreActivations(sessionId, false, promptSnapshot, messagesToProcess);
+                },
             };
 
             const stream = useThinking ? generateResponseWithThinking(completionParams) : getChatCompletionStream(completionParams);
@@ -241,7 +677,7 @@ export const useChatStore = create<ChatStore>()(
       
                   const allAlternateIds = originalMessage.alternates ? [...originalMessage.alternates.ids, assistantMessageId] : [originalMessage.id, assistantMessageId];
                   const newActiveIndex = allAlternateIds.length - 1;
-                  const newAlternates = { ids: allAlternateIds, activeIndex: newActiveIndex };
+                  const newAlternates = { ids: allAlternateIds, activeIndex: newActiveIndex, keptId: originalMessage.alternates?.keptId };
       
                   const updatedMessages = { ...state.messages };
                   allAlternateIds.forEach(id => {
@@ -306,34 +742,18 @@ export const useChatStore = create<ChatStore>()(
           const session = get().groupSessions[sessionId];
           if (!session) throw new Error('Group session not found.');
       
-          const { settings: rawSettings, userPersona } = useSettingsStore.getState();
-          const settings = rawSettings as Settings;
-          const { worlds, worldEntryInteractions } = useWorldStore.getState();
           const { characters } = useCharacterStore.getState();
-          
           const sessionCharacters = session.characterIds.map(id => characters.find(c => c.id === id)).filter(Boolean) as Character[];
       
-          const { apiKeys, models, provider } = settings;
-          const apiKey = provider === LLMProvider.GEMINI ? process.env.API_KEY || '' : apiKeys[provider];
-          const model = models?.[provider] || '';
-          const world = worlds.find(w => w.id === session.worldId);
-          const worldId = world?.id || '';
-      
+          let promptSnapshot: PromptSnapshot | undefined;
+          const params = buildGroupChatParams(session, messagesToProcess, sessionCharacters);
           const turnActions: GroupTurnAction[] = await getGroupChatCompletion({
-            provider, apiKey, model,
-            messages: messagesToProcess,
-            sessionCharacters: sessionCharacters.map(c => ({ name: c.name, persona: c.persona })),
-            scenario: session.scenario,
-            userPersona,
-            globalSystemPrompt: settings.systemPrompt,
-            world: world || null,
-            temperature: session.temperature ?? settings.temperature,
-            contextSize: session.contextSize ?? settings.contextSize,
-            maxOutputTokens: session.maxOutputTokens ?? settings.maxOutputTokens,
-            memorySummary: session.memorySummary,
-            activeCharacterNames: sessionCharacters.map(c => c.name),
-            interactionData: worldId ? worldEntryInteractions[worldId] : undefined,
-            settings,
+            ...params,
+            ...(await gatherRetrieval(session, params, get().messages, undefined, controller.signal)),
+            onPromptSnapshot: (snapshot) => {
+              promptSnapshot = snapshot;
+              recordLoreActivations(sessionId, true, snapshot, messagesToProcess);
+            },
           });
       
           const newMessages: Message[] = turnActions.map(action => {
@@ -344,6 +764,7 @@ export const useChatStore = create<ChatStore>()(
               content: action.content,
               characterId: character ? character.id : 'narrator',
               timestamp: Date.now(),
+              promptSnapshot,
             };
           });
       
@@ -385,20 +806,30 @@ export const useChatStore = create<ChatStore>()(
         // --- Single Chat Actions ---
         newSession: (characterId: string) => {
             const { characters } = useCharacterStore.getState();
-            const { settings } = useSettingsStore.getState();
+            const settings = resolveSessionSettings(useSettingsStore.getState().settings);
             const character = characters.find(c => c.id === characterId);
             if (!character) return '';
 
-            const greetingMessage: Message | null = character.greeting ? { id: crypto.randomUUID(), role: 'assistant', content: character.greeting, timestamp: Date.now() } : null;
+            const macroContext = { char: character.name, user: useSettingsStore.getState().userPersona?.name || '' };
+            // Alternate greetings are swipes on the opening message, like regenerated replies.
+            const greetingMessages: Message[] = [character.greeting, ...(character.alternateGreetings || [])]
+                .map(text => expandMacros(text, macroContext))
+                .filter(text => text.trim())
+                .map(content => ({ id: crypto.randomUUID(), role: 'assistant', content, timestamp: Date.now() }));
+            if (greetingMessages.length > 1) {
+                const alternates = { ids: greetingMessages.map(m => m.id), activeIndex: 0 };
+                greetingMessages.forEach(m => { m.alternates = alternates; });
+            }
+            const greetingMessage: Message | null = greetingMessages[0] ?? null;
+            // A character's default world wins over the global one.
+            const characterWorldId = useWorldStore.getState().worlds.some(w => w.id === character.worldId) ? character.worldId : undefined;
             
             const newSessionData: Session = {
                 id: crypto.randomUUID(),
                 title: `New Chat - ${new Date().toLocaleDateString()}`,
                 messageIds: greetingMessage ? [greetingMessage.id] : [],
-                worldId: settings.worldId,
-                temperature: settings.temperature,
+                worldId: characterWorldId ?? settings.worldId,
                 contextSize: settings.contextSize,
-                maxOutputTokens: settings.maxOutputTokens,
                 memoryEnabled: false,
             };
 
@@ -407,7 +838,7 @@ export const useChatStore = create<ChatStore>()(
                     ...state.sessions,
                     [newSessionData.id]: newSessionData,
                 },
-                messages: greetingMessage ? { ...state.messages, [greetingMessage.id]: greetingMessage } : state.messages,
+                messages: { ...state.messages, ...Object.fromEntries(greetingMessages.map(m => [m.id, m])) },
                 characterSessions: {
                     ...state.characterSessions,
                     [characterId]: [...(state.characterSessions[characterId] || []), newSessionData.id],
@@ -418,16 +849,34 @@ export const useChatStore = create<ChatStore>()(
         },
 
         sendMessage: async (content: string) => {
-          const { activeSessionId } = useUIStore.getState();
+          const { activeSessionId, activeCharacterId } = useUIStore.getState();
           if (!activeSessionId) return;
         
-          const userMessage: Message = { id: crypto.randomUUID(), role: 'user', content, timestamp: Date.now() };
-          
           let session: Session | undefined, currentMessages: Message[] | undefined;
           set((state: ChatStore) => {
             session = state.sessions[activeSessionId!] as Session | undefined;
             if (!session) return state;
+            // Macros are expanded once on send, so rolls and random picks stay fixed across regenerations.
+            const character = useCharacterStore.getState().characters.find(c => c.id === activeCharacterId);
+            const userMessage: Message = {
+              id: crypto.randomUUID(),
+              role: 'user',
+              content: expandMacros(content, {
+                char: character?.name || '',
+                user: useSettingsStore.getState().userPersona?.name || '',
+                lastMessage: state.messages[session.messageIds[session.messageIds.length - 1]]?.content,
+              }),
+              timestamp: Date.now(),
+            };
             const updatedMessages = { ...state.messages, [userMessage.id]: userMessage };
+            // Replying settles the swipe on the reply being answered; remember which alternate that was.
+            const repliedTo = updatedMessages[session.messageIds[session.messageIds.length - 1]];
+            if (repliedTo?.alternates) {
+              const alternates = { ...repliedTo.alternates, keptId: repliedTo.id };
+              alternates.ids.forEach(id => {
+                if (updatedMessages[id]) updatedMessages[id] = { ...updatedMessages[id], alternates };
+              });
+            }
             currentMessages = [...session.messageIds, userMessage.id].map(id => updatedMessages[id]);
 
             return {
@@ -445,18 +894,12 @@ export const useChatStore = create<ChatStore>()(
             return;
           }
         
-          const { messages: processedMessages, summary: newSummary } = await handleSummarization(currentSession, currentMessages!);
-          if (newSummary !== currentSession.memorySummary || processedMessages.length !== currentMessages!.length) {
-            set((state: ChatStore) => {
-              const session = state.sessions[activeSessionId!];
-              if (!session) return state;
-              return {
-                sessions: { ...state.sessions, [activeSessionId!]: { ...session, memorySummary: newSummary, messageIds: processedMessages.map(m => m.id) } }
-              }
-            });
-          }
+          const summarization = await handleSummarization(currentSession, currentMessages!);
+          if (summarization.summarizedIds.length > 0) commitSummarization(activeSessionId, false, summarization, 'auto');
         
-          await executeSingleChatGeneration(activeSessionId, processedMessages);
+          await executeSingleChatGeneration(activeSessionId, summarization.messages);
+          // Runs in the background; the reply is already on screen.
+          void refreshStructuredMemory(activeSessionId, false);
         },
 
         editMessage: (sessionId: string, messageId: string, newContent: string) => {
@@ -548,6 +991,132 @@ export const useChatStore = create<ChatStore>()(
           await executeSingleChatGeneration(sessionId, messagesToProcess, { regenerationInfo });
         },
 
+        generateAlternatives: async (sessionId: string, count: number) => {
+          const { setIsLoading, setError, setAbortController, isLoading } = useUIStore.getState();
+          if (isLoading) {
+            logger.log('Generation already in progress, skipping');
+            return;
+          }
+          const session = get().sessions[sessionId];
+          if (!session) return;
+          const allMessages = session.messageIds.map(id => get().messages[id]);
+          const lastUserIndex = allMessages.map(m => m.role).lastIndexOf('user');
+          if (lastUserIndex === -1 || count < 1) return;
+
+          const messagesToProcess = allMessages.slice(0, lastUserIndex + 1);
+          const originalMessage = allMessages[lastUserIndex + 1]?.role === 'assistant' ? allMessages[lastUserIndex + 1] : undefined;
+          const previousIds = originalMessage ? originalMessage.alternates?.ids ?? [originalMessage.id] : [];
+          const newMessages: Message[] = Array.from({ length: count }, () => ({ id: crypto.randomUUID(), role: 'assistant', content: '', timestamp: Date.now() }));
+
+          const applyAlternates = (state: ChatStore, ids: string[], activeId: string, keptId?: string) => {
+              const updatedMessages = { ...state.messages };
+              const alternates = { ids, activeIndex: ids.indexOf(activeId), keptId };
+              ids.forEach(id => {
+                  if (updatedMessages[id]) updatedMessages[id] = { ...updatedMessages[id], alternates };
+              });
+              return updatedMessages;
+          };
+
+          // The first new alternate is shown while all of them stream; the rest can be swiped to as they fill in.
+          set((state: ChatStore) => {
+              const current = state.sessions[sessionId];
+              if (!current) return state;
+              const withNew = { ...state.messages };
+              newMessages.forEach(m => { withNew[m.id] = m; });
+              return {
+                  messages: applyAlternates({ ...state, messages: withNew }, [...previousIds, ...newMessages.map(m => m.id)], newMessages[0].id, originalMessage?.alternates?.keptId),
+                  sessions: { ...state.sessions, [sessionId]: { ...current, messageIds: [...messagesToProcess.map(m => m.id), newMessages[0].id] } },
+              };
+          });
+
+          setIsLoading(true);
+          setError(null);
+          // Stopping aborts every stream; each has its own controller so one failing doesn't end the others.
+          const controller = new AbortController();
+          setAbortController(controller);
+          const { settings: rawSettings } = useSettingsStore.getState();
+          const settings = resolveSessionSettings(rawSettings as Settings, session.connectionProfileId);
+          // Prepared once for all alternates and awaited inside each stream, so a failure is reported
+          // like any other. The empty handler only keeps it from counting as unhandled until then.
+          // Lore is rolled here too, so every alternate answers with the same entries.
+          const prepared = (async () => {
+              const baseParams = buildSingleChatParams(session, messagesToProcess, settings);
+              const characterId = useUIStore.getState().activeCharacterId ?? undefined;
+              const params = { ...baseParams, ...(await gatherRetrieval(session, baseParams, get().messages, characterId, controller.signal)) };
+              return { ...params, lore: retrieveChatLore(params) };
+          })();
+          prepared.catch(() => {});
+
+          const streamAlternate = async (messageId: string) => {
+              const streamController = new AbortController();
+              const abortStream = () => streamController.abort();
+              controller.signal.addEventListener('abort', abortStream);
+              const update = (changes: Partial<Message>) => set((state: ChatStore) => {
+                  const msg = state.messages[messageId];
+                  if (!msg) return state;
+                  return { messages: { ...state.messages, [messageId]: { ...msg, ...changes } } };
+              });
+              try {
+                  const stream = getChatCompletionStream({
+                      ...(await prepared),
+                      prefill: settings.responsePrefill,
+                      signal: streamController.signal,
+                      onPromptSnapshot: (promptSnapshot) => {
+                          update({ promptSnapshot });
+                          // The lore is shared, so it is recorded once, for the alternate shown first.
+                          if (messageId === newMessages[0].id) recordLoreActivations(sessionId, false, promptSnapshot, messagesToProcess);
+                      },
+                  });
+                  let text = '';
+                  let lastRenderTime = 0;
+                  for await (const chunk of stream) {
+                      text += chunk;
+                      if (Date.now() - lastRenderTime > RENDER_INTERVAL) {
+                          update({ content: text });
+                          lastRenderTime = Date.now();
+                      }
+                  }
+                  update({ content: text, timestamp: Date.now() });
+              } finally {
+                  controller.signal.removeEventListener('abort', abortStream);
+              }
+          };
+
+          const results = await Promise.allSettled(newMessages.map(m => streamAlternate(m.id)));
+          const failedIds = newMessages
+              .filter((_, i) => {
+                  const result = results[i];
+                  return result.status === 'rejected' && !(result.reason instanceof Error && result.reason.name === 'AbortError');
+              })
+              .map(m => m.id);
+
+          if (failedIds.length > 0) {
+              const firstError = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')?.reason;
+              logger.error('Some alternatives failed to generate.', { failed: failedIds.length, total: count, error: firstError });
+              setError(`Error: ${extractErrorMessage(firstError)}`);
+
+              // Failed alternates are dropped; the swipe falls back to another alternate, if any is left.
+              set((state: ChatStore) => {
+                  const current = state.sessions[sessionId];
+                  if (!current) return state;
+                  const failed = new Set(failedIds);
+                  const remainingIds = [...previousIds, ...newMessages.map(m => m.id)].filter(id => !failed.has(id));
+                  const shownId = current.messageIds[current.messageIds.length - 1];
+                  const activeId = failed.has(shownId) ? remainingIds[remainingIds.length - 1] : shownId;
+                  const withoutFailed = { ...state.messages };
+                  failedIds.forEach(id => delete withoutFailed[id]);
+                  const baseIds = current.messageIds.filter(id => !failed.has(id) && id !== shownId);
+                  return {
+                      messages: activeId ? applyAlternates({ ...state, messages: withoutFailed }, remainingIds, activeId, originalMessage?.alternates?.keptId) : withoutFailed,
+                      sessions: { ...state.sessions, [sessionId]: { ...current, messageIds: activeId ? [...baseIds, activeId] : baseIds } },
+                  };
+              });
+          }
+
+          setIsLoading(false);
+          setAbortController(null);
+        },
+
         continueGeneration: async (sessionId: string) => {
           const session = get().sessions[sessionId];
           if (!session) return;
@@ -581,7 +1150,7 @@ export const useChatStore = create<ChatStore>()(
                 const newActiveId = ids[newIndex];
                 
                 const updatedMessages = { ...state.messages };
-                const newAlternates = { ids, activeIndex: newIndex };
+                const newAlternates = { ...message.alternates, activeIndex: newIndex };
                 ids.forEach(id => {
                     if (updatedMessages[id]) {
                         updatedMessages[id] = { ...updatedMessages[id], alternates: newAlternates };
@@ -627,9 +1196,11 @@ export const useChatStore = create<ChatStore>()(
             const newHistoryIds = session.messageIds.slice(0, messageIndex + 1);
             const newSessionData: Session = {
                 ...session,
+                ...forkedMemoryState(session, newHistoryIds.map(id => get().messages[id]).filter(Boolean)),
                 id: crypto.randomUUID(),
                 title: `Fork of ${session.title}`,
                 messageIds: newHistoryIds,
+                forkedFrom: { sessionId, messageId },
             };
             
             set((state: ChatStore) => {
@@ -651,7 +1222,7 @@ export const useChatStore = create<ChatStore>()(
             set((state: ChatStore) => {
                 const session = state.sessions[sessionId];
                 if (!session) return state;
-                const messagesToDelete = new Set(session.messageIds);
+                const messagesToDelete = new Set(ownedMessageIds(session));
                 
                 // FIX: Use a robust immutable delete pattern.
                 const newSessions = { ...state.sessions };
@@ -659,7 +1230,7 @@ export const useChatStore = create<ChatStore>()(
                 delete newSessions[sessionId];
                 
                 const newMessages = { ...state.messages };
-                messagesToDelete.forEach(id => delete newMessages[id]);
+                withoutSharedMessages(messagesToDelete, newSessions, state.groupSessions).forEach(id => delete newMessages[id]);
 
                 let newCharacterSessions: Record<string, string[]>;
                 // FIX: Added explicit type annotation to fix an inference issue where characterId was treated as 'unknown'.
@@ -691,6 +1262,128 @@ export const useChatStore = create<ChatStore>()(
             });
         },
 
+        // --- Dice Commands & Notes ---
+        // The result is rolled here, not by the model, and recorded with its seed. It is sent
+        // to the model with the next turn, so the story has to follow the real outcome.
+        addDiceRoll: (sessionId, command, isGroup = false) => {
+            const roll = executeDiceCommand(command, useSettingsStore.getState().userPersona?.name || 'User');
+            logger.log('Dice command executed', roll);
+            appendSystemMessage(sessionId, { content: formatDiceRoll(roll), diceRoll: roll }, isGroup);
+        },
+
+        addSystemNote: (sessionId, content, kind, isGroup = false) => {
+            appendSystemMessage(sessionId, { content, noteKind: kind }, isGroup);
+        },
+
+        summarizeSession: async (sessionId, isGroup = false) => {
+            const session = isGroup ? get().groupSessions[sessionId] : get().sessions[sessionId];
+            if (!session) return false;
+            const currentMessages = session.messageIds.map(id => get().messages[id]).filter(Boolean);
+            if (currentMessages.length < 2) return false;
+
+            const summarization = await handleSummarization(session, currentMessages, true);
+            if (summarization.summarizedIds.length === 0) return false;
+
+            commitSummarization(sessionId, isGroup, summarization, 'manual');
+            return true;
+        },
+
+        setMemorySummary: (sessionId, summary, isGroup = false) => {
+            patchSession(sessionId, isGroup, (session) => withMemoryVersion(session, summary, 'edit'));
+        },
+
+        restoreMemoryVersion: (sessionId, versionId, isGroup = false) => {
+            patchSession(sessionId, isGroup, (session) => {
+                const versions = session.memoryVersions || [];
+                const index = versions.findIndex(v => v.id === versionId);
+                if (index === -1) return {};
+                return withMemoryVersion(session, versions[index].summary, 'restore', `Version ${index + 1}`);
+            });
+        },
+
+        setStructuredMemory: (sessionId, fields, isGroup = false) => {
+            patchSession(sessionId, isGroup, (session) => ({
+                structuredMemory: { ...(session.structuredMemory ?? createEmptyStructuredMemory()), ...fields },
+            }));
+        },
+
+        updateStructuredMemory: (sessionId, isGroup = false) => refreshStructuredMemory(sessionId, isGroup, true),
+
+        // Builds a summary from part of the transcript without touching the visible history,
+        // so an older stretch of the story can be summarized again after the fact.
+        summarizeMemoryRange: async (sessionId, start, end, merge, isGroup = false) => {
+            const session = isGroup ? get().groupSessions[sessionId] : get().sessions[sessionId];
+            if (!session) return false;
+            const range = getMemoryTranscript(session, get().messages).slice(start, end + 1);
+            if (range.length === 0) return false;
+
+            try {
+                const { provider, apiKey, model, settings } = resolveSummarizer(session);
+                logger.log('Summarizing message range...', { start, end, merge });
+                const summary = await summarizeMessages({
+                    provider,
+                    apiKey,
+                    model,
+                    settings,
+                    messages: range,
+                    previousSummary: merge ? session.memorySummary : undefined,
+                });
+                patchSession(sessionId, isGroup, (current) =>
+                    withMemoryVersion(current, summary, 'range', `Messages ${start + 1}–${start + range.length}${merge ? ', merged' : ''}`),
+                );
+                return true;
+            } catch (err) {
+                logger.error('Range summarization failed.', { error: err });
+                useUIStore.getState().setError(extractErrorMessage(err));
+                return false;
+            }
+        },
+
+        // --- Impersonation ---
+        // The draft is handed back through `onDraft` instead of being stored, so the user
+        // can edit it in the chat input before sending.
+        impersonate: async (sessionId, isGroup, onDraft, instruction) => {
+            const { setIsLoading, setError, setAbortController, isLoading } = useUIStore.getState();
+            if (isLoading) {
+                logger.log('Generation already in progress, skipping impersonation');
+                return;
+            }
+            const session = isGroup ? get().groupSessions[sessionId] : get().sessions[sessionId];
+            if (!session) return;
+
+            setIsLoading(true);
+            setError(null);
+            const controller = new AbortController();
+            setAbortController(controller);
+
+            let draft = '';
+            try {
+                const messages = session.messageIds.map(id => get().messages[id]).filter(Boolean);
+                const stream = getChatCompletionStream({
+                    ...buildImpersonationParams(session, messages, isGroup, instruction),
+                    signal: controller.signal,
+                });
+                let lastRenderTime = 0;
+                for await (const chunk of stream) {
+                    draft += chunk;
+                    if (Date.now() - lastRenderTime > RENDER_INTERVAL) {
+                        onDraft(draft.trimStart());
+                        lastRenderTime = Date.now();
+                    }
+                }
+            } catch (error) {
+                if (error instanceof Error && error.name === 'AbortError') {
+                    logger.log('Impersonation aborted by user. Keeping partial draft.');
+                } else {
+                    setError(`Error: ${extractErrorMessage(error)}`);
+                }
+            } finally {
+                onDraft(draft.trim());
+                setIsLoading(false);
+                setAbortController(null);
+            }
+        },
+
         // --- Group Chat Actions ---
         createGroupChat: (characterIds: string[], scenario: string) => {
             const { characters } = useCharacterStore.getState();
@@ -718,12 +1411,21 @@ export const useChatStore = create<ChatStore>()(
           const { activeGroupSessionId } = useUIStore.getState();
           if (!activeGroupSessionId) return;
         
-          const userMessage: Message = { id: crypto.randomUUID(), role: 'user', content, timestamp: Date.now() };
-          
           let session: GroupSession | undefined, currentMessages: Message[] | undefined;
           set((state: ChatStore) => {
             session = state.groupSessions[activeGroupSessionId!] as GroupSession | undefined;
             if (!session) return state;
+            const { characters } = useCharacterStore.getState();
+            const userMessage: Message = {
+              id: crypto.randomUUID(),
+              role: 'user',
+              content: expandMacros(content, {
+                char: session.characterIds.map(id => characters.find(c => c.id === id)?.name).filter(Boolean).join(', '),
+                user: useSettingsStore.getState().userPersona?.name || '',
+                lastMessage: state.messages[session.messageIds[session.messageIds.length - 1]]?.content,
+              }),
+              timestamp: Date.now(),
+            };
             const updatedMessages = { ...state.messages, [userMessage.id]: userMessage };
             currentMessages = [...session.messageIds, userMessage.id].map(id => updatedMessages[id]);
             const newGroupSessions = { ...state.groupSessions };
@@ -741,18 +1443,11 @@ export const useChatStore = create<ChatStore>()(
             return;
           }
         
-          const { messages: processedMessages, summary: newSummary } = await handleSummarization(currentSession, currentMessages!);
-          if (newSummary !== currentSession.memorySummary || processedMessages.length !== currentMessages!.length) {
-            set((state: ChatStore) => {
-              const session = state.groupSessions[activeGroupSessionId!];
-              if (!session) return state;
-              return {
-                groupSessions: { ...state.groupSessions, [activeGroupSessionId!]: { ...session, memorySummary: newSummary, messageIds: processedMessages.map(m => m.id) } }
-              }
-            });
-          }
+          const summarization = await handleSummarization(currentSession, currentMessages!);
+          if (summarization.summarizedIds.length > 0) commitSummarization(activeGroupSessionId, true, summarization, 'auto');
         
-          await executeGroupChatGeneration(activeGroupSessionId, processedMessages);
+          await executeGroupChatGeneration(activeGroupSessionId, summarization.messages);
+          void refreshStructuredMemory(activeGroupSessionId, true);
         },
         editGroupMessage: (sessionId: string, messageId: string, newContent: string) => {
           set((state: ChatStore) => {
@@ -855,9 +1550,11 @@ export const useChatStore = create<ChatStore>()(
           const newHistoryIds = session.messageIds.slice(0, messageIndex + 1);
           const newSessionData: GroupSession = {
               ...session,
+              ...forkedMemoryState(session, newHistoryIds.map(id => get().messages[id]).filter(Boolean)),
               id: crypto.randomUUID(),
               title: `Fork of ${session.title}`,
               messageIds: newHistoryIds,
+              forkedFrom: { sessionId, messageId },
           };
           
           set((state: ChatStore) => ({
@@ -871,12 +1568,12 @@ export const useChatStore = create<ChatStore>()(
         deleteGroupSession: (sessionId: string) => {
             const session = get().groupSessions[sessionId];
             if (!session) return;
-            const messagesToDelete = new Set(session.messageIds);
+            const messagesToDelete = new Set(ownedMessageIds(session));
             set((state: ChatStore) => {
                 const newGroupSessions = { ...state.groupSessions };
                 delete newGroupSessions[sessionId];
                 const newMessages = { ...state.messages };
-                messagesToDelete.forEach(id => delete newMessages[id]);
+                withoutSharedMessages(messagesToDelete, state.sessions, newGroupSessions).forEach(id => delete newMessages[id]);
                 return { groupSessions: newGroupSessions, messages: newMessages };
             });
         },
@@ -893,7 +1590,7 @@ export const useChatStore = create<ChatStore>()(
             sessionsForChar.forEach(sessionId => {
               const session = state.sessions[sessionId];
               if (session) {
-                session.messageIds.forEach(msgId => messagesToDelete.add(msgId));
+                ownedMessageIds(session).forEach(msgId => messagesToDelete.add(msgId));
               }
             });
         
@@ -902,7 +1599,7 @@ export const useChatStore = create<ChatStore>()(
             Object.values(state.groupSessions).forEach(gs => {
               if (gs.characterIds.includes(characterId)) {
                 groupSessionsToDelete.add(gs.id);
-                gs.messageIds.forEach(msgId => messagesToDelete.add(msgId));
+                ownedMessageIds(gs).forEach(msgId => messagesToDelete.add(msgId));
               }
             });
         
@@ -913,7 +1610,7 @@ export const useChatStore = create<ChatStore>()(
             groupSessionsToDelete.forEach(id => delete newGroupSessions[id]);
         
             const newMessages = { ...state.messages };
-            messagesToDelete.forEach(id => delete newMessages[id]);
+            withoutSharedMessages(messagesToDelete, newSessions, newGroupSessions).forEach(id => delete newMessages[id]);
             
             // FIX: Re-introduced a cast that was incorrectly removed. This helps TypeScript's inference in this complex closure where the type of `characterId` was being lost.
             const characterSessions: Record<string, string[]> = state.characterSessions;
@@ -1063,7 +1760,86 @@ export const useChatStore = create<ChatStore>()(
                 }
             });
         },
-        
+
+        setSessionStructuredMemoryEnabled: (sessionId: string, enabled: boolean, isGroup: boolean = false) => {
+            patchSession(sessionId, isGroup, () => ({ structuredMemoryEnabled: enabled }));
+        },
+        setSessionConnectionProfile: (sessionId: string, profileId: string | null, isGroup: boolean = false) => {
+            // Only the id is stored, so edits to the profile reach the session. Pinning a profile
+            // clears the session's own temperature and reply length, which would otherwise hide the profile's.
+            const profile = findConnectionProfile(useSettingsStore.getState().settings, profileId);
+            const update = profile
+                ? { connectionProfileId: profileId, temperature: undefined, maxOutputTokens: undefined }
+                : { connectionProfileId: null };
+            set((state: ChatStore) => {
+                if (isGroup) {
+                    const session = state.groupSessions[sessionId];
+                    if (!session) return state;
+                    const newGroupSessions = { ...state.groupSessions };
+                    newGroupSessions[sessionId] = { ...session, ...update };
+                    return {
+                        ...state,
+                        groupSessions: newGroupSessions,
+                    };
+                } else {
+                    const session = state.sessions[sessionId];
+                    if (!session) return state;
+                    const newSessions = { ...state.sessions };
+                    newSessions[sessionId] = { ...session, ...update };
+                    return {
+                        ...state,
+                        sessions: newSessions,
+                    };
+                }
+            });
+        },
+        setSessionSamplers: (sessionId: string, samplers: SamplerSettings, isGroup: boolean = false) => {
+            set((state: ChatStore) => {
+                if (isGroup) {
+                    const session = state.groupSessions[sessionId];
+                    if (!session) return state;
+                    const newGroupSessions = { ...state.groupSessions };
+                    newGroupSessions[sessionId] = { ...session, samplers };
+                    return {
+                        ...state,
+                        groupSessions: newGroupSessions,
+                    };
+                } else {
+                    const session = state.sessions[sessionId];
+                    if (!session) return state;
+                    const newSessions = { ...state.sessions };
+                    newSessions[sessionId] = { ...session, samplers };
+                    return {
+                        ...state,
+                        sessions: newSessions,
+                    };
+                }
+            });
+        },
+        getPromptBudget: (sessionId: string, isGroup: boolean = false) => {
+            // Mirrors the prompt the next generation would send, without sending it.
+            try {
+                const { messages } = get();
+                // Probability rolls always pass, so the preview counts every entry that could be injected.
+                if (isGroup) {
+                    const session = get().groupSessions[sessionId];
+                    if (!session) return null;
+                    const { characters } = useCharacterStore.getState();
+                    const sessionCharacters = session.characterIds.map(id => characters.find(c => c.id === id)).filter(Boolean) as Character[];
+                    const sessionMessages = session.messageIds.map(id => messages[id]).filter(Boolean);
+                    return buildGroupChatPrompt({ ...buildGroupChatParams(session, sessionMessages, sessionCharacters), random: () => 0 }).budget;
+                }
+                const session = get().sessions[sessionId];
+                if (!session) return null;
+                const settings = resolveSessionSettings(useSettingsStore.getState().settings as Settings, session.connectionProfileId);
+                const sessionMessages = session.messageIds.map(id => messages[id]).filter(Boolean);
+                return buildChatPrompt({ ...buildSingleChatParams(session, sessionMessages, settings), random: () => 0 }).budget;
+            } catch (error) {
+                logger.error('Failed to compute prompt budget.', { sessionId, error });
+                return null;
+            }
+        },
+
         exportChats: (sessionIds: string[], groupSessionIds: string[]) => {
             const { sessions, groupSessions, messages, characterSessions } = get();
             const { characters } = useCharacterStore.getState();
@@ -1091,10 +1867,10 @@ export const useChatStore = create<ChatStore>()(
             }).filter(Boolean);
             
             const messageIds = new Set<string>();
-            sessionsToExport.forEach(s => s.messageIds.forEach(id => messageIds.add(id)));
-            groupSessionsToExport.forEach(s => s.messageIds.forEach(id => messageIds.add(id)));
+            sessionsToExport.forEach(s => ownedMessageIds(s).forEach(id => messageIds.add(id)));
+            groupSessionsToExport.forEach(s => ownedMessageIds(s).forEach(id => messageIds.add(id)));
         
-            const messagesToExport = Array.from(messageIds).map(id => messages[id]).filter(Boolean);
+            const messagesToExport = Array.from(messageIds).map(id => messages[id]).filter(Boolean).map(withoutPromptSnapshot);
         
             if (messagesToExport.length === 0 && sessionsToExport.length === 0 && groupSessionsToExport.length === 0) {
                 alert("Selected chats have no messages to export.");
@@ -1142,6 +1918,8 @@ export const useChatStore = create<ChatStore>()(
                             let importedGroupCount = 0;
                 
                             const messageIdMap = new Map<string, string>();
+                            const sessionIdMap = new Map<string, string>();
+                            const remapMessageIds = (ids: string[]) => ids.map(oldId => messageIdMap.get(oldId) || oldId).filter(id => newMessages[id]);
                             (importedData.messages as Message[]).forEach(msg => {
                                 let newId = msg.id;
                                 if (newMessages[newId]) { // ID conflict
@@ -1155,15 +1933,17 @@ export const useChatStore = create<ChatStore>()(
                                 let newSessionId = impSession.id;
                                 if (newSessions[newSessionId]) { // ID conflict
                                     newSessionId = crypto.randomUUID();
+                                    sessionIdMap.set(impSession.id, newSessionId);
                                 }
                 
-                                const newMessageIds = impSession.messageIds.map(oldId => messageIdMap.get(oldId) || oldId).filter(id => newMessages[id]);
+                                const newMessageIds = remapMessageIds(impSession.messageIds);
                 
                                 const { characterId, ...sessionData } = impSession;
                                 newSessions[newSessionId] = {
                                     ...sessionData,
                                     id: newSessionId,
-                                    messageIds: newMessageIds
+                                    messageIds: newMessageIds,
+                                    summarizedMessageIds: impSession.summarizedMessageIds && remapMessageIds(impSession.summarizedMessageIds),
                                 };
                                 
                                 const characterExists = useCharacterStore.getState().characters.some(c => c.id === characterId);
@@ -1185,15 +1965,34 @@ export const useChatStore = create<ChatStore>()(
                                 let newSessionId = impSession.id;
                                 if (newGroupSessions[newSessionId]) { // ID conflict
                                     newSessionId = crypto.randomUUID();
+                                    sessionIdMap.set(impSession.id, newSessionId);
                                 }
                                 newGroupSessions[newSessionId] = {
                                     ...impSession,
                                     id: newSessionId,
-                                    messageIds: impSession.messageIds.map(oldId => messageIdMap.get(oldId) || oldId).filter(id => newMessages[id]),
+                                    messageIds: remapMessageIds(impSession.messageIds),
+                                    summarizedMessageIds: impSession.summarizedMessageIds && remapMessageIds(impSession.summarizedMessageIds),
                                 };
                                 importedGroupCount++;
                             });
                             
+                            // Point imported forks at their parents' new ids. Parents outside the file keep theirs.
+                            const remapFork = <T extends Session | GroupSession>(session: T): T => session.forkedFrom ? {
+                                ...session,
+                                forkedFrom: {
+                                    sessionId: sessionIdMap.get(session.forkedFrom.sessionId) || session.forkedFrom.sessionId,
+                                    messageId: messageIdMap.get(session.forkedFrom.messageId) || session.forkedFrom.messageId,
+                                },
+                            } : session;
+                            (importedData.sessions as Session[]).forEach(impSession => {
+                                const id = sessionIdMap.get(impSession.id) || impSession.id;
+                                newSessions[id] = remapFork(newSessions[id]);
+                            });
+                            (importedData.groupSessions as GroupSession[]).forEach(impSession => {
+                                const id = sessionIdMap.get(impSession.id) || impSession.id;
+                                newGroupSessions[id] = remapFork(newGroupSessions[id]);
+                            });
+                            
                             setTimeout(() => alert(`${importedSingleCount} single chat(s) and ${importedGroupCount} group chat(s) imported successfully!`), 100);
                 
                             return {
@@ -1221,6 +2020,10 @@ export const useChatStore = create<ChatStore>()(
     {
       name: 'roleplay-nexus-chat',
       storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        ...state,
+        messages: Object.fromEntries(Object.entries(state.messages).map(([id, m]) => [id, withoutPromptSnapshot(m)])),
+      }),
     },
   ),
 );
\ No newline at end of file
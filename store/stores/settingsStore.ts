@@ -87,6 +87,8 @@ export const useSettingsStore = create<SettingsStore>()(
       }),
       onRehydrateStorage: () => (state) => {
         if (state) {
+          // Backfill settings added after the user's data was first persisted, such as the prompt templates and budget shares.
+          state.settings = { ...DEFAULT_SETTINGS, ...state.settings };
           // Get user themes from storage, default to empty array if not present.
           const userThemes = state.themes || [];
           // Create a Set of user theme IDs for efficient lookup to avoid duplicates.
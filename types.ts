@@ -2,6 +2,7 @@ export enum LLMProvider {
   GEMINI = 'Gemini',
   OPENROUTER = 'OpenRouter',
   DEEPSEEK = 'DeepSeek',
+  CUSTOM = 'Custom',
 }
 
 export enum ThinkingDepth {
@@ -31,6 +32,12 @@ export interface Character {
   persona: string;
   isImmutable?: boolean;
   tags?: string[];
+  promptTemplate?: PromptTemplate; // Overrides the single-chat template for this character
+  scenario?: string;
+  alternateGreetings?: string[]; // Openings besides `greeting`
+  exampleDialogue?: string; // Sample exchanges showing how the character talks
+  worldId?: string; // World new chats start with instead of the global default
+  lorebook?: WorldEntry[]; // Lore of the character's own, retrieved alongside the chat's world
 }
 
 export interface StructuredPersona {
@@ -52,7 +59,53 @@ export interface Message {
   alternates?: {
     ids: string[];
     activeIndex: number;
+    keptId?: string; // The alternate that was active when the user replied
   };
+  promptSnapshot?: PromptSnapshot; // The request that generated this assistant message. Kept in memory only
+  diceRoll?: DiceRoll; // Set on system messages created by a dice command
+  noteKind?: SystemNoteKind; // Set on system messages the user adds for the model to read
+}
+
+/** System messages that are sent to the model rather than only shown in the chat. */
+export type SystemNoteKind = 'narration' | 'lore';
+
+export type DiceCommandKind = 'roll' | 'coin' | 'pick';
+
+/** The outcome of a dice command. Replaying `kind` and `expression` from `seed` reproduces `values`. */
+export interface DiceRoll {
+  kind: DiceCommandKind;
+  expression: string; // "2d6+3" for rolls, "a|b|c" for picks, empty for coins
+  seed: number;
+  values: number[]; // Die faces for rolls, 0 (heads) or 1 (tails) for coins, the picked index for picks
+  result: string;
+  roller: string;
+}
+
+/** A lore entry injected into a prompt, with the retrieval score that selected it. */
+export interface InjectedLoreEntry {
+  entryId?: string;
+  name: string;
+  score: number;
+  reasons: string[];
+  sticky?: boolean; // Kept in by an earlier trigger rather than matched this turn
+  depth?: number; // Messages from the end of the history it was inserted at; absent for the system prompt
+}
+
+/** The exact request sent to the provider for a generation, kept for inspection. */
+export interface PromptSnapshot {
+  provider: LLMProvider;
+  model: string;
+  /** Absent when the provider has no system role and the prompt was folded into the first turn. */
+  systemPrompt?: string;
+  messages: { role: Message['role']; content: string }[];
+  prefill?: string;
+  loreEntries: InjectedLoreEntry[];
+  temperature: number;
+  maxOutputTokens: number;
+  contextSize: number;
+  samplers: SamplerSettings;
+  budget: PromptBudget;
+  createdAt: number;
 }
 
 export enum WorldEntryCategory {
@@ -75,6 +128,25 @@ export interface WorldEntry {
   enabled: boolean;
   category?: WorldEntryCategory;
   isAlwaysActive?: boolean;
+  priority?: number; // Higher-priority entries are picked first, whatever their score. Defaults to 0.
+  insertionDepth?: number; // Inserted this many messages from the end of the history; the system prompt when unset.
+  sticky?: number; // Turns the entry stays in after it triggers
+  cooldown?: number; // Turns it can't trigger again once it drops out
+  probability?: number; // Chance to be injected when it triggers, 0-100. Defaults to 100.
+  secondaryKeys?: string[]; // Further keywords that gate keyword matches, combined by secondaryKeyLogic
+  secondaryKeyLogic?: SecondaryKeyLogic;
+  noRecursion?: boolean; // Keys mentioned in its content don't pull in other entries
+}
+
+/** How an entry's secondary keys gate its keyword matches, by whether they appear in recent messages. */
+export type SecondaryKeyLogic = 'and-any' | 'and-all' | 'not-any' | 'not-all';
+
+/** Multipliers for the signals that rank lore entries. 1 keeps a signal at its usual strength, 0 ignores it. */
+export interface LoreRetrievalWeights {
+  keyword: number; // Keys found in recent messages and personas, and entries linked to active characters
+  fullText: number; // Relevance of an entry's name and content to the latest messages
+  alwaysActive: number;
+  interaction: number; // How often the user has opened the entry
 }
 
 export interface World {
@@ -87,6 +159,10 @@ export interface World {
   tags?: string[];
   createdAt?: number;
   lastModified?: number;
+  promptTemplates?: Partial<PromptTemplates>; // Overrides for chats using this world
+  retrievalWeights?: LoreRetrievalWeights; // Defaults to DEFAULT_LORE_RETRIEVAL_WEIGHTS
+  maxLoreEntries?: number; // Defaults to DEFAULT_MAX_LORE_ENTRIES
+  loreRecursionDepth?: number; // How many times injected entries may pull in the entries they mention; off when unset
 }
 
 export interface WorldTemplate {
@@ -104,11 +180,19 @@ export interface ChatSession {
   title: string;
   messages: Message[];
   worldId?: string | null;
-  temperature?: number;
+  temperature?: number; // Overrides the resolved settings or connection profile when set
   contextSize?: number;
-  maxOutputTokens?: number;
+  maxOutputTokens?: number; // Overrides the resolved settings or connection profile when set
   memorySummary?: string;
+  memoryVersions?: MemoryVersion[]; // Every summary the session has had, oldest first; the last is current.
+  summarizedMessageIds?: string[]; // Messages folded into the summary and dropped from the visible history.
   memoryEnabled?: boolean;
+  structuredMemory?: StructuredMemory;
+  structuredMemoryEnabled?: boolean;
+  connectionProfileId?: string | null; // Pinned profile; falls back to the global one when unset.
+  samplers?: SamplerSettings; // Per-session overrides, merged over the global samplers.
+  forkedFrom?: ForkOrigin; // Set on sessions created by forking another one.
+  loreActivations?: Record<string, number>; // Lore entry id -> the user turn it last triggered on, for sticky and cooldown.
 }
 
 export interface GroupChatSession {
@@ -122,27 +206,167 @@ export interface GroupChatSession {
   contextSize?: number;
   maxOutputTokens?: number;
   memorySummary?: string;
+  memoryVersions?: MemoryVersion[];
+  summarizedMessageIds?: string[];
   memoryEnabled?: boolean;
+  structuredMemory?: StructuredMemory;
+  structuredMemoryEnabled?: boolean;
+  connectionProfileId?: string | null;
+  samplers?: SamplerSettings;
+  forkedFrom?: ForkOrigin;
+  loreActivations?: Record<string, number>;
+}
+
+/** How a memory summary version came about. */
+export type MemoryVersionSource = 'auto' | 'manual' | 'range' | 'edit' | 'restore';
+
+/** A saved state of a session's long-term memory summary. */
+export interface MemoryVersion {
+  id: string;
+  summary: string;
+  timestamp: number; // 0 for summaries written before versions were kept
+  source: MemoryVersionSource;
+  detail?: string; // e.g. the message range a summary was built from
+}
+
+/** How one character currently stands with another, e.g. `{ name: 'Mira', state: 'Wary ally since the ambush' }`. */
+export interface RelationshipState {
+  name: string;
+  state: string;
+}
+
+/** What structured memory tracks about a story. */
+export interface StructuredMemoryFields {
+  userFacts: string[];
+  relationships: RelationshipState[];
+  inventory: string[];
+  plotThreads: string[]; // Unresolved plot threads
+}
+
+/** The running record kept by structured memory, alongside the prose summary. */
+export interface StructuredMemory extends StructuredMemoryFields {
+  updatedAt: number;
+  lastMessageId?: string; // The newest message the record has been updated from
+}
+
+/** Where a forked session branched off: its parent session and the last message the two share. */
+export interface ForkOrigin {
+  sessionId: string;
+  messageId: string;
+}
+
+/**
+ * Optional sampling parameters beyond temperature. Unset values use the provider's
+ * defaults; values a provider does not support are dropped before the request is sent.
+ */
+export interface SamplerSettings {
+  topP?: number;
+  topK?: number;
+  minP?: number;
+  repetitionPenalty?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stopSequences?: string[];
+  seed?: number;
+}
+
+/** A saved provider/model/sampling combination that can be selected globally or pinned to a session. */
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  provider: LLMProvider;
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  responsePrefill: string;
+  systemPrompt: string;
+  samplers?: SamplerSettings;
+}
+
+export interface CustomEndpointHeader {
+  name: string;
+  value: string;
+}
+
+/** Connection details for a self-hosted or third-party OpenAI-compatible server. */
+export interface CustomEndpointSettings {
+  baseUrl: string;
+  headers: CustomEndpointHeader[];
+  /** Model ids last fetched from the server's `/v1/models` endpoint. */
+  models: string[];
+}
+
+/** Sections of an assembled prompt, in the order they are reported in the budget breakdown. */
+export type PromptSectionId = 'system' | 'persona' | 'character' | 'examples' | 'lore' | 'summary' | 'memory' | 'recall' | 'history';
+
+/** One block of the system prompt. `content` may contain macros such as `{{char}}` or `{{lore}}`. */
+export interface PromptTemplateSection {
+  id: string;
+  name: string;
+  /** The budget section its tokens are counted under. */
+  budgetSection: Exclude<PromptSectionId, 'history'>;
+  enabled: boolean;
+  content: string;
+}
+
+/** The ordered sections that make up a system prompt. */
+export interface PromptTemplate {
+  sections: PromptTemplateSection[];
+}
+
+export type PromptTemplateKind = 'single' | 'group';
+
+export type PromptTemplates = Record<PromptTemplateKind, PromptTemplate>;
+
+/** Token usage of the prompt for a request, per section. */
+export interface PromptBudget {
+  tokenizer: string;
+  approximate: boolean;
+  contextSize: number;
+  maxOutputTokens: number;
+  sections: Record<PromptSectionId, number>;
+  total: number;
+  historyMessagesKept: number;
+  historyMessagesTotal: number;
+}
+
+/** Shares of the prompt budget (after reserving the reply) that each section may use at most. */
+export interface ContextBudgetSettings {
+  loreShare: number;
+  summaryShare: number;
+  /** Share for past exchanges recalled from beyond the history that fits. */
+  recallShare: number;
+  /** Share for the character's example dialogue, which is dropped first when the history doesn't fit. */
+  examplesShare: number;
 }
 
 export interface Settings {
   provider: LLMProvider;
   apiKeys: {
-    [key in LLMProvider]: string;
+    [key in LLMProvider]?: string;
   };
   models?: {
     [key in LLMProvider]?: string;
   };
+  customEndpoint: CustomEndpointSettings;
+  connectionProfiles: ConnectionProfile[];
+  activeConnectionProfileId: string | null;
   systemPrompt: string;
   responsePrefill: string;
   contextSize: number;
   maxOutputTokens: number;
+  contextBudget: ContextBudgetSettings;
+  promptTemplates: PromptTemplates;
   temperature: number;
+  samplers: SamplerSettings;
   worldId: string | null;
   thinkingEnabled: boolean;
   showThinking: boolean;
   thinkingDepth: ThinkingDepth;
   thinkingTimeout: number; // in milliseconds
+  swipeCount: number; // Alternatives generated at once by "Generate Alternatives"
+  structuredMemoryInterval: number; // User turns between structured memory updates
+  embeddingModel: string; // Embedding model for recalling past exchanges; empty uses the local keyword index
 }
 
 export type View =
@@ -169,7 +393,8 @@ export type ValidationType =
   | 'MissingKeywords'
   | 'DuplicateContent'
   | 'InvalidEntry'
-  | 'InconsistentVoice';
+  | 'InconsistentVoice'
+  | 'ImportLoss';
 
 export interface ValidationIssue {
   type: ValidationType;